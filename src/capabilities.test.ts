@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  capabilityForEndpoint,
+  detectCapabilities,
+  supports,
+  unsupportedMessage,
+} from "./capabilities.js";
+
+describe("detectCapabilities", () => {
+  it("treats missing feature flags as supported", () => {
+    const caps = detectCapabilities({ default_models: "gpt" });
+
+    expect(caps.unsupported.size).toBe(0);
+    expect(caps.version).toBeUndefined();
+  });
+
+  it("marks features switched off in /api/config", () => {
+    const caps = detectCapabilities(
+      { version: "0.6.0", features: { enable_automations: false, enable_memories: false, enable_signup: false } },
+    );
+
+    expect([...caps.unsupported].sort()).toEqual(["automations", "memories"]);
+    expect(caps.version).toBe("0.6.0");
+    expect(supports(caps, "collaboration")).toBe(true);
+    // Project-scoped memories need memories
+    expect(supports(caps, "folder_memories")).toBe(false);
+  });
+
+  it("prefers a separately fetched version", () => {
+    expect(detectCapabilities({ version: "0.6.0" }, "0.6.2").version).toBe("0.6.2");
+  });
+});
+
+describe("capabilityForEndpoint", () => {
+  it("maps feature endpoints but not lookups of single records", () => {
+    expect(capabilityForEndpoint("/api/v1/chats/abc/collaboration/link-access")).toBe("collaboration");
+    expect(capabilityForEndpoint("/api/v1/automations/")).toBe("automations");
+    expect(capabilityForEndpoint("/api/v1/automations/create")).toBe("automations");
+    expect(capabilityForEndpoint("/api/v1/memories/?folder_id=f1")).toBe("memories");
+    expect(capabilityForEndpoint("/api/v1/automations/a1/runs")).toBeUndefined();
+    expect(capabilityForEndpoint("/api/v1/chats/abc")).toBeUndefined();
+  });
+});
+
+describe("unsupportedMessage", () => {
+  it("names the version when known", () => {
+    expect(unsupportedMessage("automations", "0.5.1")).toBe(
+      "Your CoChat version (0.5.1) does not support automations.",
+    );
+    expect(unsupportedMessage("collaboration")).toBe(
+      "Your CoChat version does not support chat collaboration (link sharing and invites).",
+    );
+  });
+});
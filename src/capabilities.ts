@@ -0,0 +1,101 @@
+import type { CoChatConfigResponse } from "./cochat-client.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Optional CoChat features that some server versions lack or disable. */
+export type Capability = "collaboration" | "automations" | "memories" | "folder_memories";
+
+export interface CoChatCapabilities {
+  /** Server version from /api/config or /api/version, when reported */
+  version?: string;
+  /** Capabilities the server reports as off, or whose endpoints returned 404 */
+  unsupported: Set<Capability>;
+}
+
+const CAPABILITY_LABELS: Record<Capability, string> = {
+  collaboration: "chat collaboration (link sharing and invites)",
+  automations: "automations",
+  memories: "memories",
+  folder_memories: "project-scoped memories",
+};
+
+/**
+ * `features` flags in /api/config that switch a capability off when they are
+ * `false`. Servers that predate a flag simply don't send it, so a missing
+ * flag counts as supported and the 404 fallback in the client catches the rest.
+ */
+const FEATURE_FLAGS: Record<Capability, string[]> = {
+  collaboration: ["enable_collaboration", "enable_chat_collaboration"],
+  automations: ["enable_automations"],
+  memories: ["enable_memories", "enable_memory"],
+  folder_memories: ["enable_folder_memories"],
+};
+
+/** Tools that cannot work at all without a capability; they are hidden. */
+export const TOOL_CAPABILITIES: Record<string, Capability> = {
+  automations_list: "automations",
+  automations_trigger: "automations",
+  automations_runs: "automations",
+  cochat_ask: "automations",
+  memories_query: "memories",
+  memories_add: "memories",
+  memories_list: "memories",
+  memories_delete: "memories",
+};
+
+const FOLDERLESS_MEMORIES =
+  "This CoChat version does not scope memories to projects: they are shared across all your projects.";
+
+/** Tools that still work without a capability, with what they do instead. */
+export const TOOL_DEGRADATIONS: Record<string, { capability: Capability; note: string }> = {
+  plans_share: {
+    capability: "collaboration",
+    note: "This CoChat version does not support collaboration: plans are shared as private chats in the project folder.",
+  },
+  docs_share: {
+    capability: "collaboration",
+    note: "This CoChat version does not support collaboration: documents are shared as private chats in the project folder.",
+  },
+  memories_query: { capability: "folder_memories", note: FOLDERLESS_MEMORIES },
+  memories_add: { capability: "folder_memories", note: FOLDERLESS_MEMORIES },
+  memories_list: { capability: "folder_memories", note: FOLDERLESS_MEMORIES },
+};
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+/** Read the capability set from the /api/config response. */
+export function detectCapabilities(config: CoChatConfigResponse, version?: string): CoChatCapabilities {
+  const features = (config.features ?? {}) as Record<string, unknown>;
+  const unsupported = new Set<Capability>();
+  for (const [capability, flags] of Object.entries(FEATURE_FLAGS) as [Capability, string[]][]) {
+    if (flags.some((flag) => features[flag] === false)) unsupported.add(capability);
+  }
+  return { version: version ?? config.version, unsupported };
+}
+
+/** Project-scoped memories need memories in the first place. */
+export function supports(caps: CoChatCapabilities, capability: Capability): boolean {
+  if (capability === "folder_memories" && caps.unsupported.has("memories")) return false;
+  return !caps.unsupported.has(capability);
+}
+
+/**
+ * The capability behind an endpoint, for endpoints whose 404 means "this
+ * server doesn't have the feature" rather than "this record doesn't exist".
+ */
+export function capabilityForEndpoint(path: string): Capability | undefined {
+  const bare = path.split("?")[0];
+  if (/^\/api\/v1\/chats\/[^/]+\/collaboration\//.test(bare)) return "collaboration";
+  if (/^\/api\/v1\/automations\/(create)?$/.test(bare)) return "automations";
+  if (/^\/api\/v1\/memories\/(add|query)?$/.test(bare)) return "memories";
+  return undefined;
+}
+
+export function unsupportedMessage(capability: Capability, version?: string): string {
+  const server = version ? `Your CoChat version (${version})` : "Your CoChat version";
+  return `${server} does not support ${CAPABILITY_LABELS[capability]}.`;
+}
@@ -0,0 +1,358 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  CoChatClient,
+  CoChatClientError,
+  CoChatResponseError,
+  CoChatUnsupportedError,
+  DEFAULT_REQUEST_POLICY,
+  parseRetryAfter,
+  retryDelayMs,
+} from "./cochat-client.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const config = { cochatUrl: "https://cochat.example.com", apiKey: "key" };
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+const fetchMock = vi.fn<typeof fetch>();
+
+/** Zero backoff so retries run without waiting */
+function makeClient(overrides = {}): CoChatClient {
+  return new CoChatClient(config, { baseDelayMs: 0, ...overrides });
+}
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// Retries
+// ---------------------------------------------------------------------------
+
+describe("CoChatClient retries", () => {
+  it("retries idempotent requests on 5xx and network errors", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(502, { detail: "bad gateway" }))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(jsonResponse(200, { id: "chat-1", chat: {} }));
+
+    const chat = await makeClient().getChat("chat-1");
+
+    expect(chat.id).toBe("chat-1");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry non-idempotent requests on 5xx", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(500, { detail: "boom" }));
+
+    await expect(makeClient().createChat({ title: "x" })).rejects.toMatchObject({ statusCode: 500 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries any request on 429, honoring Retry-After", async () => {
+    vi.useFakeTimers();
+    try {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(429, {}, { "retry-after": "2" }))
+        .mockResolvedValueOnce(jsonResponse(200, { id: "chat-new", chat: {} }));
+
+      const pending = makeClient().createChat({ title: "x" });
+      await vi.advanceTimersByTimeAsync(1_999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect((await pending).id).toBe("chat-new");
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("gives up after maxRetries and does not retry client errors", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(503, {}));
+    await expect(makeClient({ maxRetries: 2 }).listChats()).rejects.toBeInstanceOf(CoChatClientError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(jsonResponse(404, { detail: "not found" }));
+    await expect(makeClient().getChat("missing")).rejects.toMatchObject({ statusCode: 404 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("aborts requests that exceed the timeout", async () => {
+    fetchMock.mockImplementation(
+      (_url, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+        }),
+    );
+
+    await expect(makeClient({ timeoutMs: 5, maxRetries: 1 }).listFolders()).rejects.toThrow(
+      "Timed out after 5ms on GET /api/v1/folders/",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Response validation
+// ---------------------------------------------------------------------------
+
+describe("CoChatClient response validation", () => {
+  it("returns valid responses unchanged, unknown keys included", async () => {
+    const folder = { id: "f1", name: "Demo", data: null, custom_flag: true };
+    fetchMock.mockResolvedValue(jsonResponse(200, folder));
+
+    expect(await makeClient().getFolder("f1")).toEqual(folder);
+  });
+
+  it("names the endpoint and the offending field", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse(200, [
+        { id: "c1", chat: {} },
+        { id: "c2", chat: { history: { messages: { m1: { id: 42, content: "hi" } } } } },
+      ]),
+    );
+
+    const error = await makeClient().listChats().catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(CoChatResponseError);
+    expect(error).toBeInstanceOf(CoChatClientError);
+    expect(error).toMatchObject({
+      statusCode: 200,
+      endpoint: "GET /api/v1/chats/",
+      field: "[1].chat.history.messages.m1.id",
+    });
+    expect((error as Error).message).toBe(
+      "Unexpected response from CoChat GET /api/v1/chats/: [1].chat.history.messages.m1.id expected string, received number",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("accepts chat list rows without the chat body", async () => {
+    const rows = [
+      { id: "c1", title: "Plan: Rollout" },
+      { id: "c2", title: "Notes", updated_at: 1_700_000_000, created_at: 1_700_000_000 },
+    ];
+    fetchMock.mockImplementation(async () => jsonResponse(200, rows));
+
+    expect(await makeClient().listChats()).toEqual(rows);
+    expect(await makeClient().listFolderChats("f1")).toEqual(rows);
+  });
+
+  it("reports missing required fields", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { id: "mem-1" }));
+
+    await expect(makeClient().addMemory("note")).rejects.toThrow(
+      "Unexpected response from CoChat POST /api/v1/memories/add: content required",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Capabilities
+// ---------------------------------------------------------------------------
+
+describe("CoChatClient capabilities", () => {
+  it("detects capabilities once and falls back to /api/version", async () => {
+    fetchMock.mockImplementation(async (url) =>
+      String(url).endsWith("/api/config")
+        ? jsonResponse(200, { features: { enable_automations: false } })
+        : jsonResponse(200, { version: "0.6.3" }),
+    );
+    const client = makeClient();
+
+    const caps = await client.capabilities();
+    await client.capabilities();
+
+    expect(caps.version).toBe("0.6.3");
+    expect([...caps.unsupported]).toEqual(["automations"]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("turns a 404 on a feature endpoint into an unsupported error", async () => {
+    fetchMock.mockImplementation(async (url) => {
+      if (String(url).endsWith("/api/config")) return jsonResponse(200, { version: "0.5.0" });
+      if (String(url).endsWith("/api/v1/chats/chat-1")) return jsonResponse(200, { id: "chat-1", chat: {} });
+      return new Response("Not Found", { status: 404 });
+    });
+    const client = makeClient();
+    await client.capabilities();
+
+    const error = await client.setLinkAccess("chat-1", "write").catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(CoChatUnsupportedError);
+    expect((error as Error).message).toBe(
+      "Your CoChat version (0.5.0) does not support chat collaboration (link sharing and invites).",
+    );
+    expect((await client.capabilities()).unsupported.has("collaboration")).toBe(true);
+    await expect(client.getChat("missing")).rejects.not.toBeInstanceOf(CoChatUnsupportedError);
+  });
+
+  it("keeps collaboration when the 404 only means the chat is gone", async () => {
+    fetchMock.mockImplementation(async (url) =>
+      String(url).endsWith("/api/config")
+        ? jsonResponse(200, { version: "0.6.0" })
+        : new Response("Not Found", { status: 404 }),
+    );
+    const client = makeClient();
+    await client.capabilities();
+
+    const error = await client.setLinkAccess("deleted", "write").catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(CoChatClientError);
+    expect(error).not.toBeInstanceOf(CoChatUnsupportedError);
+    expect((await client.capabilities()).unsupported.has("collaboration")).toBe(false);
+  });
+
+  it("assumes everything is supported when detection fails", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(401, { detail: "bad key" }));
+
+    expect((await makeClient().capabilities()).unsupported.size).toBe(0);
+  });
+
+  it("detects with one short attempt and remembers a failure for a minute", async () => {
+    vi.useFakeTimers();
+    try {
+      fetchMock.mockImplementation(
+        (_url, init) =>
+          new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+          }),
+      );
+      const client = makeClient();
+
+      const first = client.capabilities();
+      await vi.advanceTimersByTimeAsync(3_000);
+      expect((await first).unsupported.size).toBe(0);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await client.capabilities();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      fetchMock.mockImplementation(async () =>
+        jsonResponse(200, { version: "0.6.3", features: { enable_automations: false } }),
+      );
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect([...(await client.capabilities()).unsupported]).toEqual(["automations"]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Caching
+// ---------------------------------------------------------------------------
+
+describe("CoChatClient cache", () => {
+  const folder = { id: "f1", name: "Demo", data: { context: "old" } };
+
+  it("serves repeated and concurrent reads from one round-trip", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, folder));
+    const client = makeClient();
+
+    const [a, b] = await Promise.all([client.getFolder("f1"), client.getFolder("f1")]);
+    a.data!.context = "mutated";
+    const c = await client.getFolder("f1");
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(b.data).toEqual({ context: "old" });
+    expect(c.data).toEqual({ context: "old" });
+  });
+
+  it("drops cached folders when a folder is written", async () => {
+    fetchMock.mockImplementation(async (url) =>
+      jsonResponse(200, String(url).endsWith("/folders/") ? [folder] : folder),
+    );
+    const client = makeClient();
+
+    await client.getFolder("f1");
+    await client.listFolders();
+    await client.updateFolder("f1", { data: { context: "new" } });
+    await client.getFolder("f1");
+    await client.listFolders();
+
+    expect(fetchMock.mock.calls.map(([url, init]) => `${init?.method} ${url}`)).toEqual([
+      "GET https://cochat.example.com/api/v1/folders/f1",
+      "GET https://cochat.example.com/api/v1/folders/",
+      "POST https://cochat.example.com/api/v1/folders/f1/update",
+      "GET https://cochat.example.com/api/v1/folders/f1",
+      "GET https://cochat.example.com/api/v1/folders/",
+    ]);
+  });
+
+  it("expires entries after the TTL and does not cache failures", async () => {
+    vi.useFakeTimers();
+    try {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(404, { detail: "gone" }))
+        .mockImplementation(async () => jsonResponse(200, { default_models: "gpt" }));
+      const client = makeClient({ cacheTtlMs: 1_000, maxRetries: 0 });
+
+      await expect(client.getFolder("f1")).rejects.toMatchObject({ statusCode: 404 });
+      await client.getConfig();
+      await client.getConfig();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(1_001);
+      await client.getConfig();
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("can be disabled", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, []));
+    const client = makeClient({ cacheTtlMs: 0 });
+
+    await client.listAutomations();
+    await client.listAutomations();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Backoff helpers
+// ---------------------------------------------------------------------------
+
+describe("retryDelayMs", () => {
+  it("grows exponentially up to maxDelayMs with full jitter", () => {
+    const max = () => 1;
+    expect(retryDelayMs(0, DEFAULT_REQUEST_POLICY, undefined, max)).toBe(500);
+    expect(retryDelayMs(2, DEFAULT_REQUEST_POLICY, undefined, max)).toBe(2_000);
+    expect(retryDelayMs(10, DEFAULT_REQUEST_POLICY, undefined, max)).toBe(10_000);
+    expect(retryDelayMs(2, DEFAULT_REQUEST_POLICY, undefined, () => 0.5)).toBe(1_000);
+  });
+
+  it("prefers Retry-After, capped at a minute", () => {
+    expect(retryDelayMs(0, DEFAULT_REQUEST_POLICY, 3_000)).toBe(3_000);
+    expect(retryDelayMs(0, DEFAULT_REQUEST_POLICY, 600_000)).toBe(60_000);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("accepts seconds and HTTP dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("7", now)).toBe(7_000);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:30 GMT", now)).toBe(30_000);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
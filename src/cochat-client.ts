@@ -1,3 +1,19 @@
+import { z } from "zod";
+import {
+  capabilityForEndpoint,
+  detectCapabilities,
+  unsupportedMessage,
+  type Capability,
+  type CoChatCapabilities,
+} from "./capabilities.js";
+import {
+  CoChatAutomationResponseSchema,
+  CoChatChatListItemSchema,
+  CoChatChatResponseSchema,
+  CoChatFolderResponseSchema,
+  CoChatMemoryResponseSchema,
+  issuePath,
+} from "./cochat-schemas.js";
 import type { CoChatConfig } from "./config.js";
 import { log } from "./logger.js";
 
@@ -22,6 +38,15 @@ export interface CoChatChatResponse {
   link_access_level?: string | null;
 }
 
+/**
+ * A row of a chat listing. Rows carry the chat's id, title and timestamps,
+ * but `chat` (the messages) and `updated_at` are not always included.
+ */
+export interface CoChatChatListItem extends Omit<CoChatChatResponse, "chat" | "updated_at"> {
+  chat?: Record<string, unknown>;
+  updated_at?: number;
+}
+
 export interface CoChatMessage {
   id: string;
   parentId: string | null;
@@ -43,6 +68,8 @@ export interface CoChatMessage {
 
 export interface CoChatConfigResponse {
   default_models?: string;
+  version?: string;
+  features?: Record<string, unknown>;
   [key: string]: unknown;
 }
 
@@ -130,6 +157,143 @@ export class CoChatClientError extends Error {
   }
 }
 
+/**
+ * The server answered successfully, but the response does not have the shape
+ * the client expects (usually a CoChat version mismatch).
+ */
+export class CoChatResponseError extends CoChatClientError {
+  constructor(
+    statusCode: number,
+    /** "GET /api/v1/chats/abc" */
+    public endpoint: string,
+    /** Path of the first offending field, e.g. "chat.history.messages.m1.id" */
+    public field: string,
+    detail: string,
+  ) {
+    super(statusCode, `Unexpected response from CoChat ${endpoint}: ${field} ${detail}`);
+    this.name = "CoChatResponseError";
+  }
+}
+
+/** The connected CoChat server lacks a feature the request needs. */
+export class CoChatUnsupportedError extends CoChatClientError {
+  constructor(
+    public capability: Capability,
+    version?: string,
+  ) {
+    super(404, unsupportedMessage(capability, version));
+    this.name = "CoChatUnsupportedError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Timeouts and retries
+// ---------------------------------------------------------------------------
+
+export interface RequestPolicy {
+  /** Abort a request (including reading its body) after this long */
+  timeoutMs: number;
+  /** Retries after the first attempt; 0 disables retrying */
+  maxRetries: number;
+  /** Backoff before the first retry, doubled on every further retry */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff, before jitter */
+  maxDelayMs: number;
+  /** How long config, folder and automation reads are reused; 0 disables caching */
+  cacheTtlMs: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 30_000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  cacheTtlMs: 30_000,
+};
+
+/** Longest `Retry-After` we are willing to wait for. */
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/**
+ * Capability detection runs while listing tools, so it gets one short
+ * attempt. After a failure everything counts as supported for a while
+ * before detection is tried again.
+ */
+const CAPABILITY_TIMEOUT_MS = 3_000;
+const CAPABILITY_RETRY_MS = 60_000;
+
+interface RequestOptions {
+  /**
+   * Safe to send twice. Defaults to true for GET and DELETE; POSTs that
+   * overwrite state (rather than create something) opt in explicitly.
+   */
+  idempotent?: boolean;
+  /** Override the client's timeout for this request */
+  timeoutMs?: number;
+  /** Override the client's retry limit for this request */
+  maxRetries?: number;
+  /** Check the response body against this schema before returning it */
+  schema?: z.ZodTypeAny;
+}
+
+type AttemptOutcome<T> =
+  | { ok: true; status: number; value: T }
+  | { ok: false; error: CoChatClientError; retryAfterMs?: number };
+
+/**
+ * 429 means the server rejected the request unprocessed, so any request can
+ * be retried. 5xx, network errors and timeouts (status 0) may have been
+ * applied server-side and are only retried for idempotent requests.
+ */
+function isRetryable(status: number, idempotent: boolean): boolean {
+  if (status === 429) return true;
+  return idempotent && (status === 0 || status >= 500);
+}
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or an HTTP date) into
+ * milliseconds from `now`.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter. A server-provided `Retry-After`
+ * takes precedence (capped at a minute).
+ */
+export function retryDelayMs(
+  attempt: number,
+  policy: RequestPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random,
+): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, MAX_RETRY_AFTER_MS);
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Throw a CoChatResponseError naming the first field that does not match.
+ * The response itself is returned unchanged, unknown keys included.
+ */
+function validateResponse(
+  schema: z.ZodTypeAny,
+  outcome: { status: number; value: unknown },
+  endpoint: string,
+): void {
+  const result = schema.safeParse(outcome.value);
+  if (result.success) return;
+  const issue = result.error.issues[0];
+  const error = new CoChatResponseError(outcome.status, endpoint, issuePath(issue.path), issue.message.toLowerCase());
+  log.error(error.message);
+  throw error;
+}
+
 // ---------------------------------------------------------------------------
 // Client
 // ---------------------------------------------------------------------------
@@ -137,10 +301,20 @@ export class CoChatClientError extends Error {
 export class CoChatClient {
   private baseUrl: string;
   private apiKey: string;
-
-  constructor(config: CoChatConfig) {
+  private policy: RequestPolicy;
+  private detected?: Promise<CoChatCapabilities>;
+  /** When a failed detection may be retried */
+  private redetectAt?: number;
+  private serverVersion?: string;
+  /** Capabilities whose endpoints returned 404 this session */
+  private missing = new Set<Capability>();
+  /** Read responses by path; entries hold the in-flight promise so concurrent reads share it */
+  private cache = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
+
+  constructor(config: CoChatConfig, policy: Partial<RequestPolicy> = {}) {
     this.baseUrl = config.cochatUrl;
     this.apiKey = config.apiKey;
+    this.policy = { ...DEFAULT_REQUEST_POLICY, ...policy };
   }
 
   private headers(): Record<string, string> {
@@ -154,40 +328,136 @@ export class CoChatClient {
     method: string,
     path: string,
     body?: unknown,
+    options: RequestOptions = {},
   ): Promise<T> {
-    const url = `${this.baseUrl}${path}`;
+    const idempotent = options.idempotent ?? (method === "GET" || method === "DELETE");
+    const timeoutMs = options.timeoutMs ?? this.policy.timeoutMs;
+    const maxRetries = options.maxRetries ?? this.policy.maxRetries;
     log.debug(`API ${method} ${path}`);
 
-    let resp: Response;
+    for (let attempt = 0; ; attempt++) {
+      const outcome = await this.attempt<T>(method, path, body, timeoutMs);
+      const retries = attempt > 0 ? ` (after ${attempt} ${attempt === 1 ? "retry" : "retries"})` : "";
+
+      if (outcome.ok) {
+        log.debug(`API ${method} ${path} -> ${outcome.status}${retries}`);
+        if (options.schema) validateResponse(options.schema, outcome, `${method} ${path}`);
+        return outcome.value;
+      }
+
+      const { error } = outcome;
+      const capability = error.statusCode === 404 ? capabilityForEndpoint(path) : undefined;
+      if (capability && (await this.featureMissing(capability, path))) {
+        this.missing.add(capability);
+        log.warn(`API ${method} ${path} not found; marking ${capability} unsupported`);
+        throw new CoChatUnsupportedError(capability, this.serverVersion);
+      }
+      if (attempt >= maxRetries || !isRetryable(error.statusCode, idempotent)) {
+        log.error(`${error.message}${retries}`);
+        throw error;
+      }
+
+      const delay = retryDelayMs(attempt, this.policy, outcome.retryAfterMs);
+      log.debug(
+        `API ${method} ${path} retry ${attempt + 1}/${maxRetries} in ${delay}ms: ${error.message}`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Whether a 404 from a capability endpoint means the server lacks the
+   * feature. Per-chat collaboration endpoints also 404 when the chat itself
+   * is gone, so those only count while the chat still loads.
+   */
+  private async featureMissing(capability: Capability, path: string): Promise<boolean> {
+    const chatId = path.match(/^\/api\/v1\/chats\/([^/?]+)\/collaboration\//)?.[1];
+    if (capability !== "collaboration" || !chatId) return true;
+    try {
+      await this.request("GET", `/api/v1/chats/${chatId}`, undefined, { maxRetries: 0 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Serve a GET from the cache while it is fresh. Callers get their own copy,
+   * so mutating a response can't leak into later reads. Failures are not
+   * cached.
+   */
+  private async cached<T>(path: string, load: () => Promise<T>): Promise<T> {
+    if (this.policy.cacheTtlMs <= 0) return load();
+
+    const hit = this.cache.get(path);
+    if (hit && hit.expiresAt > Date.now()) {
+      log.debug(`API GET ${path} (cached)`);
+      return structuredClone((await hit.value) as T);
+    }
+
+    const value = load();
+    this.cache.set(path, { expiresAt: Date.now() + this.policy.cacheTtlMs, value });
+    value.catch(() => {
+      if (this.cache.get(path)?.value === value) this.cache.delete(path);
+    });
+    return structuredClone(await value);
+  }
+
+  /** Drop cached reads a write may have changed. */
+  private invalidate(...paths: string[]): void {
+    for (const path of paths) this.cache.delete(path);
+  }
+
+  /**
+   * A single fetch, aborted after `timeoutMs`. The timer also covers reading
+   * the body, so a server that stalls mid-response times out too.
+   */
+  private async attempt<T>(
+    method: string,
+    path: string,
+    body: unknown,
+    timeoutMs: number,
+  ): Promise<AttemptOutcome<T>> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
     try {
-      resp = await fetch(url, {
+      const resp = await fetch(`${this.baseUrl}${path}`, {
         method,
         headers: this.headers(),
         body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
       });
+
+      if (!resp.ok) {
+        const text = await resp.text().catch(() => "");
+        return {
+          ok: false,
+          error: new CoChatClientError(
+            resp.status,
+            `CoChat API ${method} ${path} failed (${resp.status}): ${text}`,
+          ),
+          retryAfterMs: parseRetryAfter(resp.headers.get("retry-after")),
+        };
+      }
+
+      // Some DELETE endpoints return empty bodies
+      const contentType = resp.headers.get("content-type") ?? "";
+      const value = contentType.includes("application/json")
+        ? ((await resp.json()) as T)
+        : (undefined as T);
+      return { ok: true, status: resp.status, value };
     } catch (err) {
+      if (controller.signal.aborted) {
+        return {
+          ok: false,
+          error: new CoChatClientError(0, `Timed out after ${timeoutMs}ms on ${method} ${path}`),
+        };
+      }
       const msg = err instanceof Error ? err.message : String(err);
-      log.error(`API ${method} ${path} network error: ${msg}`);
-      throw new CoChatClientError(0, `Network error on ${method} ${path}: ${msg}`);
+      return { ok: false, error: new CoChatClientError(0, `Network error on ${method} ${path}: ${msg}`) };
+    } finally {
+      clearTimeout(timer);
     }
-
-    if (!resp.ok) {
-      const text = await resp.text().catch(() => "");
-      log.error(`API ${method} ${path} failed (${resp.status}): ${text}`);
-      throw new CoChatClientError(
-        resp.status,
-        `CoChat API ${method} ${path} failed (${resp.status}): ${text}`,
-      );
-    }
-
-    log.debug(`API ${method} ${path} -> ${resp.status}`);
-
-    // Some DELETE endpoints return empty bodies
-    const contentType = resp.headers.get("content-type") ?? "";
-    if (contentType.includes("application/json")) {
-      return (await resp.json()) as T;
-    }
-    return undefined as T;
   }
 
   // -------------------------------------------------------------------------
@@ -195,7 +465,51 @@ export class CoChatClient {
   // -------------------------------------------------------------------------
 
   async getConfig(): Promise<CoChatConfigResponse> {
-    return this.request<CoChatConfigResponse>("GET", "/api/config");
+    return this.cached("/api/config", () => this.request<CoChatConfigResponse>("GET", "/api/config"));
+  }
+
+  async getVersion(): Promise<{ version: string }> {
+    return this.request<{ version: string }>("GET", "/api/version");
+  }
+
+  /**
+   * What the connected server supports. Detected from /api/config (plus
+   * /api/version when the config has no version) on first use and kept for
+   * the lifetime of the client; endpoints that 404 are added as they happen.
+   * Detection makes a single short attempt. If it fails, everything counts as
+   * supported and detection is retried once CAPABILITY_RETRY_MS has passed.
+   */
+  async capabilities(): Promise<CoChatCapabilities> {
+    if (this.redetectAt !== undefined && Date.now() >= this.redetectAt) {
+      this.detected = undefined;
+      this.redetectAt = undefined;
+    }
+    this.detected ??= this.detectCapabilities();
+    const caps = await this.detected;
+    return { ...caps, unsupported: new Set([...caps.unsupported, ...this.missing]) };
+  }
+
+  private async detectCapabilities(): Promise<CoChatCapabilities> {
+    const fast = { timeoutMs: CAPABILITY_TIMEOUT_MS, maxRetries: 0 };
+    try {
+      const config = await this.cached("/api/config", () =>
+        this.request<CoChatConfigResponse>("GET", "/api/config", undefined, fast),
+      );
+      const fallback = config.version
+        ? undefined
+        : await this.request<{ version: string }>("GET", "/api/version", undefined, fast).catch(() => undefined);
+      const caps = detectCapabilities(config, fallback?.version);
+      this.serverVersion = caps.version;
+      log.info("CoChat capabilities detected", {
+        version: caps.version,
+        unsupported: [...caps.unsupported],
+      });
+      return caps;
+    } catch (err) {
+      log.warn(`Capability detection failed: ${err instanceof Error ? err.message : String(err)}`);
+      this.redetectAt = Date.now() + CAPABILITY_RETRY_MS;
+      return { unsupported: new Set() };
+    }
   }
 
   // -------------------------------------------------------------------------
@@ -203,13 +517,18 @@ export class CoChatClient {
   // -------------------------------------------------------------------------
 
   async createChat(chatData: Record<string, unknown>): Promise<CoChatChatResponse> {
-    return this.request<CoChatChatResponse>("POST", "/api/v1/chats/new", {
-      chat: chatData,
-    });
+    return this.request<CoChatChatResponse>(
+      "POST",
+      "/api/v1/chats/new",
+      { chat: chatData },
+      { schema: CoChatChatResponseSchema },
+    );
   }
 
   async getChat(chatId: string): Promise<CoChatChatResponse> {
-    return this.request<CoChatChatResponse>("GET", `/api/v1/chats/${chatId}`);
+    return this.request<CoChatChatResponse>("GET", `/api/v1/chats/${chatId}`, undefined, {
+      schema: CoChatChatResponseSchema,
+    });
   }
 
   async updateChat(
@@ -220,9 +539,14 @@ export class CoChatClient {
       "POST",
       `/api/v1/chats/${chatId}`,
       { chat: chatData },
+      { idempotent: true },
     );
   }
 
+  async deleteChat(chatId: string): Promise<void> {
+    await this.request<void>("DELETE", `/api/v1/chats/${chatId}`);
+  }
+
   async updateMessage(
     chatId: string,
     messageId: string,
@@ -232,9 +556,70 @@ export class CoChatClient {
       "POST",
       `/api/v1/chats/${chatId}/messages/${messageId}`,
       { content },
+      { idempotent: true },
     );
   }
 
+  /**
+   * Append a message to the end of a chat's active thread. The message is
+   * linked to the current leaf (`parentId` / parent's `childrenIds`), becomes
+   * the new `history.currentId`, and is added to the flat `messages` list so
+   * it shows up inline in CoChat. Without an explicit `model`, the chat's
+   * first model is used.
+   */
+  async appendMessage(
+    chatId: string,
+    message: Pick<CoChatMessage, "role" | "content"> & Partial<CoChatMessage>,
+  ): Promise<CoChatMessage> {
+    const chat = await this.getChat(chatId);
+    const chatData = chat.chat as Record<string, unknown>;
+    const history = (chatData.history as
+      | { messages?: Record<string, CoChatMessage>; currentId?: string | null }
+      | undefined) ?? {};
+    const messages = { ...(history.messages ?? {}) };
+
+    // Fall back to the newest message when the chat has no currentId
+    const parentId =
+      history.currentId && messages[history.currentId]
+        ? history.currentId
+        : this.extractMessages(chat).at(-1)?.id ?? null;
+
+    const appended: CoChatMessage = {
+      done: true,
+      model: (chatData.models as string[] | undefined)?.[0],
+      ...message,
+      id: crypto.randomUUID(),
+      parentId,
+      childrenIds: [],
+      timestamp: Math.floor(Date.now() / 1000),
+    };
+
+    if (parentId) {
+      const parent = messages[parentId];
+      messages[parentId] = { ...parent, childrenIds: [...(parent.childrenIds ?? []), appended.id] };
+    }
+    messages[appended.id] = appended;
+
+    const flat = {
+      id: appended.id,
+      role: appended.role,
+      content: appended.content,
+      model: appended.model,
+      modelName: appended.modelName,
+      done: appended.done,
+      timestamp: appended.timestamp,
+    };
+    const flatMessages = Array.isArray(chatData.messages) ? chatData.messages : [];
+
+    await this.updateChat(chatId, {
+      ...chatData,
+      history: { ...history, messages, currentId: appended.id },
+      messages: [...flatMessages, flat],
+    });
+
+    return appended;
+  }
+
   // -------------------------------------------------------------------------
   // Chat collaboration
   // -------------------------------------------------------------------------
@@ -244,6 +629,7 @@ export class CoChatClient {
       "POST",
       `/api/v1/chats/${chatId}/collaboration/enable`,
       { enabled: true },
+      { idempotent: true },
     );
   }
 
@@ -255,6 +641,7 @@ export class CoChatClient {
       "POST",
       `/api/v1/chats/${chatId}/collaboration/link-access`,
       { link_access_level: level },
+      { idempotent: true },
     );
   }
 
@@ -272,6 +659,7 @@ export class CoChatClient {
         group_ids: [],
         permission,
       },
+      { idempotent: true },
     );
   }
 
@@ -283,11 +671,31 @@ export class CoChatClient {
       "POST",
       `/api/v1/chats/${chatId}/folder`,
       { folder_id: folderId },
+      { idempotent: true },
     );
   }
 
-  async listChats(): Promise<CoChatChatResponse[]> {
-    return this.request<CoChatChatResponse[]>("GET", "/api/v1/chats/");
+  /**
+   * Toggle a chat's archived flag. CoChat flips the flag on every call, so
+   * check `archived` on the chat first.
+   */
+  async toggleChatArchive(chatId: string): Promise<CoChatChatResponse> {
+    return this.request<CoChatChatResponse>("POST", `/api/v1/chats/${chatId}/archive`);
+  }
+
+  async listChats(): Promise<CoChatChatListItem[]> {
+    return this.request<CoChatChatListItem[]>("GET", "/api/v1/chats/", undefined, {
+      schema: z.array(CoChatChatListItemSchema),
+    });
+  }
+
+  async listFolderChats(folderId: string): Promise<CoChatChatListItem[]> {
+    return this.request<CoChatChatListItem[]>(
+      "GET",
+      `/api/v1/chats/folder/${folderId}`,
+      undefined,
+      { schema: z.array(CoChatChatListItemSchema) },
+    );
   }
 
   // -------------------------------------------------------------------------
@@ -299,15 +707,35 @@ export class CoChatClient {
     meta?: Record<string, unknown>,
     data?: Record<string, unknown>,
   ): Promise<CoChatFolderResponse> {
-    return this.request<CoChatFolderResponse>("POST", "/api/v1/folders/", {
-      name,
-      ...(meta ? { meta } : {}),
-      ...(data ? { data } : {}),
-    });
+    try {
+      return await this.request<CoChatFolderResponse>(
+        "POST",
+        "/api/v1/folders/",
+        {
+          name,
+          ...(meta ? { meta } : {}),
+          ...(data ? { data } : {}),
+        },
+        { schema: CoChatFolderResponseSchema },
+      );
+    } finally {
+      // Even a failed write may have been applied
+      this.invalidate("/api/v1/folders/");
+    }
   }
 
-  async getFolder(id: string): Promise<CoChatFolderResponse> {
-    return this.request<CoChatFolderResponse>("GET", `/api/v1/folders/${id}`);
+  /**
+   * Pass `fresh` before a read-modify-write of the folder so a cached copy
+   * can't overwrite changes a teammate made in the meantime.
+   */
+  async getFolder(id: string, options: { fresh?: boolean } = {}): Promise<CoChatFolderResponse> {
+    const path = `/api/v1/folders/${id}`;
+    if (options.fresh) this.invalidate(path);
+    return this.cached(path, () =>
+      this.request<CoChatFolderResponse>("GET", path, undefined, {
+        schema: CoChatFolderResponseSchema,
+      }),
+    );
   }
 
   async updateFolder(
@@ -318,15 +746,24 @@ export class CoChatClient {
       data?: Record<string, unknown>;
     },
   ): Promise<CoChatFolderResponse> {
-    return this.request<CoChatFolderResponse>(
-      "POST",
-      `/api/v1/folders/${id}/update`,
-      updates,
-    );
+    try {
+      return await this.request<CoChatFolderResponse>(
+        "POST",
+        `/api/v1/folders/${id}/update`,
+        updates,
+        { idempotent: true },
+      );
+    } finally {
+      this.invalidate(`/api/v1/folders/${id}`, "/api/v1/folders/");
+    }
   }
 
   async listFolders(): Promise<CoChatFolderResponse[]> {
-    return this.request<CoChatFolderResponse[]>("GET", "/api/v1/folders/");
+    return this.cached("/api/v1/folders/", () =>
+      this.request<CoChatFolderResponse[]>("GET", "/api/v1/folders/", undefined, {
+        schema: z.array(CoChatFolderResponseSchema),
+      }),
+    );
   }
 
   // -------------------------------------------------------------------------
@@ -337,10 +774,15 @@ export class CoChatClient {
     content: string,
     folderId?: string,
   ): Promise<CoChatMemoryResponse> {
-    return this.request<CoChatMemoryResponse>("POST", "/api/v1/memories/add", {
-      content,
-      ...(folderId ? { folder_id: folderId } : {}),
-    });
+    return this.request<CoChatMemoryResponse>(
+      "POST",
+      "/api/v1/memories/add",
+      {
+        content,
+        ...(folderId ? { folder_id: folderId } : {}),
+      },
+      { schema: CoChatMemoryResponseSchema },
+    );
   }
 
   async queryMemories(
@@ -356,6 +798,7 @@ export class CoChatClient {
         ...(k !== undefined ? { k } : {}),
         ...(folderId ? { folder_id: folderId } : {}),
       },
+      { idempotent: true, schema: z.array(CoChatMemoryResponseSchema) },
     );
   }
 
@@ -363,7 +806,9 @@ export class CoChatClient {
     const path = folderId
       ? `/api/v1/memories/?folder_id=${encodeURIComponent(folderId)}`
       : "/api/v1/memories/";
-    return this.request<CoChatMemoryResponse[]>("GET", path);
+    return this.request<CoChatMemoryResponse[]>("GET", path, undefined, {
+      schema: z.array(CoChatMemoryResponseSchema),
+    });
   }
 
   async deleteMemory(id: string): Promise<void> {
@@ -375,20 +820,29 @@ export class CoChatClient {
   // -------------------------------------------------------------------------
 
   async listAutomations(): Promise<CoChatAutomationResponse[]> {
-    return this.request<CoChatAutomationResponse[]>(
-      "GET",
-      "/api/v1/automations/",
+    return this.cached("/api/v1/automations/", () =>
+      this.request<CoChatAutomationResponse[]>(
+        "GET",
+        "/api/v1/automations/",
+        undefined,
+        { schema: z.array(CoChatAutomationResponseSchema) },
+      ),
     );
   }
 
   async createAutomation(
     form: CoChatAutomationForm,
   ): Promise<CoChatAutomationResponse> {
-    return this.request<CoChatAutomationResponse>(
-      "POST",
-      "/api/v1/automations/create",
-      form,
-    );
+    try {
+      return await this.request<CoChatAutomationResponse>(
+        "POST",
+        "/api/v1/automations/create",
+        form,
+        { schema: CoChatAutomationResponseSchema },
+      );
+    } finally {
+      this.invalidate("/api/v1/automations/");
+    }
   }
 
   async triggerAutomation(
@@ -396,11 +850,16 @@ export class CoChatClient {
     inputData?: Record<string, unknown>,
   ): Promise<{ success: boolean; message?: string; error?: string }> {
     const body = inputData ? { input: inputData } : undefined;
-    return this.request<{ success: boolean; message?: string; error?: string }>(
-      "POST",
-      `/api/v1/automations/${id}/run`,
-      body,
-    );
+    try {
+      return await this.request<{ success: boolean; message?: string; error?: string }>(
+        "POST",
+        `/api/v1/automations/${id}/run`,
+        body,
+      );
+    } finally {
+      // Runs update last_run_at / next_run_at
+      this.invalidate("/api/v1/automations/");
+    }
   }
 
   async getAutomationRuns(
@@ -434,9 +893,9 @@ export class CoChatClient {
     return "openrouter_manifold.anthropic/claude-sonnet-4";
   }
 
-  extractMessages(chat: CoChatChatResponse): CoChatMessage[] {
-    const chatData = chat.chat as Record<string, unknown>;
-    const history = chatData.history as
+  /** Messages sorted by time; none for listing rows that come without `chat`. */
+  extractMessages(chat: Pick<CoChatChatListItem, "chat">): CoChatMessage[] {
+    const history = chat.chat?.history as
       | { messages: Record<string, CoChatMessage> }
       | undefined;
 
@@ -451,6 +910,34 @@ export class CoChatClient {
       .sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
   }
 
+  /**
+   * Messages on the chat's active branch (the one CoChat displays), from the
+   * first message to `history.currentId`. Falls back to all messages when the
+   * chat has no usable currentId.
+   */
+  extractActiveBranch(chat: CoChatChatResponse): CoChatMessage[] {
+    const chatData = chat.chat as Record<string, unknown>;
+    const history = chatData.history as
+      | { messages: Record<string, CoChatMessage>; currentId?: string | null }
+      | undefined;
+
+    if (!history?.messages) return [];
+    if (!history.currentId || !history.messages[history.currentId]) {
+      return this.extractMessages(chat);
+    }
+
+    const branch: CoChatMessage[] = [];
+    const seen = new Set<string>();
+    let id: string | null = history.currentId;
+    while (id && history.messages[id] && !seen.has(id)) {
+      seen.add(id);
+      const m: CoChatMessage = history.messages[id];
+      branch.unshift({ ...m, content: m.content ?? "" });
+      id = m.parentId;
+    }
+    return branch;
+  }
+
   chatUrl(chatId: string): string {
     return `${this.baseUrl}/c/${chatId}`;
   }
@@ -0,0 +1,108 @@
+import { z } from "zod";
+
+/**
+ * Zod schemas for CoChat API responses.
+ *
+ * The client checks responses against these before handing them to tools, so
+ * a server that changed shape fails with the endpoint and field at fault
+ * instead of an `undefined` deep inside a tool. They are deliberately
+ * lenient: unknown keys pass through, fields the client or tools rely on are
+ * required, and the rest are only type-checked when present.
+ */
+
+const NullableRecord = z.record(z.unknown()).nullish();
+
+export const CoChatMessageSchema = z
+  .object({
+    id: z.string(),
+    parentId: z.string().nullish(),
+    childrenIds: z.array(z.string()).optional(),
+    role: z.string().optional(),
+    // extractMessages turns missing content into ""
+    content: z.string().nullish(),
+    timestamp: z.number().optional(),
+  })
+  .passthrough();
+
+export const CoChatChatResponseSchema = z
+  .object({
+    id: z.string(),
+    user_id: z.string().optional(),
+    title: z.string().optional(),
+    chat: z
+      .object({
+        history: z
+          .object({
+            messages: z.record(CoChatMessageSchema).optional(),
+            currentId: z.string().nullish(),
+          })
+          .passthrough()
+          .optional(),
+        messages: z.array(z.unknown()).optional(),
+      })
+      .passthrough(),
+    updated_at: z.number().optional(),
+    created_at: z.number().optional(),
+    archived: z.boolean().optional(),
+    meta: NullableRecord,
+    folder_id: z.string().nullish(),
+    access_control: NullableRecord,
+    link_access_level: z.string().nullish(),
+  })
+  .passthrough();
+
+/**
+ * A row of a chat listing. The list endpoints return only the chat's id,
+ * title and timestamps (some versions include more), never reliably `chat`.
+ */
+export const CoChatChatListItemSchema = CoChatChatResponseSchema.extend({
+  chat: CoChatChatResponseSchema.shape.chat.optional(),
+});
+
+export const CoChatFolderResponseSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    parent_id: z.string().nullish(),
+    meta: NullableRecord,
+    data: NullableRecord,
+    is_collaborative: z.boolean().optional(),
+    created_at: z.number().optional(),
+    updated_at: z.number().optional(),
+  })
+  .passthrough();
+
+export const CoChatMemoryResponseSchema = z
+  .object({
+    id: z.string(),
+    content: z.string(),
+    folder_id: z.string().nullish(),
+    created_at: z.number().optional(),
+    updated_at: z.number().optional(),
+  })
+  .passthrough();
+
+export const CoChatAutomationResponseSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().nullish(),
+    folder_id: z.string().nullish(),
+    trigger_type: z.string().optional(),
+    trigger_config: NullableRecord,
+    is_enabled: z.boolean().optional(),
+    max_runs: z.number().nullish(),
+    last_run_at: z.number().nullish(),
+    next_run_at: z.number().nullish(),
+  })
+  .passthrough();
+
+/**
+ * Dotted path of a zod issue, with array indexes in brackets:
+ * `[2].chat.history.messages.m1.id`.
+ */
+export function issuePath(path: (string | number)[]): string {
+  return path
+    .map((part, idx) => (typeof part === "number" ? `[${part}]` : idx === 0 ? part : `.${part}`))
+    .join("") || "(root)";
+}
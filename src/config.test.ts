@@ -21,6 +21,7 @@ vi.mock("node:fs", () => ({
 import {
   resolveConfig,
   resolveAutoShareMode,
+  resolveRequestPolicy,
   persistConfig,
   loadStore,
   saveStore,
@@ -29,6 +30,12 @@ import {
   getMostRecentPlan,
   setProjectMapping,
   getProjectMapping,
+  addPlanRevision,
+  getPlanRevisions,
+  untrackPlan,
+  savePendingShare,
+  findPendingShare,
+  clearPendingShare,
   type CoChatStore,
   type TrackedPlan,
 } from "./config.js";
@@ -39,7 +46,14 @@ import {
 
 const savedEnv: Record<string, string | undefined> = {};
 
-const ENV_KEYS = ["COCHAT_URL", "COCHAT_API_KEY", "COCHAT_AUTO_SHARE"] as const;
+const ENV_KEYS = [
+  "COCHAT_URL",
+  "COCHAT_API_KEY",
+  "COCHAT_AUTO_SHARE",
+  "COCHAT_TIMEOUT_MS",
+  "COCHAT_MAX_RETRIES",
+  "COCHAT_CACHE_TTL_MS",
+] as const;
 
 beforeEach(() => {
   fakeFs.clear();
@@ -117,6 +131,10 @@ describe("loadStore / saveStore", () => {
         },
       },
       askAutomations: {},
+      revisions: {},
+      docs: {},
+      templates: {},
+      pendingShares: {},
       plans: {
         "chat-abc": {
           chatId: "chat-abc",
@@ -194,11 +212,99 @@ describe("plan tracking", () => {
     expect(most!.chatId).toBe("chat-new");
   });
 
+  it("getMostRecentPlan skips closed plans", () => {
+    trackPlan({
+      chatId: "chat-open",
+      planMessageId: "msg-open",
+      title: "Open Plan",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      url: "https://cochat.example.com/c/chat-open",
+    });
+    trackPlan({
+      chatId: "chat-closed",
+      planMessageId: "msg-closed",
+      title: "Closed Plan",
+      createdAt: "2026-01-02T00:00:00.000Z",
+      updatedAt: "2026-01-03T00:00:00.000Z",
+      url: "https://cochat.example.com/c/chat-closed",
+      closedAt: "2026-01-03T00:00:00.000Z",
+    });
+
+    expect(getMostRecentPlan()!.chatId).toBe("chat-open");
+  });
+
   it("getMostRecentPlan returns undefined when no plans tracked", () => {
     expect(getMostRecentPlan()).toBeUndefined();
   });
 });
 
+// ---------------------------------------------------------------------------
+// addPlanRevision / getPlanRevisions
+// ---------------------------------------------------------------------------
+
+describe("plan revisions", () => {
+  it("numbers revisions sequentially per plan", () => {
+    addPlanRevision("chat-1", { createdAt: "2026-01-01T00:00:00.000Z", source: "share", markdown: "v1" });
+    addPlanRevision("chat-2", { createdAt: "2026-01-01T00:00:00.000Z", source: "share", markdown: "other" });
+    const second = addPlanRevision("chat-1", {
+      createdAt: "2026-01-02T00:00:00.000Z",
+      source: "update",
+      markdown: "v2",
+    });
+
+    expect(second.revision).toBe(2);
+    expect(getPlanRevisions("chat-1").map((r) => r.markdown)).toEqual(["v1", "v2"]);
+    expect(getPlanRevisions("chat-2")).toHaveLength(1);
+  });
+
+  it("returns an empty history for unknown plans", () => {
+    expect(getPlanRevisions("nonexistent")).toEqual([]);
+  });
+
+  it("keeps only the most recent 50 revisions", () => {
+    for (let i = 0; i < 55; i++) {
+      addPlanRevision("chat-1", { createdAt: "2026-01-01T00:00:00.000Z", source: "update", markdown: `v${i}` });
+    }
+    const history = getPlanRevisions("chat-1");
+    expect(history).toHaveLength(50);
+    expect(history[0].revision).toBe(6);
+    expect(history[49].revision).toBe(55);
+  });
+
+  it("untrackPlan drops the revision history", () => {
+    addPlanRevision("chat-1", { createdAt: "2026-01-01T00:00:00.000Z", source: "share", markdown: "v1" });
+    untrackPlan("chat-1");
+    expect(getPlanRevisions("chat-1")).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Pending shares
+// ---------------------------------------------------------------------------
+
+describe("pending shares", () => {
+  const pending = {
+    chatId: "chat-1",
+    planMessageId: "msg-1",
+    title: "Rollout",
+    folderId: "folder-1",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    completed: ["create" as const],
+  };
+
+  it("finds a pending share by title and project until it is cleared", () => {
+    savePendingShare(pending);
+    savePendingShare({ ...pending, chatId: "chat-2", createdAt: "2026-01-02T00:00:00.000Z" });
+
+    expect(findPendingShare("Rollout", "folder-1")?.chatId).toBe("chat-2");
+    expect(findPendingShare("Rollout", "folder-2")).toBeUndefined();
+
+    clearPendingShare("chat-2");
+    expect(findPendingShare("Rollout", "folder-1")?.chatId).toBe("chat-1");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // setProjectMapping / getProjectMapping
 // ---------------------------------------------------------------------------
@@ -271,3 +377,26 @@ describe("resolveAutoShareMode", () => {
     expect(resolveAutoShareMode()).toBe("off");
   });
 });
+
+// ---------------------------------------------------------------------------
+// resolveRequestPolicy
+// ---------------------------------------------------------------------------
+
+describe("resolveRequestPolicy", () => {
+  it("returns no overrides when env vars are not set", () => {
+    expect(resolveRequestPolicy()).toEqual({});
+  });
+
+  it("reads timeout, retries and cache TTL, allowing zero retries and no caching", () => {
+    process.env.COCHAT_TIMEOUT_MS = "5000";
+    process.env.COCHAT_MAX_RETRIES = "0";
+    process.env.COCHAT_CACHE_TTL_MS = "0";
+    expect(resolveRequestPolicy()).toEqual({ timeoutMs: 5000, maxRetries: 0, cacheTtlMs: 0 });
+  });
+
+  it("ignores invalid values", () => {
+    process.env.COCHAT_TIMEOUT_MS = "0";
+    process.env.COCHAT_MAX_RETRIES = "lots";
+    expect(resolveRequestPolicy()).toEqual({});
+  });
+});
@@ -1,6 +1,9 @@
 import { readFileSync, writeFileSync, mkdirSync, existsSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
+import type { RequestPolicy } from "./cochat-client.js";
+import type { DocKind } from "./doc-format.js";
+import type { PlanTemplate } from "./plan-templates.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -18,6 +21,41 @@ export interface ProjectMapping {
   createdAt: string;
 }
 
+/** Last-seen state of a single plan item, used to diff successive pulls. */
+export interface PlanItemSnapshot {
+  id: string;
+  content: string;
+  status: string;
+  priority: string;
+  dependsOn?: string[];
+  assignee?: string;
+  estimate?: string;
+  due?: string;
+}
+
+/** Where the previous plans_pull left off for a plan. */
+export interface PlanPullCursor {
+  pulledAt: string;
+  lastMessageId?: string;
+  /** Unix seconds, matching CoChat message timestamps */
+  lastMessageTimestamp?: number;
+  items: PlanItemSnapshot[];
+}
+
+/**
+ * The plan message as the agent last saw or wrote it. plans_update compares
+ * the remote content against it to detect edits made in CoChat meanwhile.
+ */
+export interface PlanBase {
+  /** sha256 of the plan message content */
+  hash: string;
+  seenAt: string;
+  /** Message updated_at (unix seconds), when CoChat reports one */
+  messageUpdatedAt?: number;
+  description?: string;
+  items: PlanItemSnapshot[];
+}
+
 export interface TrackedPlan {
   chatId: string;
   planMessageId: string;
@@ -26,6 +64,60 @@ export interface TrackedPlan {
   updatedAt: string;
   url: string;
   folderId?: string;
+  lastPull?: PlanPullCursor;
+  base?: PlanBase;
+  /** Set by plans_close; closed plans drop out of the active list */
+  closedAt?: string;
+  /** Whether the chat was archived in CoChat when the plan was closed */
+  archived?: boolean;
+}
+
+export type PlanRevisionSource = "share" | "update" | "revert" | "remote";
+
+/** A snapshot of the plan message content at a point in time. */
+export interface PlanRevision {
+  revision: number;
+  createdAt: string;
+  /** What produced this revision; "remote" is an edit made in CoChat */
+  source: PlanRevisionSource;
+  model?: string;
+  markdown: string;
+  note?: string;
+}
+
+/**
+ * The API calls plans_share makes, in order. "refresh" only runs when
+ * resuming: it rewrites the plan message of the pending chat.
+ */
+export type ShareStep = "refresh" | "create" | "move" | "collaborate" | "link_access" | "invite";
+
+/**
+ * A plans_share that stopped part-way. The chat exists in CoChat but is not
+ * tracked yet; the next plans_share with the same title and project resumes
+ * it from the first step that has not completed.
+ */
+export interface PendingShare {
+  chatId: string;
+  planMessageId: string;
+  title: string;
+  folderId?: string;
+  createdAt: string;
+  /** Steps that already succeeded, in the order they ran */
+  completed: ShareStep[];
+  failedStep?: ShareStep;
+  error?: string;
+}
+
+/** A non-plan document (ADR, diff, review, report) shared with docs_share. */
+export interface TrackedDoc {
+  chatId: string;
+  messageId: string;
+  kind: DocKind;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  url: string;
+  folderId?: string;
 }
 
 export interface CoChatStore {
@@ -33,6 +125,13 @@ export interface CoChatStore {
   plans: Record<string, TrackedPlan>;
   /** Maps project folderId to the "MCP Ask" automation ID for that project */
   askAutomations: Record<string, string>;
+  /** Maps plan chatId to its revision history, oldest first */
+  revisions: Record<string, PlanRevision[]>;
+  docs: Record<string, TrackedDoc>;
+  /** Plan templates saved on this machine, keyed by name */
+  templates: Record<string, PlanTemplate>;
+  /** Interrupted plans_share calls, keyed by chatId */
+  pendingShares: Record<string, PendingShare>;
 }
 
 // ---------------------------------------------------------------------------
@@ -54,6 +153,32 @@ export function resolveAutoShareMode(): AutoShareMode {
   return "off";
 }
 
+// ---------------------------------------------------------------------------
+// Request policy
+// ---------------------------------------------------------------------------
+
+function envInteger(name: string): number | undefined {
+  const raw = process.env[name]?.trim();
+  if (!raw || !/^\d+$/.test(raw)) return undefined;
+  return Number(raw);
+}
+
+/**
+ * Resolve API timeout, retry and cache overrides from `COCHAT_TIMEOUT_MS`,
+ * `COCHAT_MAX_RETRIES` and `COCHAT_CACHE_TTL_MS`. Unset or invalid values
+ * keep the client defaults.
+ */
+export function resolveRequestPolicy(): Partial<RequestPolicy> {
+  const timeoutMs = envInteger("COCHAT_TIMEOUT_MS");
+  const maxRetries = envInteger("COCHAT_MAX_RETRIES");
+  const cacheTtlMs = envInteger("COCHAT_CACHE_TTL_MS");
+  return {
+    ...(timeoutMs ? { timeoutMs } : {}),
+    ...(maxRetries !== undefined ? { maxRetries } : {}),
+    ...(cacheTtlMs !== undefined ? { cacheTtlMs } : {}),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Paths
 // ---------------------------------------------------------------------------
@@ -129,12 +254,24 @@ export function loadStore(): CoChatStore {
         projects: data.projects ?? {},
         plans: data.plans ?? {},
         askAutomations: data.askAutomations ?? {},
+        revisions: data.revisions ?? {},
+        docs: data.docs ?? {},
+        templates: data.templates ?? {},
+        pendingShares: data.pendingShares ?? {},
       };
     }
   } catch {
     // ignore
   }
-  return { projects: {}, plans: {}, askAutomations: {} };
+  return {
+    projects: {},
+    plans: {},
+    askAutomations: {},
+    revisions: {},
+    docs: {},
+    templates: {},
+    pendingShares: {},
+  };
 }
 
 export function saveStore(store: CoChatStore): void {
@@ -169,6 +306,7 @@ export function trackPlan(plan: TrackedPlan): void {
 export function untrackPlan(chatId: string): void {
   const store = loadStore();
   delete store.plans[chatId];
+  delete store.revisions[chatId];
   saveStore(store);
 }
 
@@ -176,6 +314,59 @@ export function getTrackedPlan(chatId: string): TrackedPlan | undefined {
   return loadStore().plans[chatId];
 }
 
+export function savePendingShare(share: PendingShare): void {
+  const store = loadStore();
+  store.pendingShares[share.chatId] = share;
+  saveStore(store);
+}
+
+export function clearPendingShare(chatId: string): void {
+  const store = loadStore();
+  delete store.pendingShares[chatId];
+  saveStore(store);
+}
+
+/** The most recent interrupted share of a plan with this title in this project. */
+export function findPendingShare(title: string, folderId?: string): PendingShare | undefined {
+  return Object.values(loadStore().pendingShares)
+    .filter((s) => s.title === title && s.folderId === folderId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+}
+
+// ---------------------------------------------------------------------------
+// Doc helpers
+// ---------------------------------------------------------------------------
+
+export function trackDoc(doc: TrackedDoc): void {
+  const store = loadStore();
+  store.docs[doc.chatId] = doc;
+  saveStore(store);
+}
+
+export function getTrackedDoc(chatId: string): TrackedDoc | undefined {
+  return loadStore().docs[chatId];
+}
+
+export function getMostRecentDoc(): TrackedDoc | undefined {
+  return Object.values(loadStore().docs).sort(
+    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  )[0];
+}
+
+// ---------------------------------------------------------------------------
+// Template helpers
+// ---------------------------------------------------------------------------
+
+export function getLocalTemplates(): PlanTemplate[] {
+  return Object.values(loadStore().templates);
+}
+
+export function saveLocalTemplate(template: PlanTemplate): void {
+  const store = loadStore();
+  store.templates[template.name] = template;
+  saveStore(store);
+}
+
 // ---------------------------------------------------------------------------
 // Ask automation helpers
 // ---------------------------------------------------------------------------
@@ -194,11 +385,40 @@ export function setAskAutomationId(folderId: string, automationId: string): void
 // Plan helpers (continued)
 // ---------------------------------------------------------------------------
 
+/** Most recently updated plan that has not been closed. */
 export function getMostRecentPlan(): TrackedPlan | undefined {
   const store = loadStore();
-  const entries = Object.values(store.plans);
+  const entries = Object.values(store.plans).filter((p) => !p.closedAt);
   if (entries.length === 0) return undefined;
   return entries.sort(
     (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
   )[0];
 }
+
+// ---------------------------------------------------------------------------
+// Plan revision helpers
+// ---------------------------------------------------------------------------
+
+/** Oldest revisions beyond this count are dropped. */
+const MAX_PLAN_REVISIONS = 50;
+
+export function getPlanRevisions(chatId: string): PlanRevision[] {
+  return loadStore().revisions[chatId] ?? [];
+}
+
+/**
+ * Append a revision to a plan's history, assigning the next revision number.
+ */
+export function addPlanRevision(
+  chatId: string,
+  revision: Omit<PlanRevision, "revision">,
+): PlanRevision {
+  const store = loadStore();
+  const history = store.revisions[chatId] ?? [];
+  const last = history[history.length - 1];
+  const entry: PlanRevision = { revision: (last?.revision ?? 0) + 1, ...revision };
+  history.push(entry);
+  store.revisions[chatId] = history.slice(-MAX_PLAN_REVISIONS);
+  saveStore(store);
+  return entry;
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectDocKind,
+  diffStats,
+  docToMarkdown,
+  isDocMessage,
+  stripDocMarker,
+  type DocMetadata,
+} from "./doc-format.js";
+
+const metadata: DocMetadata = {
+  source: "coding-agent",
+  model: "test-model",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+const sampleDiff = [
+  "diff --git a/src/a.ts b/src/a.ts",
+  "--- a/src/a.ts",
+  "+++ b/src/a.ts",
+  "@@ -1,2 +1,3 @@",
+  "-old",
+  "+new",
+  "+added",
+  "diff --git a/README.md b/README.md",
+  "--- a/README.md",
+  "+++ b/README.md",
+  "@@ -1 +1 @@",
+  "-x",
+  "+y",
+].join("\n");
+
+describe("docToMarkdown", () => {
+  it("renders an ADR with its marker and sections", () => {
+    const md = docToMarkdown({
+      kind: "adr",
+      title: "Use Postgres",
+      status: "accepted",
+      context: "We need transactions",
+      decision: "Adopt Postgres",
+      consequences: "Ops must run it",
+      metadata,
+    });
+
+    expect(detectDocKind(md)).toBe("adr");
+    expect(md).toContain("# ADR: Use Postgres");
+    expect(md).toContain("> Shared from coding-agent | Model: test-model");
+    expect(md).toContain("**Status:** accepted");
+    expect(md).toContain("## Decision\n\nAdopt Postgres");
+    expect(md).not.toContain("## Alternatives Considered");
+  });
+
+  it("renders a diff with per-file stats inside a diff fence", () => {
+    const md = docToMarkdown({ kind: "diff", title: "Rename", summary: "Renames things", diff: sampleDiff, metadata });
+
+    expect(detectDocKind(md)).toBe("diff");
+    expect(md).toContain("## Files Changed (2)");
+    expect(md).toContain("- `src/a.ts` (+2 -1)");
+    expect(md).toContain("```diff\ndiff --git a/src/a.ts");
+  });
+
+  it("uses a longer fence when the content contains backticks", () => {
+    const md = docToMarkdown({
+      kind: "report",
+      title: "CI",
+      summary: "Two failures",
+      failures: [{ name: "renders code", message: "expected ```ts block" }],
+      metadata,
+    });
+
+    expect(md).toContain("````\nexpected ```ts block\n````");
+  });
+
+  it("groups review findings by severity", () => {
+    const md = docToMarkdown({
+      kind: "review",
+      title: "PR #12",
+      summary: "Mostly fine",
+      verdict: "request_changes",
+      findings: [
+        { severity: "nit", comment: "Typo" },
+        { severity: "blocker", file: "src/db.ts", line: 42, comment: "SQL injection" },
+      ],
+      metadata,
+    });
+
+    expect(md).toContain("**Verdict:** Request changes");
+    expect(md.indexOf("### Blocker (1)")).toBeLessThan(md.indexOf("### Nit (1)"));
+    expect(md).toContain("- `src/db.ts:42` SQL injection");
+  });
+});
+
+describe("diffStats", () => {
+  it("handles plain unified diffs without git headers", () => {
+    expect(diffStats("--- a/x.txt\n+++ b/x.txt\n@@ -1 +1 @@\n-a\n+b\n")).toEqual([
+      { path: "x.txt", added: 1, removed: 1 },
+    ]);
+  });
+});
+
+describe("doc markers", () => {
+  it("recognises documents and strips the marker", () => {
+    const md = docToMarkdown({ kind: "report", title: "T", summary: "S", failures: [], metadata });
+
+    expect(isDocMessage(md)).toBe(true);
+    expect(isDocMessage("plain reply")).toBe(false);
+    expect(stripDocMarker(md).startsWith("# Report: T")).toBe(true);
+  });
+});
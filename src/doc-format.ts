@@ -0,0 +1,278 @@
+// ---------------------------------------------------------------------------
+// Shared document types
+//
+// Besides plans, agents can share other artifacts into the project folder as
+// collaborative chats. Each kind has its own renderer and marker so shared
+// documents can be recognised, listed and pulled back like plans.
+// ---------------------------------------------------------------------------
+
+export type DocKind = "adr" | "diff" | "review" | "report";
+
+export const DOC_KINDS: DocKind[] = ["adr", "diff", "review", "report"];
+
+export type AdrStatus = "proposed" | "accepted" | "deprecated" | "superseded";
+export type FindingSeverity = "blocker" | "major" | "minor" | "nit";
+export type DocReviewVerdict = "approve" | "comment" | "request_changes";
+
+export interface DocMetadata {
+  source: string;
+  model?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface DocBase {
+  title: string;
+  metadata: DocMetadata;
+}
+
+/** Architecture decision record */
+export interface AdrDoc extends DocBase {
+  kind: "adr";
+  status: AdrStatus;
+  context: string;
+  decision: string;
+  consequences: string;
+  alternatives?: string;
+}
+
+/** A diff of the working tree with an explanation */
+export interface DiffDoc extends DocBase {
+  kind: "diff";
+  summary: string;
+  diff: string;
+}
+
+export interface ReviewFinding {
+  severity: FindingSeverity;
+  file?: string;
+  line?: number;
+  comment: string;
+}
+
+/** Code review / PR summary */
+export interface ReviewDoc extends DocBase {
+  kind: "review";
+  summary: string;
+  verdict?: DocReviewVerdict;
+  findings: ReviewFinding[];
+}
+
+export interface ReportFailure {
+  name: string;
+  message: string;
+}
+
+/** Test failure or investigation report */
+export interface ReportDoc extends DocBase {
+  kind: "report";
+  summary: string;
+  body?: string;
+  failures: ReportFailure[];
+}
+
+export type SharedDoc = AdrDoc | DiffDoc | ReviewDoc | ReportDoc;
+
+// ---------------------------------------------------------------------------
+// Markers
+// ---------------------------------------------------------------------------
+
+const DOC_MARKER_RE = /<!-- cochat-doc:(adr|diff|review|report) -->/;
+
+export function docMarker(kind: DocKind): string {
+  return `<!-- cochat-doc:${kind} -->`;
+}
+
+const KIND_LABELS: Record<DocKind, string> = {
+  adr: "ADR",
+  diff: "Diff",
+  review: "Review",
+  report: "Report",
+};
+
+export function docKindLabel(kind: DocKind): string {
+  return KIND_LABELS[kind];
+}
+
+/**
+ * Return the kind of a shared document message, or null for anything else.
+ */
+export function detectDocKind(content: string | null | undefined): DocKind | null {
+  if (!content) return null;
+  const match = content.match(DOC_MARKER_RE);
+  return match ? (match[1] as DocKind) : null;
+}
+
+/**
+ * Check if a chat message contains a document shared by this MCP server.
+ */
+export function isDocMessage(content: string | null | undefined): boolean {
+  return detectDocKind(content) !== null;
+}
+
+// ---------------------------------------------------------------------------
+// Renderers
+// ---------------------------------------------------------------------------
+
+/** A code fence longer than any backtick run in the content. */
+function fence(content: string): string {
+  const longest = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+function codeBlock(content: string, lang = ""): string[] {
+  const f = fence(content);
+  return [`${f}${lang}`, content.replace(/\n+$/, ""), f];
+}
+
+interface DiffFileStat {
+  path: string;
+  added: number;
+  removed: number;
+}
+
+/**
+ * Per-file added/removed line counts for a unified (git) diff.
+ */
+export function diffStats(diff: string): DiffFileStat[] {
+  const files: DiffFileStat[] = [];
+  let current: DiffFileStat | undefined;
+
+  for (const line of diff.split("\n")) {
+    const header = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+    if (header) {
+      current = { path: header[2], added: 0, removed: 0 };
+      files.push(current);
+      continue;
+    }
+    if (!current) {
+      // Plain unified diff without git headers
+      const plain = line.match(/^\+\+\+ (?:b\/)?(.+)$/);
+      if (plain && plain[1] !== "/dev/null") {
+        current = { path: plain[1], added: 0, removed: 0 };
+        files.push(current);
+      }
+      continue;
+    }
+    if (line.startsWith("+++") || line.startsWith("---")) continue;
+    if (line.startsWith("+")) current.added++;
+    else if (line.startsWith("-")) current.removed++;
+  }
+
+  return files;
+}
+
+function renderAdr(doc: AdrDoc): string[] {
+  const lines = [`**Status:** ${doc.status}`, "", "## Context", "", doc.context, ""];
+  lines.push("## Decision", "", doc.decision, "");
+  lines.push("## Consequences", "", doc.consequences, "");
+  if (doc.alternatives) {
+    lines.push("## Alternatives Considered", "", doc.alternatives, "");
+  }
+  return lines;
+}
+
+function renderDiff(doc: DiffDoc): string[] {
+  const stats = diffStats(doc.diff);
+  const lines = ["## Summary", "", doc.summary, ""];
+  if (stats.length > 0) {
+    lines.push(`## Files Changed (${stats.length})`, "");
+    for (const file of stats) {
+      lines.push(`- \`${file.path}\` (+${file.added} -${file.removed})`);
+    }
+    lines.push("");
+  }
+  lines.push("## Diff", "", ...codeBlock(doc.diff, "diff"), "");
+  return lines;
+}
+
+const SEVERITY_ORDER: FindingSeverity[] = ["blocker", "major", "minor", "nit"];
+
+const VERDICT_LABELS: Record<DocReviewVerdict, string> = {
+  approve: "Approve",
+  comment: "Comment",
+  request_changes: "Request changes",
+};
+
+function renderReview(doc: ReviewDoc): string[] {
+  const lines: string[] = [];
+  if (doc.verdict) {
+    lines.push(`**Verdict:** ${VERDICT_LABELS[doc.verdict]}`, "");
+  }
+  lines.push("## Summary", "", doc.summary, "");
+
+  if (doc.findings.length > 0) {
+    lines.push(`## Findings (${doc.findings.length})`, "");
+    for (const severity of SEVERITY_ORDER) {
+      const group = doc.findings.filter((f) => f.severity === severity);
+      if (group.length === 0) continue;
+      lines.push(`### ${severity[0].toUpperCase()}${severity.slice(1)} (${group.length})`, "");
+      for (const finding of group) {
+        const location = finding.file
+          ? `\`${finding.file}${finding.line !== undefined ? `:${finding.line}` : ""}\` `
+          : "";
+        lines.push(`- ${location}${finding.comment}`);
+      }
+      lines.push("");
+    }
+  }
+  return lines;
+}
+
+function renderReport(doc: ReportDoc): string[] {
+  const lines = ["## Summary", "", doc.summary, ""];
+  if (doc.failures.length > 0) {
+    lines.push(`## Failures (${doc.failures.length})`, "");
+    for (const failure of doc.failures) {
+      lines.push(`### ${failure.name}`, "", ...codeBlock(failure.message), "");
+    }
+  }
+  if (doc.body) {
+    lines.push("## Details", "", doc.body, "");
+  }
+  return lines;
+}
+
+export function docToMarkdown(doc: SharedDoc): string {
+  const lines: string[] = [];
+
+  lines.push(docMarker(doc.kind));
+  lines.push(`# ${docKindLabel(doc.kind)}: ${doc.title}`);
+  lines.push("");
+  const metaParts = [`Shared from ${doc.metadata.source}`];
+  if (doc.metadata.model) {
+    metaParts.push(`Model: ${doc.metadata.model}`);
+  }
+  metaParts.push(`Updated: ${doc.metadata.updatedAt}`);
+  lines.push(`> ${metaParts.join(" | ")}`);
+  lines.push("");
+
+  switch (doc.kind) {
+    case "adr":
+      lines.push(...renderAdr(doc));
+      break;
+    case "diff":
+      lines.push(...renderDiff(doc));
+      break;
+    case "review":
+      lines.push(...renderReview(doc));
+      break;
+    case "report":
+      lines.push(...renderReport(doc));
+      break;
+  }
+
+  lines.push("---");
+  lines.push(
+    "*Reply below with feedback. The author can pull your comments back into their local session.*"
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Strip the hidden marker so a shared document reads as plain markdown.
+ */
+export function stripDocMarker(content: string): string {
+  return content.replace(DOC_MARKER_RE, "").replace(/^\n+/, "");
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import type { CoChatMessage } from "./cochat-client.js";
+import type { PlanItem } from "./plan-format.js";
+import { groupFeedbackByTask, numberItems, resolveTaskReferences } from "./feedback-threads.js";
+
+const items: PlanItem[] = [
+  {
+    id: "setup-db",
+    content: "Set up the database",
+    status: "pending",
+    priority: "high",
+    children: [
+      { id: "users", content: "Migrate the users table", status: "pending", priority: "medium" },
+    ],
+  },
+  { id: "api", content: "Add endpoint", status: "pending", priority: "low" },
+];
+
+function message(id: string, content: string): CoChatMessage {
+  return { id, parentId: null, childrenIds: [], role: "user", content, timestamp: 1 };
+}
+
+describe("numberItems", () => {
+  it("assigns outline numbers depth-first", () => {
+    expect(numberItems(items).map((n) => [n.number, n.item.id])).toEqual([
+      ["1", "setup-db"],
+      ["1.1", "users"],
+      ["2", "api"],
+    ]);
+  });
+});
+
+describe("resolveTaskReferences", () => {
+  const numbered = numberItems(items);
+  const ids = (content: string) => resolveTaskReferences(content, numbered).map((n) => n.item.id);
+
+  it("resolves outline numbers, including trailing punctuation", () => {
+    expect(ids("re #1.1: use a transaction. Also #2.")).toEqual(["users", "api"]);
+  });
+
+  it("resolves item IDs", () => {
+    expect(ids("#setup-db is done")).toEqual(["setup-db"]);
+  });
+
+  it("ignores unknown numbers, HTML entities and URL fragments", () => {
+    expect(ids("see #9, &#39; and https://example.com/page#2")).toEqual([]);
+  });
+
+  it("resolves quoted task text, with or without checklist markup", () => {
+    expect(ids("> Migrate the users table\nUse a transaction")).toEqual(["users"]);
+    expect(ids("> - [ ] **[LOW]** Add endpoint `#2`\nNeeds auth")).toEqual(["api"]);
+  });
+
+  it("resolves partial quotes only when they are long enough", () => {
+    expect(ids("> users table\nok")).toEqual(["users"]);
+    expect(ids("> table\nok")).toEqual([]);
+  });
+
+  it("does not duplicate a task referenced twice", () => {
+    expect(ids("#2 and again #2")).toEqual(["api"]);
+  });
+});
+
+describe("groupFeedbackByTask", () => {
+  it("threads messages in plan order and keeps general comments separate", () => {
+    const grouped = groupFeedbackByTask(items, [
+      message("m1", "#2 needs auth"),
+      message("m2", "General thoughts"),
+      message("m3", "#1 and #2 are related"),
+    ]);
+
+    expect(grouped.threads.map((t) => [t.task.number, t.messages.map((m) => m.id)])).toEqual([
+      ["1", ["m3"]],
+      ["2", ["m1", "m3"]],
+    ]);
+    expect(grouped.unattached.map((m) => m.id)).toEqual(["m2"]);
+  });
+});
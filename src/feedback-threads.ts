@@ -0,0 +1,137 @@
+import type { CoChatMessage } from "./cochat-client.js";
+import type { PlanItem } from "./plan-format.js";
+
+// ---------------------------------------------------------------------------
+// Task-level feedback threads
+//
+// Reviewers refer to tasks in three ways, all resolved here:
+//   - Outline numbers: "re #3: split this", "#2.1 needs tests"
+//   - Item IDs:        "#setup-db is done"
+//   - Quoted text:     "> Migrate the users table" followed by a comment
+// Messages that reference no task land in the "unattached" bucket.
+// ---------------------------------------------------------------------------
+
+export interface NumberedItem {
+  /** Outline number, e.g. "3" or "2.1" */
+  number: string;
+  item: PlanItem;
+}
+
+export interface FeedbackThread {
+  task: NumberedItem;
+  messages: CoChatMessage[];
+}
+
+export interface GroupedFeedback {
+  threads: FeedbackThread[];
+  unattached: CoChatMessage[];
+}
+
+/**
+ * Assign outline numbers to a plan item tree, depth-first ("1", "1.1", "2").
+ */
+export function numberItems(items: PlanItem[], prefix = ""): NumberedItem[] {
+  const result: NumberedItem[] = [];
+  items.forEach((item, idx) => {
+    const number = prefix ? `${prefix}.${idx + 1}` : String(idx + 1);
+    result.push({ number, item });
+    if (item.children) result.push(...numberItems(item.children, number));
+  });
+  return result;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/** Strip checklist markup a reviewer may have copied along with the task. */
+function stripTaskMarkup(line: string): string {
+  return line
+    .replace(/<!--.*?-->/g, "")
+    .replace(/^\s*-\s*\[[ xX]\]\s*/, "")
+    .replace(/\*\*\[(HIGH|MED|LOW)\]\*\*\s*/, "")
+    .replace(/\*\(in progress\)\*|~~cancelled~~/g, "");
+}
+
+const MIN_QUOTE_LENGTH = 10;
+
+const REF_RE = /(?:^|[^\w&/])#([A-Za-z0-9][\w.-]*)/g;
+
+/**
+ * Resolve the tasks a single message refers to. Returns matches in the order
+ * they are first referenced, without duplicates.
+ */
+export function resolveTaskReferences(
+  content: string,
+  numbered: NumberedItem[],
+): NumberedItem[] {
+  const found: NumberedItem[] = [];
+  const add = (entry: NumberedItem | undefined) => {
+    if (entry && !found.includes(entry)) found.push(entry);
+  };
+
+  // #N / #N.M outline numbers, or #<item-id>
+  for (const match of content.matchAll(REF_RE)) {
+    const token = match[1].replace(/[.-]+$/, "");
+    add(
+      numbered.find((n) => n.number === token) ??
+        numbered.find((n) => n.item.id === token),
+    );
+  }
+
+  // Quoted task text
+  for (const line of content.split("\n")) {
+    const quoteMatch = line.match(/^\s*>\s?(.*)$/);
+    if (!quoteMatch) continue;
+    const quote = normalize(stripTaskMarkup(quoteMatch[1]));
+    if (quote.length === 0) continue;
+
+    // Exact match first, then partial quotes (either direction) as long as
+    // the shorter side is long enough not to match by accident
+    add(
+      numbered.find((n) => normalize(n.item.content) === quote) ??
+        numbered.find((n) => {
+          const content = normalize(n.item.content);
+          return (
+            (quote.length >= MIN_QUOTE_LENGTH && content.includes(quote)) ||
+            (content.length >= MIN_QUOTE_LENGTH && quote.includes(content))
+          );
+        }),
+    );
+  }
+
+  return found;
+}
+
+/**
+ * Group feedback messages under the plan items they reference. A message
+ * that references several tasks appears in each of their threads. Threads
+ * are returned in plan order.
+ */
+export function groupFeedbackByTask(
+  items: PlanItem[],
+  messages: CoChatMessage[],
+): GroupedFeedback {
+  const numbered = numberItems(items);
+  const byItem = new Map<NumberedItem, CoChatMessage[]>();
+  const unattached: CoChatMessage[] = [];
+
+  for (const msg of messages) {
+    const refs = resolveTaskReferences(msg.content, numbered);
+    if (refs.length === 0) {
+      unattached.push(msg);
+      continue;
+    }
+    for (const ref of refs) {
+      const list = byItem.get(ref) ?? [];
+      list.push(msg);
+      byItem.set(ref, list);
+    }
+  }
+
+  const threads = numbered
+    .filter((n) => byItem.has(n))
+    .map((n) => ({ task: n, messages: byItem.get(n)! }));
+
+  return { threads, unattached };
+}
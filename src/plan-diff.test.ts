@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import type { CoChatMessage } from "./cochat-client.js";
+import type { PlanItemSnapshot } from "./config.js";
+import { diffPlanItems, formatPlanItemDiff, isEmptyDiff, messagesSince, snapshotItems } from "./plan-diff.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function snap(overrides: Partial<PlanItemSnapshot> = {}): PlanItemSnapshot {
+  return {
+    id: "item-1",
+    content: "First task",
+    status: "pending",
+    priority: "high",
+    ...overrides,
+  };
+}
+
+function msg(id: string, timestamp: number): CoChatMessage {
+  return {
+    id,
+    parentId: null,
+    childrenIds: [],
+    role: "user",
+    content: `message ${id}`,
+    timestamp,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// snapshotItems
+// ---------------------------------------------------------------------------
+
+describe("snapshotItems", () => {
+  it("flattens nested children depth-first", () => {
+    const result = snapshotItems([
+      {
+        id: "p",
+        content: "Parent",
+        status: "in_progress",
+        priority: "high",
+        children: [
+          { id: "c1", content: "Child 1", status: "completed", priority: "low" },
+        ],
+      },
+      { id: "q", content: "Other", status: "pending", priority: "medium" },
+    ]);
+
+    expect(result.map((s) => s.id)).toEqual(["p", "c1", "q"]);
+    expect(result[1]).toEqual({
+      id: "c1",
+      content: "Child 1",
+      status: "completed",
+      priority: "low",
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// diffPlanItems
+// ---------------------------------------------------------------------------
+
+describe("diffPlanItems", () => {
+  it("reports no changes for identical snapshots", () => {
+    const diff = diffPlanItems([snap()], [snap()]);
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+
+  it("detects status and priority changes by ID", () => {
+    const diff = diffPlanItems(
+      [snap()],
+      [snap({ status: "completed", priority: "low" })],
+    );
+
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].fields).toEqual(["status", "priority"]);
+    expect(diff.changed[0].before.status).toBe("pending");
+    expect(diff.changed[0].after.status).toBe("completed");
+  });
+
+  it("detects content changes when the ID is stable", () => {
+    const diff = diffPlanItems([snap()], [snap({ content: "Renamed task" })]);
+    expect(diff.changed[0].fields).toEqual(["content"]);
+    expect(diff.added).toHaveLength(0);
+    expect(diff.removed).toHaveLength(0);
+  });
+
+  it("falls back to content matching when IDs differ", () => {
+    const diff = diffPlanItems(
+      [snap({ id: "old-id" })],
+      [snap({ id: "new-id", status: "in_progress" })],
+    );
+
+    expect(diff.added).toHaveLength(0);
+    expect(diff.removed).toHaveLength(0);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].fields).toEqual(["status"]);
+  });
+
+  it("detects changed task details, comparing lists by content", () => {
+    const diff = diffPlanItems(
+      [snap({ dependsOn: ["a"], due: "2026-11-01" })],
+      [snap({ dependsOn: ["a"], assignee: "alice@example.com" })],
+    );
+
+    expect(diff.changed[0].fields).toEqual(["assignee", "due"]);
+    expect(formatPlanItemDiff(diff)).toContain(
+      "- First task (assignee: none -> alice@example.com; due: 2026-11-01 -> none)",
+    );
+  });
+
+  it("reports added and removed items", () => {
+    const diff = diffPlanItems(
+      [snap({ id: "a", content: "Gone" })],
+      [snap({ id: "b", content: "New" })],
+    );
+
+    expect(diff.added.map((i) => i.content)).toEqual(["New"]);
+    expect(diff.removed.map((i) => i.content)).toEqual(["Gone"]);
+    expect(diff.changed).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// messagesSince
+// ---------------------------------------------------------------------------
+
+describe("messagesSince", () => {
+  const messages = [msg("m1", 100), msg("m2", 200), msg("m3", 300)];
+
+  it("returns messages after the last seen message ID", () => {
+    const result = messagesSince(messages, {
+      pulledAt: "2026-01-01T00:00:00.000Z",
+      lastMessageId: "m2",
+      lastMessageTimestamp: 200,
+      items: [],
+    });
+    expect(result.map((m) => m.id)).toEqual(["m3"]);
+  });
+
+  it("falls back to the timestamp when the last seen message is gone", () => {
+    const result = messagesSince(messages, {
+      pulledAt: "2026-01-01T00:00:00.000Z",
+      lastMessageId: "deleted",
+      lastMessageTimestamp: 150,
+      items: [],
+    });
+    expect(result.map((m) => m.id)).toEqual(["m2", "m3"]);
+  });
+
+  it("returns every message when nothing was seen yet", () => {
+    const result = messagesSince(messages, {
+      pulledAt: "2026-01-01T00:00:00.000Z",
+      items: [],
+    });
+    expect(result).toHaveLength(3);
+  });
+});
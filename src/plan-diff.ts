@@ -0,0 +1,212 @@
+import { createHash } from "node:crypto";
+import type { CoChatMessage } from "./cochat-client.js";
+import type { PlanBase, PlanItemSnapshot, PlanPullCursor } from "./config.js";
+import { markdownToPlan, statusIcon, type PlanItem } from "./plan-format.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PlanItemField =
+  | "content"
+  | "status"
+  | "priority"
+  | "dependsOn"
+  | "assignee"
+  | "estimate"
+  | "due";
+
+export interface PlanItemChange {
+  before: PlanItemSnapshot;
+  after: PlanItemSnapshot;
+  fields: PlanItemField[];
+}
+
+export interface PlanItemDiff {
+  added: PlanItemSnapshot[];
+  removed: PlanItemSnapshot[];
+  changed: PlanItemChange[];
+}
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+/** Optional task details, only present on snapshots when set. */
+export const DETAIL_FIELDS = ["dependsOn", "assignee", "estimate", "due"] as const;
+
+/**
+ * Flatten a plan item tree (depth-first) into snapshots for the pull cursor.
+ */
+export function snapshotItems(items: PlanItem[]): PlanItemSnapshot[] {
+  const result: PlanItemSnapshot[] = [];
+  const walk = (list: PlanItem[]): void => {
+    for (const item of list) {
+      const snapshot: PlanItemSnapshot = {
+        id: item.id,
+        content: item.content,
+        status: item.status,
+        priority: item.priority,
+      };
+      for (const field of DETAIL_FIELDS) {
+        if (item[field] !== undefined) Object.assign(snapshot, { [field]: item[field] });
+      }
+      result.push(snapshot);
+      if (item.children) walk(item.children);
+    }
+  };
+  walk(items);
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Base
+// ---------------------------------------------------------------------------
+
+export function hashPlanContent(markdown: string): string {
+  return createHash("sha256").update(markdown).digest("hex");
+}
+
+/**
+ * Record plan message content as the agent's base for conflict detection.
+ * Pass the CoChat message when there is one so its updated_at is kept too.
+ */
+export function planBase(markdown: string, seenAt: string, message?: CoChatMessage): PlanBase {
+  const plan = markdownToPlan(markdown);
+  const updatedAt = message?.updated_at;
+  return {
+    hash: hashPlanContent(markdown),
+    seenAt,
+    ...(typeof updatedAt === "number" ? { messageUpdatedAt: updatedAt } : {}),
+    description: plan?.description,
+    items: plan ? snapshotItems(plan.items) : [],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+const FIELDS: PlanItemField[] = ["content", "status", "priority", ...DETAIL_FIELDS];
+
+/** A field's value as display text; unset details are "" (lists joined). */
+export function fieldText(item: PlanItemSnapshot, field: PlanItemField): string {
+  const value = item[field];
+  return Array.isArray(value) ? value.join(", ") : value ?? "";
+}
+
+/**
+ * Compare two item snapshots. Items are matched by ID first; anything left
+ * over is matched by identical content so plans whose IDs are regenerated
+ * on every parse still report status/priority changes instead of a full
+ * remove + add.
+ */
+export function diffPlanItems(
+  previous: PlanItemSnapshot[],
+  current: PlanItemSnapshot[],
+): PlanItemDiff {
+  const pairs: Array<[PlanItemSnapshot, PlanItemSnapshot]> = [];
+  const unmatchedPrev = new Map(previous.map((p) => [p.id, p]));
+  const unmatchedCurr: PlanItemSnapshot[] = [];
+
+  for (const item of current) {
+    const prev = unmatchedPrev.get(item.id);
+    if (prev) {
+      pairs.push([prev, item]);
+      unmatchedPrev.delete(item.id);
+    } else {
+      unmatchedCurr.push(item);
+    }
+  }
+
+  const added: PlanItemSnapshot[] = [];
+  for (const item of unmatchedCurr) {
+    const prev = [...unmatchedPrev.values()].find((p) => p.content === item.content);
+    if (prev) {
+      pairs.push([prev, item]);
+      unmatchedPrev.delete(prev.id);
+    } else {
+      added.push(item);
+    }
+  }
+
+  const changed: PlanItemChange[] = [];
+  for (const [before, after] of pairs) {
+    const fields = FIELDS.filter((f) => fieldText(before, f) !== fieldText(after, f));
+    if (fields.length > 0) changed.push({ before, after, fields });
+  }
+
+  return { added, removed: [...unmatchedPrev.values()], changed };
+}
+
+export function isEmptyDiff(diff: PlanItemDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+/**
+ * Render a diff as markdown sections (changed / added / removed). Returns an
+ * empty array when there is nothing to report.
+ */
+export function formatPlanItemDiff(diff: PlanItemDiff): string[] {
+  const parts: string[] = [];
+
+  if (diff.changed.length > 0) {
+    parts.push(`#### Changed Tasks (${diff.changed.length})`);
+    parts.push("");
+    for (const change of diff.changed) {
+      const details = change.fields.map((f) =>
+        f === "content"
+          ? `content: "${change.before.content}" -> "${change.after.content}"`
+          : `${f}: ${fieldText(change.before, f) || "none"} -> ${fieldText(change.after, f) || "none"}`,
+      );
+      parts.push(`- ${change.after.content} (${details.join("; ")})`);
+    }
+    parts.push("");
+  }
+
+  if (diff.added.length > 0) {
+    parts.push(`#### Added Tasks (${diff.added.length})`);
+    parts.push("");
+    for (const item of diff.added) {
+      parts.push(`- ${statusIcon(item.status)} (${item.priority}) ${item.content} (id: ${item.id})`);
+    }
+    parts.push("");
+  }
+
+  if (diff.removed.length > 0) {
+    parts.push(`#### Removed Tasks (${diff.removed.length})`);
+    parts.push("");
+    for (const item of diff.removed) {
+      parts.push(`- ${statusIcon(item.status)} (${item.priority}) ${item.content}`);
+    }
+    parts.push("");
+  }
+
+  return parts;
+}
+
+// ---------------------------------------------------------------------------
+// Messages
+// ---------------------------------------------------------------------------
+
+/**
+ * Return the feedback messages that arrived after the cursor. Messages are
+ * expected sorted by timestamp (as returned by `extractMessages`). When the
+ * last-seen message is still present we slice after it; otherwise (e.g. it
+ * was deleted) we fall back to the timestamp.
+ */
+export function messagesSince(
+  messages: CoChatMessage[],
+  cursor: PlanPullCursor,
+): CoChatMessage[] {
+  if (!cursor.lastMessageId) {
+    if (cursor.lastMessageTimestamp === undefined) return messages;
+    return messages.filter((m) => (m.timestamp ?? 0) > cursor.lastMessageTimestamp!);
+  }
+
+  const idx = messages.findIndex((m) => m.id === cursor.lastMessageId);
+  if (idx >= 0) return messages.slice(idx + 1);
+
+  const since = cursor.lastMessageTimestamp ?? 0;
+  return messages.filter((m) => (m.timestamp ?? 0) > since);
+}
@@ -0,0 +1,139 @@
+import type { CoChatMessage } from "./cochat-client.js";
+import { groupFeedbackByTask } from "./feedback-threads.js";
+import { planItemsToMarkdown, type Plan, type PlanItem } from "./plan-format.js";
+import { formatReviewStatus, type PlanReviewState } from "./plan-review.js";
+
+// ---------------------------------------------------------------------------
+// Repository export
+//
+// Plans exported into the repo should produce small, reviewable diffs: the
+// output depends only on the plan and its feedback (no export timestamp),
+// tasks keep their IDs, and feedback is listed in a fixed order. The task
+// list uses the same checklist syntax as shared plans, so an exported file
+// can be shared again with plans_import (the lenient parser skips the
+// metadata list under the title and the Feedback section).
+// ---------------------------------------------------------------------------
+
+export interface PlanExportSource {
+  chatId: string;
+  url: string;
+  plan: Plan;
+  review: PlanReviewState;
+  feedback: CoChatMessage[];
+}
+
+export interface PlanExportJson {
+  title: string;
+  chatId: string;
+  url: string;
+  status: string;
+  approvals: number;
+  requiredApprovals: number;
+  updatedAt: string;
+  description: string | null;
+  items: PlanItem[];
+  feedback: {
+    id: string;
+    author: string;
+    timestamp: string;
+    tasks: string[];
+    content: string;
+  }[];
+}
+
+/**
+ * File-name slug for a plan title, e.g. "Search Revamp (v2)" -> "search-revamp-v2".
+ */
+export function slugify(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+    .replace(/-+$/, "");
+  return slug || "plan";
+}
+
+function authorName(msg: CoChatMessage): string {
+  return msg.author?.name ?? msg.role;
+}
+
+function isoTime(msg: CoChatMessage): string {
+  return new Date(msg.timestamp * 1000).toISOString();
+}
+
+function formatMessage(msg: CoChatMessage): string[] {
+  const quoted = msg.content
+    .trim()
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"));
+  return [`**${authorName(msg)}** (${isoTime(msg)}):`, "", ...quoted, ""];
+}
+
+export function planToExportMarkdown(source: PlanExportSource): string {
+  const { plan, review, feedback } = source;
+  const lines: string[] = [];
+
+  lines.push(`# Plan: ${plan.title}`);
+  lines.push("");
+  lines.push(`- Status: ${formatReviewStatus(review)}`);
+  lines.push(`- CoChat: ${source.url}`);
+  lines.push(`- Updated: ${plan.metadata.updatedAt}`);
+  lines.push("");
+
+  if (plan.description) {
+    lines.push("## Overview");
+    lines.push("");
+    lines.push(plan.description.trim());
+    lines.push("");
+  }
+
+  lines.push("## Tasks");
+  lines.push("");
+  lines.push(...planItemsToMarkdown(plan.items));
+  lines.push("");
+
+  if (feedback.length > 0) {
+    const { threads, unattached } = groupFeedbackByTask(plan.items, feedback);
+    lines.push("## Feedback");
+    lines.push("");
+    for (const { task, messages } of threads) {
+      lines.push(`### On #${task.number}: ${task.item.content}`);
+      lines.push("");
+      for (const msg of messages) lines.push(...formatMessage(msg));
+    }
+    if (unattached.length > 0) {
+      lines.push("### General");
+      lines.push("");
+      for (const msg of unattached) lines.push(...formatMessage(msg));
+    }
+  }
+
+  return lines.join("\n").replace(/\n+$/, "\n");
+}
+
+export function planToExportJson(source: PlanExportSource): PlanExportJson {
+  const { plan, review, feedback } = source;
+  const { threads } = groupFeedbackByTask(plan.items, feedback);
+
+  return {
+    title: plan.title,
+    chatId: source.chatId,
+    url: source.url,
+    status: review.status,
+    approvals: review.approvals.length,
+    requiredApprovals: review.requiredApprovals,
+    updatedAt: plan.metadata.updatedAt,
+    description: plan.description ?? null,
+    items: plan.items,
+    feedback: feedback.map((msg) => ({
+      id: msg.id,
+      author: authorName(msg),
+      timestamp: isoTime(msg),
+      // IDs of the tasks this message refers to, in plan order
+      tasks: threads.filter((t) => t.messages.includes(msg)).map((t) => t.task.item.id),
+      content: msg.content,
+    })),
+  };
+}
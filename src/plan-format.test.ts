@@ -53,6 +53,36 @@ describe("planToMarkdown / markdownToPlan round-trip", () => {
     expect(parsed!.metadata.updatedAt).toBe("2026-01-02T00:00:00.000Z");
   });
 
+  it("round-trips review status and settings", () => {
+    const plan = makePlan({
+      metadata: {
+        source: "test-agent",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-02T00:00:00.000Z",
+        status: "changes_requested",
+        requiredApprovals: 2,
+        reviewers: ["alice@example.com", "bob smith@example.com"],
+        reviewRequestedAt: "2026-01-01T12:00:00.000Z",
+      },
+    });
+    const md = planToMarkdown(plan);
+    const parsed = markdownToPlan(md);
+
+    expect(md).toContain("Status: changes_requested");
+    expect(parsed!.metadata.status).toBe("changes_requested");
+    expect(parsed!.metadata.requiredApprovals).toBe(2);
+    expect(parsed!.metadata.reviewers).toEqual(["alice@example.com", "bob smith@example.com"]);
+    expect(parsed!.metadata.reviewRequestedAt).toBe("2026-01-01T12:00:00.000Z");
+    expect(parsed!.description).toBe(plan.description);
+  });
+
+  it("leaves review fields unset for plans shared before the review workflow", () => {
+    const parsed = markdownToPlan(planToMarkdown(makePlan()));
+    expect(parsed!.metadata.status).toBeUndefined();
+    expect(parsed!.metadata.requiredApprovals).toBeUndefined();
+    expect(parsed!.metadata.reviewers).toBeUndefined();
+  });
+
   it("round-trips a plan with no description", () => {
     const plan = makePlan({ description: undefined });
     const md = planToMarkdown(plan);
@@ -72,6 +102,228 @@ describe("planToMarkdown / markdownToPlan round-trip", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Item IDs
+// ---------------------------------------------------------------------------
+
+describe("item IDs", () => {
+  it("round-trips item IDs exactly, including nested children", () => {
+    const plan = makePlan({
+      items: [
+        {
+          id: "parent-1",
+          content: "Parent",
+          status: "in_progress",
+          priority: "high",
+          children: [
+            { id: "child-1", content: "Child", status: "cancelled", priority: "low" },
+          ],
+        },
+      ],
+    });
+    const parsed = markdownToPlan(planToMarkdown(plan));
+
+    expect(parsed!.items[0].id).toBe("parent-1");
+    expect(parsed!.items[0].status).toBe("in_progress");
+    expect(parsed!.items[0].children![0].id).toBe("child-1");
+    expect(parsed!.items[0].children![0].status).toBe("cancelled");
+  });
+
+  it("embeds IDs as hidden HTML comments", () => {
+    const md = planToMarkdown(makePlan());
+    expect(md).toContain("- [ ] **[HIGH]** First task `#1` <!-- id:item-1 -->");
+  });
+
+  it("round-trips IDs containing whitespace and comment terminators", () => {
+    const plan = makePlan({
+      items: [{ id: "task 1 -->", content: "Task", status: "pending", priority: "medium" }],
+    });
+    const parsed = markdownToPlan(planToMarkdown(plan));
+    expect(parsed!.items[0].id).toBe("task 1 -->");
+    expect(parsed!.items[0].content).toBe("Task");
+  });
+
+  it("assigns fresh IDs to legacy items without an ID comment", () => {
+    const md = [
+      "<!-- cochat-plan-mcp -->",
+      "# Plan: Legacy",
+      "",
+      "## Tasks",
+      "",
+      "- [x] **[LOW]** Old task",
+    ].join("\n");
+    const parsed = markdownToPlan(md);
+
+    expect(parsed!.items[0].content).toBe("Old task");
+    expect(parsed!.items[0].status).toBe("completed");
+    expect(parsed!.items[0].id).toBeTruthy();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Dependencies, assignees, estimates and due dates
+// ---------------------------------------------------------------------------
+
+describe("item details", () => {
+  const items: PlanItem[] = [
+    { id: "db", content: "Migrate users", status: "completed", priority: "high" },
+    {
+      id: "api",
+      content: "Add endpoint",
+      status: "in_progress",
+      priority: "medium",
+      assignee: "alice@example.com",
+      estimate: "2d",
+      due: "2026-11-01",
+      dependsOn: ["db"],
+    },
+  ];
+
+  it("renders details readably, with dependencies as outline numbers", () => {
+    const md = planToMarkdown(makePlan({ items }));
+    expect(md).toContain(
+      "- [ ] **[MED]** Add endpoint *(in progress)* — *@alice@example.com · est 2d · due 2026-11-01 · after #1* `#2` <!-- id:api -->",
+    );
+  });
+
+  it("round-trips details", () => {
+    const parsed = markdownToPlan(planToMarkdown(makePlan({ items })));
+    expect(parsed!.items[1]).toEqual(items[1]);
+    expect(parsed!.items[0]).toEqual(items[0]);
+  });
+
+  it("resolves dependencies by the numbers shown on each line, even after reordering", () => {
+    const md = planToMarkdown(makePlan({ items }));
+    const lines = md.split("\n");
+    const first = lines.findIndex((l) => l.includes("<!-- id:db -->"));
+    [lines[first], lines[first + 1]] = [lines[first + 1], lines[first]];
+
+    const parsed = markdownToPlan(lines.join("\n"));
+    expect(parsed!.items[0].id).toBe("api");
+    expect(parsed!.items[0].dependsOn).toEqual(["db"]);
+  });
+
+  it("accepts dependencies typed by hand and drops unknown references", () => {
+    const md = planToMarkdown(makePlan({ items: [items[0], { ...items[1], dependsOn: undefined }] }))
+      .replace("Add endpoint *(in progress)* — *", "Add endpoint *(in progress)* — *after #1, #9 · ");
+
+    const parsed = markdownToPlan(md);
+    expect(parsed!.items[1].dependsOn).toEqual(["db"]);
+    expect(parsed!.items[1].content).toBe("Add endpoint");
+  });
+
+  describe("with text that looks like the line's own markup", () => {
+    const tricky: PlanItem[] = [
+      items[0],
+      {
+        id: "note",
+        content: "Fix login — *see note* first",
+        status: "pending",
+        priority: "high",
+        assignee: "bob@example.com",
+      },
+      { id: "flag", content: "Drop the *(in progress)* badge", status: "pending", priority: "low" },
+      { id: "wip", content: "Restyle *(in progress)*", status: "pending", priority: "low" },
+      {
+        id: "est",
+        content: "Load test",
+        status: "in_progress",
+        priority: "medium",
+        estimate: "2d · 3h",
+        dependsOn: ["db", "external-id"],
+      },
+      { id: "strike", content: "Remove ~~cancelled~~ label", status: "completed", priority: "low" },
+    ];
+
+    it("round-trips content, status and details exactly", () => {
+      const parsed = markdownToPlan(planToMarkdown(makePlan({ items: tricky })));
+      expect(parsed!.items).toEqual(tricky);
+    });
+
+    it("keeps the visible line unchanged and adds the fields to the ID comment", () => {
+      const md = planToMarkdown(makePlan({ items: tricky }));
+      expect(md).toContain("- [ ] **[LOW]** Restyle *(in progress)* `#4` <!-- id:wip fields:%7B%7D -->");
+      expect(md).toContain("- [ ] **[MED]** Load test *(in progress)* — *est 2d · 3h · after #1, #external-id* `#5` <!-- id:est fields:");
+      // Lines that already read back exactly get a plain ID comment
+      expect(md).toContain("- [x] **[HIGH]** Migrate users `#1` <!-- id:db -->");
+      expect(md).toContain("- [ ] **[HIGH]** Fix login — *see note* first — *@bob@example.com* `#2` <!-- id:note -->");
+      expect(md).toContain("- [ ] **[LOW]** Drop the *(in progress)* badge `#3` <!-- id:flag -->");
+    });
+
+    it("lets visible edits made in CoChat win over the stored fields", () => {
+      const md = planToMarkdown(makePlan({ items: tricky })).replace("@bob@example.com", "@carol@example.com");
+
+      const parsed = markdownToPlan(md);
+      expect(parsed!.items[1].assignee).toBe("carol@example.com");
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Render modes
+// ---------------------------------------------------------------------------
+
+describe("render modes", () => {
+  const items: PlanItem[] = [
+    { id: "db", content: "Migrate `users`", status: "completed", priority: "high" },
+    { id: "api", content: "Add endpoint", status: "pending", priority: "medium", dependsOn: ["db"] },
+  ];
+
+  it("adds the optional sections after the tasks and keeps the settings", () => {
+    const md = planToMarkdown(makePlan({
+      items,
+      metadata: { ...makePlan().metadata, render: { diagram: "graph", table: true } },
+    }));
+
+    expect(md).toContain("<!-- render diagram=graph table -->");
+    expect(md.indexOf("## Summary")).toBeGreaterThan(md.indexOf("## Tasks"));
+    expect(md).toContain("```mermaid\ngraph TD");
+    expect(md).not.toContain("cochat-plan-json");
+
+    const parsed = markdownToPlan(md);
+    expect(parsed!.items).toEqual(items);
+    expect(parsed!.description).toBe("A test plan description");
+    expect(parsed!.metadata.render).toEqual({ diagram: "graph", table: true });
+  });
+
+  it("reads plans with a JSON appendix from the JSON", () => {
+    const plan = makePlan({
+      items,
+      metadata: { ...makePlan().metadata, sessionId: "s-1", render: { json: true } },
+    });
+    const md = planToMarkdown(plan);
+
+    expect(md).toContain("<summary>Plan data (JSON)</summary>");
+    expect(md).toContain("Migrate \\u0060users\\u0060");
+    expect(markdownToPlan(md)).toEqual(plan);
+  });
+
+  it("prefers the checklist once it was edited in CoChat", () => {
+    const plan = makePlan({
+      items,
+      metadata: { ...makePlan().metadata, sessionId: "s-1", render: { json: true } },
+    });
+    const md = planToMarkdown(plan).replace("- [ ] **[MED]** Add endpoint", "- [x] **[MED]** Add endpoint");
+
+    const parsed = markdownToPlan(md);
+    expect(parsed!.items[1].status).toBe("completed");
+    expect(parsed!.metadata).toMatchObject({
+      sessionId: "s-1",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      render: { json: true },
+    });
+  });
+
+  it("falls back to the checklist when the JSON is unreadable", () => {
+    const md = planToMarkdown(makePlan({
+      items,
+      metadata: { ...makePlan().metadata, render: { json: true } },
+    })).replace('"title": "Test Plan"', '"title": ');
+
+    expect(markdownToPlan(md)!.items).toEqual(items);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // All statuses
 // ---------------------------------------------------------------------------
@@ -203,6 +455,61 @@ describe("nested children items", () => {
     expect(parsed!.items[0].children![1].priority).toBe("low");
   });
 
+  it("labels tasks with outline numbers", () => {
+    const plan = makePlan({
+      items: [
+        { id: "a", content: "A", status: "pending", priority: "high" },
+        {
+          id: "b",
+          content: "B",
+          status: "in_progress",
+          priority: "high",
+          children: [{ id: "b1", content: "B1", status: "pending", priority: "low" }],
+        },
+      ],
+    });
+    const md = planToMarkdown(plan);
+
+    expect(md).toContain("A `#1`");
+    expect(md).toContain("B *(in progress)* `#2`");
+    expect(md).toContain("B1 `#2.1`");
+
+    const parsed = markdownToPlan(md);
+    expect(parsed!.items[1].content).toBe("B");
+    expect(parsed!.items[1].children![0].content).toBe("B1");
+  });
+
+  it("round-trips items nested three levels deep", () => {
+    const plan = makePlan({
+      items: [
+        {
+          id: "epic",
+          content: "Epic",
+          status: "in_progress",
+          priority: "high",
+          children: [
+            {
+              id: "task",
+              content: "Task",
+              status: "in_progress",
+              priority: "medium",
+              children: [
+                { id: "sub", content: "Subtask", status: "cancelled", priority: "low" },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+
+    const md = planToMarkdown(plan);
+    expect(md).toContain("    - [ ] **[LOW]** Subtask ~~cancelled~~");
+
+    const parsed = markdownToPlan(md);
+    const sub = parsed!.items[0].children![0].children![0];
+    expect(sub).toEqual({ id: "sub", content: "Subtask", status: "cancelled", priority: "low" });
+  });
+
   it("parent without children has no children property after round-trip", () => {
     const plan = makePlan({
       items: [
@@ -241,6 +548,16 @@ describe("description with markdown formatting", () => {
     expect(parsed!.description).toContain("**microservices**");
     expect(parsed!.description).toContain("const x = 42;");
   });
+
+  it("keeps blank lines between paragraphs and inside code blocks", () => {
+    const description = "Para one.\n\n```ts\nconst a = 1;\n\nconst b = 2;\n```\n\nPara two.";
+    const md = planToMarkdown(makePlan({ description }));
+
+    const parsed = markdownToPlan(md)!;
+
+    expect(parsed.description).toBe(description);
+    expect(planToMarkdown(parsed)).toBe(md);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -349,3 +666,102 @@ describe("markdownToPlan edge cases", () => {
     expect(markdownToPlan("")).toBeNull();
   });
 });
+
+// ---------------------------------------------------------------------------
+// Lenient parsing
+// ---------------------------------------------------------------------------
+
+describe("markdownToPlan lenient mode", () => {
+  const doc = [
+    "# Plan: Search revamp",
+    "",
+    "We are replacing the search backend.",
+    "",
+    "## Backend",
+    "",
+    "- [x] Add index (P0)",
+    "- [ ] Migrate queries (in progress)",
+    "  - [ ] Port filters",
+    "  - [-] Drop legacy API",
+    "",
+    "## Notes",
+    "",
+    "Keep the old endpoint until Q3.",
+    "",
+    "## Tasks",
+    "",
+    "1. [ ] **[LOW]** Update docs",
+    "* [ ] ~~Rewrite UI~~",
+  ].join("\n");
+
+  it("ignores unmarked markdown unless lenient is set", () => {
+    expect(markdownToPlan(doc)).toBeNull();
+  });
+
+  it("parses GFM checklists with headings as groups", () => {
+    const plan = markdownToPlan(doc, { lenient: true })!;
+
+    expect(plan.title).toBe("Search revamp");
+    expect(plan.items.map((i) => i.content)).toEqual(["Backend", "Update docs", "Rewrite UI"]);
+
+    const backend = plan.items[0];
+    expect(backend.status).toBe("in_progress");
+    expect(backend.priority).toBe("high");
+    expect(backend.children!.map((i) => [i.content, i.status, i.priority])).toEqual([
+      ["Add index", "completed", "high"],
+      ["Migrate queries", "in_progress", "medium"],
+    ]);
+    expect(backend.children![1].children!.map((i) => [i.content, i.status])).toEqual([
+      ["Port filters", "pending"],
+      ["Drop legacy API", "cancelled"],
+    ]);
+
+    expect(plan.items[1].priority).toBe("low");
+    expect(plan.items[2].status).toBe("cancelled");
+  });
+
+  it("keeps prose sections as the description", () => {
+    const plan = markdownToPlan(doc, { lenient: true })!;
+
+    expect(plan.description).toContain("We are replacing the search backend.");
+    expect(plan.description).toContain("## Notes\n\nKeep the old endpoint until Q3.");
+    expect(plan.description).not.toContain("## Backend");
+  });
+
+  it("treats plain bullets as tasks only when there are no checkboxes", () => {
+    const plan = markdownToPlan("- Write tests\n- Ship it", { lenient: true, fallbackTitle: "TODO" })!;
+    expect(plan.title).toBe("TODO");
+    expect(plan.items.map((i) => i.content)).toEqual(["Write tests", "Ship it"]);
+
+    const mixed = markdownToPlan("Notes:\n- a note\n\n- [ ] Real task", { lenient: true })!;
+    expect(mixed.items.map((i) => i.content)).toEqual(["Real task"]);
+    expect(mixed.description).toContain("- a note");
+  });
+
+  it("infers priority from wording only when asked", () => {
+    const md = "- [ ] Urgent: fix login\n- [ ] Polish icons (nice to have)\n- [ ] Refactor";
+
+    expect(markdownToPlan(md, { lenient: true })!.items.map((i) => i.priority)).toEqual([
+      "medium",
+      "medium",
+      "medium",
+    ]);
+    expect(
+      markdownToPlan(md, { lenient: true, inferPriority: true })!.items.map((i) => i.priority),
+    ).toEqual(["high", "low", "medium"]);
+  });
+
+  it("ignores list items inside code fences", () => {
+    const plan = markdownToPlan("- [ ] Real\n```\n- [ ] Not a task\n```", { lenient: true })!;
+    expect(plan.items).toHaveLength(1);
+  });
+
+  it("returns null when there are no tasks", () => {
+    expect(markdownToPlan("# Just a title\n\nSome text.", { lenient: true })).toBeNull();
+  });
+
+  it("still uses the strict parser for plans it produced", () => {
+    const md = planToMarkdown(makePlan());
+    expect(markdownToPlan(md, { lenient: true })!.items[0].id).toBe("item-1");
+  });
+});
@@ -1,3 +1,5 @@
+import { mermaidGantt, mermaidGraph, statusSummaryTable } from "./plan-render.js";
+
 // ---------------------------------------------------------------------------
 // Plan data types
 // ---------------------------------------------------------------------------
@@ -5,11 +7,25 @@
 export type PlanItemStatus = "pending" | "in_progress" | "completed" | "cancelled";
 export type PlanItemPriority = "high" | "medium" | "low";
 
+/**
+ * Review lifecycle of a shared plan:
+ * draft -> in_review -> changes_requested -> approved -> done
+ */
+export type PlanStatus = "draft" | "in_review" | "changes_requested" | "approved" | "done";
+
 export interface PlanItem {
   id: string;
   content: string;
   status: PlanItemStatus;
   priority: PlanItemPriority;
+  /** IDs of the items this one waits for */
+  dependsOn?: string[];
+  /** Email of the engineer who owns the task */
+  assignee?: string;
+  /** Free-form size, e.g. "2h", "3d" or "5 points" */
+  estimate?: string;
+  /** Due date (YYYY-MM-DD) */
+  due?: string;
   children?: PlanItem[];
 }
 
@@ -19,6 +35,25 @@ export interface PlanMetadata {
   sessionId?: string;
   createdAt: string;
   updatedAt: string;
+  /** Review status; plans shared before the review workflow count as in_review */
+  status?: PlanStatus;
+  /** Number of reviewer approvals needed before the plan counts as approved */
+  requiredApprovals?: number;
+  /** Emails of the invited reviewers whose /approve and /request-changes count */
+  reviewers?: string[];
+  /** Start of the current review round; votes cast before it are ignored */
+  reviewRequestedAt?: string;
+  /** Optional sections rendered after the task list */
+  render?: PlanRenderOptions;
+}
+
+export interface PlanRenderOptions {
+  /** Mermaid dependency graph or Gantt chart of the tasks */
+  diagram?: "graph" | "gantt";
+  /** Status summary table with the weighted progress */
+  table?: boolean;
+  /** Collapsed JSON copy of the plan, parsed in preference to the checklist */
+  json?: boolean;
 }
 
 export interface Plan {
@@ -34,6 +69,190 @@ export interface Plan {
 
 const PLAN_MARKER = "<!-- cochat-plan-mcp -->";
 
+/** Marks replies the agent posted into a plan thread (see plans_reply) */
+export const PLAN_REPLY_MARKER = "<!-- cochat-plan-reply -->";
+
+// ---------------------------------------------------------------------------
+// Item ID marker – a hidden HTML comment at the end of each task line so item
+// IDs survive the markdown round-trip. IDs are URI-encoded so whitespace or
+// "-->" in an agent-supplied ID cannot break the comment.
+//
+// When the visible line would read back differently (content containing
+// " — *" or "*(in progress)*", an estimate containing " · ", ...), the
+// comment also carries the item's status marker and details as URI-encoded
+// JSON, e.g. `<!-- id:api fields:%7B%22estimate%22%3A%222d%20%C2%B7%203h%22%7D -->`.
+// ---------------------------------------------------------------------------
+
+/** What the visible suffix of a task line shows, besides the checkbox */
+interface ItemFields {
+  status?: "in_progress" | "cancelled";
+  assignee?: string;
+  estimate?: string;
+  due?: string;
+  dependsOn?: string[];
+}
+
+function itemIdComment(id: string, fields?: ItemFields): string {
+  const extra = fields ? ` fields:${encodeURIComponent(JSON.stringify(fields))}` : "";
+  return `<!-- id:${encodeURIComponent(id)}${extra} -->`;
+}
+
+function parseItemFields(raw: string): ItemFields | null {
+  let fields: Record<string, unknown>;
+  try {
+    fields = JSON.parse(decodeURIComponent(raw)) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  const valid =
+    typeof fields === "object" &&
+    fields !== null &&
+    (fields.status === undefined || fields.status === "in_progress" || fields.status === "cancelled") &&
+    ["assignee", "estimate", "due"].every((key) => fields[key] === undefined || typeof fields[key] === "string") &&
+    (fields.dependsOn === undefined ||
+      (Array.isArray(fields.dependsOn) && fields.dependsOn.every((id) => typeof id === "string")));
+  return valid ? (fields as ItemFields) : null;
+}
+
+function safeDecode(raw: string): string {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Review marker – a hidden HTML comment under the plan marker holding the
+// review settings that reviewers don't need to see.
+// ---------------------------------------------------------------------------
+
+const PLAN_STATUSES: PlanStatus[] = ["draft", "in_review", "changes_requested", "approved", "done"];
+
+function reviewComment(metadata: PlanMetadata): string | null {
+  const fields: string[] = [];
+  if (metadata.requiredApprovals !== undefined) {
+    fields.push(`required=${metadata.requiredApprovals}`);
+  }
+  if (metadata.reviewers && metadata.reviewers.length > 0) {
+    fields.push(`reviewers=${metadata.reviewers.map(encodeURIComponent).join(",")}`);
+  }
+  if (metadata.reviewRequestedAt) {
+    fields.push(`round=${metadata.reviewRequestedAt}`);
+  }
+  return fields.length > 0 ? `<!-- review ${fields.join(" ")} -->` : null;
+}
+
+function parseReviewComment(
+  lines: string[],
+): Pick<PlanMetadata, "requiredApprovals" | "reviewers" | "reviewRequestedAt"> {
+  const line = lines.find((l) => l.startsWith("<!-- review "));
+  if (!line) return {};
+
+  const field = (key: string) => line.match(new RegExp(`\\b${key}=(\\S+)`))?.[1];
+  const required = Number(field("required"));
+  const reviewers = field("reviewers");
+
+  return {
+    requiredApprovals: Number.isInteger(required) && required >= 0 ? required : undefined,
+    reviewers: reviewers ? reviewers.split(",").map(safeDecode) : undefined,
+    reviewRequestedAt: field("round"),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Render marker – a hidden HTML comment recording which optional sections
+// the plan is rendered with, so updates keep rendering them.
+// ---------------------------------------------------------------------------
+
+function renderComment(render: PlanRenderOptions | undefined): string | null {
+  const fields: string[] = [];
+  if (render?.diagram) fields.push(`diagram=${render.diagram}`);
+  if (render?.table) fields.push("table");
+  if (render?.json) fields.push("json");
+  return fields.length > 0 ? `<!-- render ${fields.join(" ")} -->` : null;
+}
+
+function parseRenderComment(lines: string[]): PlanRenderOptions | undefined {
+  const line = lines.find((l) => l.startsWith("<!-- render "));
+  if (!line) return undefined;
+
+  const render: PlanRenderOptions = {};
+  const diagram = line.match(/\bdiagram=(graph|gantt)\b/)?.[1];
+  if (diagram === "graph" || diagram === "gantt") render.diagram = diagram;
+  if (/\btable\b/.test(line)) render.table = true;
+  if (/\bjson\b/.test(line)) render.json = true;
+  return render;
+}
+
+// ---------------------------------------------------------------------------
+// JSON appendix – the whole Plan as fenced JSON inside a collapsed <details>
+// block. Backticks are escaped so task text cannot close the fence.
+// ---------------------------------------------------------------------------
+
+const PLAN_JSON_MARKER = "<!-- cochat-plan-json -->";
+
+function planJsonAppendix(plan: Plan): string[] {
+  const json = JSON.stringify(plan, null, 2).replace(/`/g, "\\u0060");
+  return [
+    "<details>",
+    "<summary>Plan data (JSON)</summary>",
+    "",
+    PLAN_JSON_MARKER,
+    "```json",
+    json,
+    "```",
+    "",
+    "</details>",
+  ];
+}
+
+function isPlanShape(value: unknown): value is Plan {
+  if (!value || typeof value !== "object") return false;
+  const plan = value as Partial<Plan>;
+  return (
+    typeof plan.title === "string" &&
+    Array.isArray(plan.items) &&
+    typeof plan.metadata === "object" &&
+    plan.metadata !== null &&
+    typeof plan.metadata.source === "string" &&
+    typeof plan.metadata.createdAt === "string" &&
+    typeof plan.metadata.updatedAt === "string"
+  );
+}
+
+function parsePlanJson(md: string): Plan | null {
+  const start = md.indexOf(PLAN_JSON_MARKER);
+  if (start < 0) return null;
+  const fence = md.slice(start).match(/```json\n([\s\S]*?)\n```/);
+  if (!fence) return null;
+  try {
+    const plan: unknown = JSON.parse(fence[1]);
+    return isPlanShape(plan) ? plan : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Whether a message is exactly what the JSON plan renders to. */
+/** Drop blank lines at the start and end, keeping the ones in between */
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === "") start++;
+  while (end > start && lines[end - 1].trim() === "") end--;
+  return lines.slice(start, end);
+}
+
+function matchesPlanJson(md: string, plan: Plan): boolean {
+  try {
+    return planToMarkdown(plan).trim() === md.trim();
+  } catch {
+    // Items that don't have the expected shape
+    return false;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Serialize: Plan -> Markdown
 // ---------------------------------------------------------------------------
@@ -53,35 +272,128 @@ function statusCheckbox(s: PlanItemStatus): string {
   return s === "completed" ? "[x]" : "[ ]";
 }
 
-function formatItem(item: PlanItem, indent: number): string {
+/**
+ * The readable details suffix of a task line, e.g.
+ * " — *@alice@example.com · est 2d · due 2026-11-01 · after #1, #2.1*".
+ * Dependencies are shown by outline number; IDs not in the plan are shown
+ * as "#id".
+ */
+function formatItemDetails(
+  item: Pick<PlanItem, "assignee" | "estimate" | "due" | "dependsOn">,
+  numbers: Map<string, string>,
+): string {
+  const details: string[] = [];
+  if (item.assignee) details.push(`@${item.assignee}`);
+  if (item.estimate) details.push(`est ${item.estimate}`);
+  if (item.due) details.push(`due ${item.due}`);
+  if (item.dependsOn && item.dependsOn.length > 0) {
+    details.push(`after ${item.dependsOn.map((id) => `#${numbers.get(id) ?? id}`).join(", ")}`);
+  }
+  return details.length > 0 ? ` — *${details.join(" · ")}*` : "";
+}
+
+function statusMarker(status: PlanItemStatus | undefined): string {
+  if (status === "in_progress") return " *(in progress)*";
+  if (status === "cancelled") return " ~~cancelled~~";
+  return "";
+}
+
+function itemFields(item: PlanItem): ItemFields {
+  const fields: ItemFields = {};
+  if (item.status === "in_progress" || item.status === "cancelled") fields.status = item.status;
+  if (item.assignee) fields.assignee = item.assignee;
+  if (item.estimate) fields.estimate = item.estimate;
+  if (item.due) fields.due = item.due;
+  if (item.dependsOn && item.dependsOn.length > 0) fields.dependsOn = item.dependsOn;
+  return fields;
+}
+
+/**
+ * Whether parsing the visible task text gives back the item's content,
+ * status marker and details; if not, they are kept in the ID comment.
+ */
+function readsBack(item: PlanItem, body: string, numbers: Map<string, string>): boolean {
+  const parsed = parseItemBody(body);
+  const expected = itemFields(item);
+  const dependsOn = expected.dependsOn ?? [];
+  const refs = parsed.details.dependsOn ?? [];
+  return (
+    parsed.content === item.content.trim() &&
+    parsed.status === expected.status &&
+    parsed.details.assignee === expected.assignee &&
+    parsed.details.estimate === expected.estimate &&
+    parsed.details.due === expected.due &&
+    // Only outline numbers resolve reliably; "#id" refs to unknown IDs are dropped
+    dependsOn.every((id) => numbers.has(id)) &&
+    refs.length === dependsOn.length &&
+    refs.every((ref, idx) => ref === numbers.get(dependsOn[idx]))
+  );
+}
+
+/**
+ * Render one task line (plus its children). Each task carries a visible
+ * outline number (`#2.1`) so reviewers can refer to it in feedback.
+ */
+function formatItem(
+  item: PlanItem,
+  indent: number,
+  number: string,
+  numbers: Map<string, string>,
+): string {
   const prefix = "  ".repeat(indent) + "- ";
   const checkbox = statusCheckbox(item.status);
   const priority = priorityLabel(item.priority);
-  let line = `${prefix}${checkbox} ${priority} ${item.content}`;
-
-  if (item.status === "in_progress") {
-    line += " *(in progress)*";
-  } else if (item.status === "cancelled") {
-    line += " ~~cancelled~~";
-  }
+  const body = `${item.content}${statusMarker(item.status)}${formatItemDetails(item, numbers)}`;
+  const fields = readsBack(item, body, numbers) ? undefined : itemFields(item);
+  const line = `${prefix}${checkbox} ${priority} ${body} \`#${number}\` ${itemIdComment(item.id, fields)}`;
 
   const childLines = (item.children ?? [])
-    .map((child) => formatItem(child, indent + 1))
+    .map((child, idx) => formatItem(child, indent + 1, `${number}.${idx + 1}`, numbers))
     .join("\n");
 
   return childLines ? `${line}\n${childLines}` : line;
 }
 
+/** Map each item ID in a tree to its outline number ("1", "1.1", "2"). */
+function outlineNumbers(items: PlanItem[]): Map<string, string> {
+  const numbers = new Map<string, string>();
+  const walk = (list: PlanItem[], prefix: string): void => {
+    list.forEach((item, idx) => {
+      const number = prefix ? `${prefix}.${idx + 1}` : String(idx + 1);
+      numbers.set(item.id, number);
+      if (item.children) walk(item.children, number);
+    });
+  };
+  walk(items, "");
+  return numbers;
+}
+
+/**
+ * Render a task tree as checklist lines (with outline numbers and ID
+ * comments), exactly as it appears under "## Tasks".
+ */
+export function planItemsToMarkdown(items: PlanItem[]): string[] {
+  const numbers = outlineNumbers(items);
+  return items.map((item, idx) => formatItem(item, 0, String(idx + 1), numbers));
+}
+
 export function planToMarkdown(plan: Plan): string {
   const lines: string[] = [];
 
   lines.push(PLAN_MARKER);
+  const review = reviewComment(plan.metadata);
+  if (review) lines.push(review);
+  const render = renderComment(plan.metadata.render);
+  if (render) lines.push(render);
   lines.push(`# Plan: ${plan.title}`);
   lines.push("");
   const metaParts = [`Shared from ${plan.metadata.source}`];
   if (plan.metadata.model) {
     metaParts.push(`Model: ${plan.metadata.model}`);
   }
+  if (plan.metadata.status) {
+    metaParts.push(`Status: ${plan.metadata.status}`);
+  }
   metaParts.push(`Updated: ${plan.metadata.updatedAt}`);
   lines.push(`> ${metaParts.join(" | ")}`);
   lines.push("");
@@ -96,16 +408,32 @@ export function planToMarkdown(plan: Plan): string {
   lines.push("## Tasks");
   lines.push("");
 
-  for (const item of plan.items) {
-    lines.push(formatItem(item, 0));
+  lines.push(...planItemsToMarkdown(plan.items));
+
+  // Optional sections go after the tasks so neither the description nor the
+  // checklist parser sees them
+  const options = plan.metadata.render ?? {};
+  if (options.table) {
+    lines.push("", "## Summary", "", ...statusSummaryTable(plan.items));
+  }
+  if (options.diagram === "graph") {
+    lines.push("", "## Dependencies", "", ...mermaidGraph(plan.items));
+  } else if (options.diagram === "gantt") {
+    lines.push("", "## Timeline", "", ...mermaidGantt(plan));
   }
 
   lines.push("");
   lines.push("---");
   lines.push(
-    "*Reply below with feedback. The plan author can pull your comments back into their local session.*"
+    "*Reply below with feedback. Refer to a task by its number (e.g. \"re #2.1: ...\") or quote its text. " +
+    "The plan author can pull your comments back into their local session. " +
+    "Reviewers: start a reply with `/approve` to sign off or `/request-changes` followed by what needs to change.*"
   );
 
+  if (options.json) {
+    lines.push("", ...planJsonAppendix(plan));
+  }
+
   return lines.join("\n");
 }
 
@@ -114,7 +442,42 @@ export function planToMarkdown(plan: Plan): string {
 // ---------------------------------------------------------------------------
 
 const ITEM_RE =
-  /^(\s*)- \[([ xX])\]\s+\*\*\[(HIGH|MED|LOW)\]\*\*\s+(.+?)(?:\s+\*\(in progress\)\*)?(?:\s+~~cancelled~~)?$/;
+  /^(\s*)- \[([ xX])\]\s+\*\*\[(HIGH|MED|LOW)\]\*\*\s+(.+?)(?:\s+`#([\d.]+)`)?(?:\s+<!-- id:(\S+)(?: fields:(\S+))? -->)?$/;
+
+/**
+ * Task text: content, then an optional status marker and details suffix.
+ * The details are the last " — *...*", so content may contain the separator.
+ */
+const ITEM_BODY_RE = /^(.+?)(\s+\*\(in progress\)\*)?(\s+~~cancelled~~)?(?:\s+— \*((?:(?! — \*).)+)\*)?$/;
+
+interface ItemDetails {
+  assignee?: string;
+  estimate?: string;
+  due?: string;
+  /** Outline numbers or IDs, resolved to IDs once the whole list is parsed */
+  dependsOn?: string[];
+}
+
+/** Parse the " — *@x · est 2d · due ... · after #1*" suffix of a task line. */
+function parseItemDetails(raw: string | undefined): ItemDetails {
+  const details: ItemDetails = {};
+  for (const part of (raw ?? "").split(" · ").map((p) => p.trim())) {
+    if (part.startsWith("@")) {
+      details.assignee = part.slice(1);
+    } else if (part.startsWith("est ")) {
+      details.estimate = part.slice(4).trim();
+    } else if (part.startsWith("due ")) {
+      details.due = part.slice(4).trim();
+    } else if (part.startsWith("after ")) {
+      details.dependsOn = part
+        .slice(6)
+        .split(",")
+        .map((ref) => ref.trim().replace(/^#/, ""))
+        .filter((ref) => ref.length > 0);
+    }
+  }
+  return details;
+}
 
 function parsePriority(raw: string): PlanItemPriority {
   switch (raw) {
@@ -129,19 +492,74 @@ function parsePriority(raw: string): PlanItemPriority {
   }
 }
 
-function parseStatus(checkbox: string, rest: string): PlanItemStatus {
-  if (rest.includes("~~cancelled~~")) return "cancelled";
-  if (rest.includes("*(in progress)*")) return "in_progress";
+function parseStatus(checkbox: string, marker: ItemFields["status"]): PlanItemStatus {
+  if (marker) return marker;
   return checkbox.trim().toLowerCase() === "x" ? "completed" : "pending";
 }
 
+interface ItemBody {
+  content: string;
+  status?: ItemFields["status"];
+  details: ItemDetails;
+}
+
+/** Split the visible text of a task line into content, status marker and details. */
+function parseItemBody(body: string): ItemBody {
+  const match = body.match(ITEM_BODY_RE);
+  if (!match) return { content: body.trim(), details: {} };
+  const status = match[3] ? "cancelled" : match[2] ? "in_progress" : undefined;
+  return { content: match[1].trim(), status, details: parseItemDetails(match[4]) };
+}
+
+/**
+ * Read a task from the fields in its ID comment, as long as the visible
+ * suffix still shows them. Returns null once an engineer has edited the
+ * status marker or details in CoChat, so the visible text wins.
+ */
+function parseItemBodyWithFields(
+  body: string,
+  fields: ItemFields,
+  numbers: Map<string, string>,
+): ItemBody | null {
+  const suffix = `${statusMarker(fields.status)}${formatItemDetails(fields, numbers)}`;
+  if (!body.endsWith(suffix) || body.length === suffix.length) return null;
+  const { status, ...details } = fields;
+  return { content: body.slice(0, body.length - suffix.length).trim(), status, details };
+}
+
 interface ParsedLine {
   indent: number;
   item: PlanItem;
 }
 
-export function markdownToPlan(md: string): Plan | null {
-  if (!md.includes(PLAN_MARKER)) return null;
+export interface MarkdownToPlanOptions {
+  /**
+   * Also accept ordinary markdown (GFM checklists, headings as groups) that
+   * was not produced by planToMarkdown. See parseLenientPlan.
+   */
+  lenient?: boolean;
+  /** Lenient mode: infer priority from wording such as "urgent" or "nice to have" */
+  inferPriority?: boolean;
+  /** Lenient mode: title to use when the document has no top-level heading */
+  fallbackTitle?: string;
+}
+
+/**
+ * Parse a plan message. Plans rendered with a JSON appendix are read from
+ * the JSON, but only while the rest of the message still matches it: once an
+ * engineer edits the checklist in CoChat the JSON is stale, so the checklist
+ * wins and the JSON only supplies what the markdown does not show
+ * (createdAt, sessionId). Everything else is parsed from the checklist.
+ */
+export function markdownToPlan(md: string, options: MarkdownToPlanOptions = {}): Plan | null {
+  if (!md.includes(PLAN_MARKER)) {
+    return options.lenient ? parseLenientPlan(md, options) : null;
+  }
+
+  const json = parsePlanJson(md);
+  if (json && matchesPlanJson(md, json)) {
+    return json;
+  }
 
   const lines = md.split("\n");
 
@@ -153,52 +571,78 @@ export function markdownToPlan(md: string): Plan | null {
   const metaLine = lines.find((l) => l.startsWith("> Shared from "));
   let source = "unknown";
   let model: string | undefined;
+  let status: PlanStatus | undefined;
   let updatedAt = new Date().toISOString();
   if (metaLine) {
     const sourceMatch = metaLine.match(/Shared from ([^|]+)/);
     if (sourceMatch) source = sourceMatch[1].trim();
     const modelMatch = metaLine.match(/Model: ([^|]+)/);
     if (modelMatch) model = modelMatch[1].trim();
+    const statusMatch = metaLine.match(/Status: ([^|]+)/);
+    const rawStatus = statusMatch?.[1].trim() as PlanStatus | undefined;
+    if (rawStatus && PLAN_STATUSES.includes(rawStatus)) status = rawStatus;
     const dateMatch = metaLine.match(/Updated: (.+)/);
     if (dateMatch) updatedAt = dateMatch[1].trim();
   }
 
-  // Extract description: lines between the blockquote and ## Tasks
-  // Skip the "## Overview" heading if present
+  // Extract description: lines between the blockquote and ## Tasks, kept
+  // verbatim (paragraphs, code blocks) apart from the "## Overview" heading
+  // and the blank lines around it
   const metaIdx = lines.indexOf(metaLine ?? "");
   const tasksIdx = lines.findIndex((l) => l.startsWith("## Tasks"));
   let description: string | undefined;
   if (metaIdx >= 0 && tasksIdx > metaIdx + 1) {
-    const descLines = lines
-      .slice(metaIdx + 1, tasksIdx)
-      .filter((l) => l.trim().length > 0 && l.trim() !== "## Overview");
+    let descLines = trimBlankLines(lines.slice(metaIdx + 1, tasksIdx));
+    if (descLines[0]?.trim() === "## Overview") {
+      descLines = trimBlankLines(descLines.slice(1));
+    }
     if (descLines.length > 0) {
-      description = descLines.join("\n").trim();
+      description = descLines.join("\n");
     }
   }
 
   // Parse task items
   const parsed: ParsedLine[] = [];
-  for (const line of lines) {
-    const match = line.match(ITEM_RE);
-    if (!match) continue;
+  // Outline number shown on each line -> item ID, for resolving "after #2.1".
+  // The numbers travel with their lines, so this holds even if an engineer
+  // reordered tasks in CoChat.
+  const idsByNumber = new Map<string, string>();
+  const matches = lines
+    .map((line) => line.match(ITEM_RE))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    // Legacy plans (shared before IDs were embedded) get a fresh ID
+    .map((match) => ({ match, id: match[6] ? safeDecode(match[6]) : crypto.randomUUID() }));
+  for (const { match, id } of matches) {
+    if (match[5]) idsByNumber.set(match[5], id);
+  }
+  const numbers = new Map([...idsByNumber].map(([number, id]) => [id, number]));
+  // Dependencies read from ID comments are already IDs
+  const exactDeps = new Set<PlanItem>();
 
+  for (const { match, id } of matches) {
     const indent = match[1].length / 2;
     const checkbox = match[2];
     const priorityRaw = match[3];
-    const content = match[4].trim();
-
-    parsed.push({
-      indent,
-      item: {
-        id: crypto.randomUUID(),
-        content,
-        status: parseStatus(checkbox, line),
-        priority: parsePriority(priorityRaw),
-      },
-    });
+    const fields = match[7] ? parseItemFields(match[7]) : null;
+    const fromFields = fields ? parseItemBodyWithFields(match[4], fields, numbers) : null;
+    const { content, status, details } = fromFields ?? parseItemBody(match[4]);
+
+    const item: PlanItem = {
+      id,
+      content,
+      status: parseStatus(checkbox, status),
+      priority: parsePriority(priorityRaw),
+    };
+    if (details.assignee) item.assignee = details.assignee;
+    if (details.estimate) item.estimate = details.estimate;
+    if (details.due) item.due = details.due;
+    if (details.dependsOn) item.dependsOn = details.dependsOn;
+    if (fromFields) exactDeps.add(item);
+    parsed.push({ indent, item });
   }
 
+  resolveDependencies(parsed, idsByNumber, exactDeps);
+
   // Build tree from flat indented list
   const items = buildTree(parsed);
 
@@ -209,12 +653,40 @@ export function markdownToPlan(md: string): Plan | null {
     metadata: {
       source,
       model,
-      createdAt: updatedAt, // best guess from what's in the markdown
+      sessionId: json?.metadata.sessionId,
+      // Without the JSON this is a best guess from what's in the markdown
+      createdAt: json?.metadata.createdAt ?? updatedAt,
       updatedAt,
+      status,
+      ...parseReviewComment(lines),
+      render: parseRenderComment(lines),
     },
   };
 }
 
+/**
+ * Turn the "after #1, #2.1" references read from task lines into item IDs,
+ * dropping the ones that match no task. Items in `exact` already hold IDs.
+ */
+function resolveDependencies(
+  parsed: ParsedLine[],
+  idsByNumber: Map<string, string>,
+  exact: Set<PlanItem> = new Set(),
+): void {
+  const knownIds = new Set(parsed.map(({ item }) => item.id));
+  for (const { item } of parsed) {
+    if (!item.dependsOn || exact.has(item)) continue;
+    const resolved = item.dependsOn
+      .map((ref) => idsByNumber.get(ref) ?? (knownIds.has(ref) ? ref : undefined))
+      .filter((ref): ref is string => ref !== undefined);
+    if (resolved.length > 0) {
+      item.dependsOn = resolved;
+    } else {
+      delete item.dependsOn;
+    }
+  }
+}
+
 function buildTree(parsed: ParsedLine[]): PlanItem[] {
   const root: PlanItem[] = [];
   const stack: { indent: number; items: PlanItem[] }[] = [
@@ -250,6 +722,255 @@ function buildTree(parsed: ParsedLine[]): PlanItem[] {
   return root;
 }
 
+// ---------------------------------------------------------------------------
+// Lenient parsing: ordinary markdown checklists (e.g. a PLAN.md in the repo)
+// ---------------------------------------------------------------------------
+
+const LIST_ITEM_RE = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX~/-])\]\s+)?(.*)$/;
+const HEADING_RE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const CHECKBOX_RE = /^\s*(?:[-*+]|\d+[.)])\s+\[[ xX~/-]\]\s/;
+
+/** The metadata list plans_export writes under the title, recognized by its link line */
+const EXPORT_LINK_RE = /^- CoChat: https?:\/\/\S+$/;
+const EXPORT_HEADER_RE = /^- (Status|CoChat|Updated): /;
+
+/** Headings that just introduce the task list rather than naming a group */
+const GENERIC_TASK_HEADING_RE =
+  /^(tasks?|todos?|to-?do( list)?|checklist|plan|action items|next steps|work items)$/i;
+
+const EXPLICIT_PRIORITY_RE =
+  /(?:\*\*)?\[(HIGH|MED|MEDIUM|LOW)\](?:\*\*)?|\((high|medium|low)(?: priority)?\)|\(?\bP([0-3])\b\)?/i;
+const HIGH_PRIORITY_WORDS_RE = /\b(urgent|critical|blocker|blocking|asap|security|must)\b/i;
+const LOW_PRIORITY_WORDS_RE = /\b(nice to have|optional|later|someday|polish|stretch)\b/i;
+const IN_PROGRESS_RE = /\s*(?:\*\(in progress\)\*|\((?:in progress|wip)\)|\[wip\])/i;
+
+function expandTabs(indent: string): number {
+  return indent.replace(/\t/g, "    ").length;
+}
+
+function parsePriorityToken(match: RegExpMatchArray): PlanItemPriority {
+  const word = (match[1] ?? match[2])?.toUpperCase();
+  if (word) return word === "HIGH" ? "high" : word === "LOW" ? "low" : "medium";
+  // P0/P1 high, P2 medium, P3 low
+  const level = Number(match[3]);
+  return level <= 1 ? "high" : level === 2 ? "medium" : "low";
+}
+
+/** The " — *...*" details suffix planToMarkdown writes after a task */
+const DETAILS_SUFFIX_RE = /\s+— \*((?:(?! — \*).)+)\*\s*$/;
+
+/**
+ * Parse one free-form checklist entry into a plan item, with the outline
+ * number shown on the line (e.g. "2.1") when it has one.
+ */
+function parseLenientItem(
+  checkbox: string | undefined,
+  raw: string,
+  inferPriority: boolean,
+): { item: PlanItem; number?: string } {
+  let text = raw;
+
+  const idMatch = text.match(/<!-- id:(\S+)(?: fields:\S+)? -->/);
+  const id = idMatch ? safeDecode(idMatch[1]) : crypto.randomUUID();
+  const number = text.match(/`#([\d.]+)`/)?.[1];
+  text = text.replace(/<!--.*?-->/g, "").replace(/\s*`#[\d.]+`/, "");
+
+  // Details come last on lines written by planToMarkdown (or plans_export)
+  const detailsMatch = text.match(DETAILS_SUFFIX_RE);
+  const details = parseItemDetails(detailsMatch?.[1]);
+  if (detailsMatch) text = text.slice(0, detailsMatch.index);
+
+  let status: PlanItemStatus = "pending";
+  if (checkbox === "x" || checkbox === "X") status = "completed";
+  else if (checkbox === "/") status = "in_progress";
+  else if (checkbox === "-" || checkbox === "~") status = "cancelled";
+
+  if (IN_PROGRESS_RE.test(text)) {
+    status = "in_progress";
+    text = text.replace(IN_PROGRESS_RE, "");
+  }
+  if (text.includes("~~cancelled~~")) {
+    status = "cancelled";
+    text = text.replace(/\s*~~cancelled~~/, "");
+  }
+  const struck = text.trim().match(/^~~(.+)~~$/);
+  if (struck) {
+    status = "cancelled";
+    text = struck[1];
+  }
+
+  let priority: PlanItemPriority = "medium";
+  const explicit = text.match(EXPLICIT_PRIORITY_RE);
+  if (explicit) {
+    priority = parsePriorityToken(explicit);
+    text = text.replace(EXPLICIT_PRIORITY_RE, "");
+  } else if (inferPriority) {
+    if (HIGH_PRIORITY_WORDS_RE.test(text)) priority = "high";
+    else if (LOW_PRIORITY_WORDS_RE.test(text)) priority = "low";
+  }
+
+  const item: PlanItem = { id, content: text.replace(/\s+/g, " ").trim(), status, priority, ...details };
+  return { item, number };
+}
+
+/** Status of a heading group, rolled up from its tasks. */
+function rollupStatus(items: PlanItem[]): PlanItemStatus {
+  const active = items.filter((i) => i.status !== "cancelled");
+  if (active.length === 0) return items.length > 0 ? "cancelled" : "pending";
+  if (active.every((i) => i.status === "completed")) return "completed";
+  if (active.some((i) => i.status !== "pending")) return "in_progress";
+  return "pending";
+}
+
+function rollupPriority(items: PlanItem[]): PlanItemPriority {
+  if (items.some((i) => i.priority === "high")) return "high";
+  if (items.some((i) => i.priority === "medium")) return "medium";
+  return "low";
+}
+
+interface HeadingNode {
+  level: number;
+  title: string;
+  text: string[];
+  tasks: ParsedLine[];
+  children: HeadingNode[];
+}
+
+function hasTasks(node: HeadingNode): boolean {
+  return node.tasks.length > 0 || node.children.some(hasTasks);
+}
+
+function headingToItems(node: HeadingNode): PlanItem[] {
+  const items = [
+    ...buildTree(node.tasks),
+    ...node.children.filter(hasTasks).flatMap(headingToItems),
+  ];
+  if (node.level === 0 || GENERIC_TASK_HEADING_RE.test(node.title)) return items;
+
+  return [
+    {
+      id: crypto.randomUUID(),
+      content: node.title,
+      status: rollupStatus(items),
+      priority: rollupPriority(items),
+      children: items,
+    },
+  ];
+}
+
+function headingToDescription(node: HeadingNode): string[] {
+  const lines: string[] = [];
+  const text = node.text.join("\n").trim();
+  if (node.level > 0 && (text || !hasTasks(node))) {
+    lines.push(`${"#".repeat(node.level)} ${node.title}`, "");
+  }
+  if (text) lines.push(text, "");
+  for (const child of node.children) lines.push(...headingToDescription(child));
+  return lines;
+}
+
+/**
+ * Parse ordinary markdown into a plan:
+ *   - GFM task lists (`- [ ]`, `* [x]`, `1. [ ]`) become items, nested by
+ *     indentation. Plain bullets count as items only when the document has no
+ *     checkboxes at all.
+ *   - Headings that contain tasks become group items whose status and
+ *     priority roll up from their tasks ("Tasks"/"TODO" headings don't).
+ *   - The first `#` heading is the title; remaining prose is the description.
+ *   - `[x]` done, `[/]` or "(in progress)" in progress, `[-]` or ~~struck~~
+ *     cancelled. Priority comes from `[HIGH]`, `(low)` or `P0`-`P3` tags, or
+ *     optionally from wording.
+ *
+ * Returns null when the document contains no tasks.
+ */
+export function parseLenientPlan(md: string, options: MarkdownToPlanOptions = {}): Plan | null {
+  const lines = md.split("\n");
+  const plainBullets = !lines.some((l) => CHECKBOX_RE.test(l));
+  const exported = lines.some((l) => EXPORT_LINK_RE.test(l));
+
+  const root: HeadingNode = { level: 0, title: "", text: [], tasks: [], children: [] };
+  const stack: HeadingNode[] = [root];
+  const tasks: ParsedLine[] = [];
+  const idsByNumber = new Map<string, string>();
+  let title: string | undefined;
+  let inFence = false;
+
+  for (const line of lines) {
+    const current = stack[stack.length - 1];
+
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (inFence || /^\s*(```|~~~)/.test(line)) {
+      current.text.push(line);
+      continue;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      const level = heading[1].length;
+      const text = heading[2].trim();
+      if (level === 1 && title === undefined) {
+        title = text.replace(/^Plan:\s*/i, "");
+        continue;
+      }
+      if (exported && level === 2 && text === "Feedback") break;
+      if (exported && level === 2 && text === "Overview") {
+        while (stack.length > 1) stack.pop();
+        continue;
+      }
+      while (stack.length > 1 && stack[stack.length - 1].level >= level) stack.pop();
+      const node: HeadingNode = { level, title: text, text: [], tasks: [], children: [] };
+      stack[stack.length - 1].children.push(node);
+      stack.push(node);
+      continue;
+    }
+
+    if (exported && stack.length === 1 && EXPORT_HEADER_RE.test(line)) continue;
+
+    const item = line.match(LIST_ITEM_RE);
+    if (item && (item[2] !== undefined || plainBullets) && item[3].trim()) {
+      const parsed = parseLenientItem(item[2], item[3], options.inferPriority ?? false);
+      const task: ParsedLine = { indent: expandTabs(item[1]), item: parsed.item };
+      if (parsed.number) idsByNumber.set(parsed.number, parsed.item.id);
+      current.tasks.push(task);
+      tasks.push(task);
+      continue;
+    }
+
+    current.text.push(line);
+  }
+
+  resolveDependencies(tasks, idsByNumber);
+  const items = headingToItems(root);
+  if (items.length === 0) return null;
+
+  const description = headingToDescription(root).join("\n").trim();
+  const now = new Date().toISOString();
+
+  return {
+    title: title ?? options.fallbackTitle ?? "Untitled Plan",
+    description: description || undefined,
+    items,
+    metadata: { source: "import", createdAt: now, updatedAt: now },
+  };
+}
+
+/**
+ * Short bracketed status label used when rendering plans as plain text for
+ * the agent (e.g. "[IN PROGRESS]").
+ */
+export function statusIcon(status: PlanItemStatus | string): string {
+  switch (status) {
+    case "completed":
+      return "[DONE]";
+    case "in_progress":
+      return "[IN PROGRESS]";
+    case "cancelled":
+      return "[CANCELLED]";
+    default:
+      return "[PENDING]";
+  }
+}
+
 /**
  * Check if a chat message contains a plan created by this MCP server.
  */
@@ -257,3 +978,11 @@ export function isPlanMessage(content: string | null | undefined): boolean {
   if (!content) return false;
   return content.includes(PLAN_MARKER);
 }
+
+/**
+ * Check if a chat message is an agent reply posted with plans_reply.
+ */
+export function isPlanReply(content: string | null | undefined): boolean {
+  if (!content) return false;
+  return content.includes(PLAN_REPLY_MARKER);
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import type { Plan, PlanItem } from "./plan-format.js";
+import { mermaidGantt, mermaidGraph, statusSummaryTable } from "./plan-render.js";
+
+const items: PlanItem[] = [
+  { id: "db", content: "Migrate users", status: "completed", priority: "high", estimate: "4h" },
+  {
+    id: "api",
+    content: "Build the \"login\" API",
+    status: "in_progress",
+    priority: "high",
+    dependsOn: ["db"],
+    children: [
+      { id: "api-1", content: "Routes", status: "in_progress", priority: "medium", estimate: "1w" },
+      { id: "api-2", content: "Rate limits: per user", status: "pending", priority: "low", due: "2026-02-10", dependsOn: ["api-1"] },
+    ],
+  },
+  { id: "old", content: "Legacy cleanup", status: "cancelled", priority: "low" },
+];
+
+const plan: Plan = {
+  title: "Login: v2",
+  items,
+  metadata: {
+    source: "test-agent",
+    createdAt: "2026-02-01T09:00:00.000Z",
+    updatedAt: "2026-02-02T09:00:00.000Z",
+  },
+};
+
+describe("mermaidGraph", () => {
+  const lines = mermaidGraph(items);
+
+  it("labels nodes with their outline number and escapes quotes", () => {
+    expect(lines.slice(0, 2)).toEqual(["```mermaid", "graph TD"]);
+    expect(lines).toContain('  t2["#2 Build the #quot;login#quot; API"]');
+    expect(lines).toContain('  t2_1["#2.1 Routes"]');
+    expect(lines[lines.length - 1]).toBe("```");
+  });
+
+  it("links subtasks and dependencies", () => {
+    expect(lines).toContain("  t2 -.- t2_1");
+    expect(lines).toContain("  t1 --> t2");
+    expect(lines).toContain("  t2_1 --> t2_2");
+  });
+
+  it("styles nodes by status", () => {
+    expect(lines).toContain("  class t1 completed");
+    expect(lines).toContain("  class t3 cancelled");
+    expect(lines.some((l) => l.startsWith("  class t2_2 "))).toBe(false);
+  });
+});
+
+describe("mermaidGantt", () => {
+  const lines = mermaidGantt(plan);
+
+  it("groups leaf tasks under their top-level task", () => {
+    expect(lines).toContain("  title Login  v2");
+    expect(lines).toContain("  dateFormat YYYY-MM-DD");
+    expect(lines.filter((l) => l.startsWith("  section "))).toEqual([
+      "  section Tasks",
+      '  section Build the "login" API',
+    ]);
+  });
+
+  it("schedules from estimates, dependencies and due dates", () => {
+    expect(lines).toContain("  Migrate users :done, t1, 2026-02-01, 1d");
+    expect(lines).toContain("  Routes :active, t2_1, 2026-02-01, 7d");
+    expect(lines).toContain("  Rate limits  per user :t2_2, after t2_1, 2026-02-10");
+  });
+
+  it("leaves out cancelled tasks", () => {
+    expect(lines.some((l) => l.includes("Legacy cleanup"))).toBe(false);
+  });
+});
+
+describe("statusSummaryTable", () => {
+  it("counts tasks by status with the weighted progress", () => {
+    const lines = statusSummaryTable(items);
+    expect(lines[0]).toMatch(/^\*\*Progress:\*\* \d+% complete/);
+    expect(lines).toContain("| Completed | 1 |");
+    expect(lines).toContain("| In progress | 2 |");
+    expect(lines).toContain("| Cancelled | 1 |");
+    expect(lines).toContain("| **Total** | 5 |");
+  });
+});
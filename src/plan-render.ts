@@ -0,0 +1,153 @@
+import type { Plan, PlanItem } from "./plan-format.js";
+import { planProgress } from "./plan-stats.js";
+
+// ---------------------------------------------------------------------------
+// Optional plan sections: Mermaid diagrams and a status summary table.
+// They are appended after the task list so the checklist parser (and the
+// description, which ends at "## Tasks") never see them.
+// ---------------------------------------------------------------------------
+
+interface OutlineItem {
+  number: string;
+  item: PlanItem;
+  parent?: OutlineItem;
+}
+
+function outline(items: PlanItem[], prefix = "", parent?: OutlineItem): OutlineItem[] {
+  const result: OutlineItem[] = [];
+  items.forEach((item, idx) => {
+    const entry = { number: prefix ? `${prefix}.${idx + 1}` : String(idx + 1), item, parent };
+    result.push(entry, ...outline(item.children ?? [], entry.number, entry));
+  });
+  return result;
+}
+
+/** Mermaid node ID for an outline number ("2.1" -> "t2_1"). */
+function nodeId(number: string): string {
+  return `t${number.replace(/\./g, "_")}`;
+}
+
+// ---------------------------------------------------------------------------
+// Dependency graph
+// ---------------------------------------------------------------------------
+
+const GRAPH_CLASSES = [
+  "  classDef completed fill:#d4edda,stroke:#28a745",
+  "  classDef in_progress fill:#fff3cd,stroke:#ffc107",
+  "  classDef cancelled fill:#eeeeee,stroke:#999999,color:#999999",
+];
+
+/**
+ * A flowchart of the tasks: solid arrows for dependencies (dependency ->
+ * dependent), dotted links from a task to its subtasks, and nodes coloured
+ * by status.
+ */
+export function mermaidGraph(items: PlanItem[]): string[] {
+  const entries = outline(items);
+  const byId = new Map(entries.map((e) => [e.item.id, e]));
+  const lines = ["```mermaid", "graph TD"];
+
+  for (const { number, item } of entries) {
+    const label = `#${number} ${item.content}`.replace(/"/g, "#quot;");
+    lines.push(`  ${nodeId(number)}["${label}"]`);
+  }
+  for (const { number, parent } of entries) {
+    if (parent) lines.push(`  ${nodeId(parent.number)} -.- ${nodeId(number)}`);
+  }
+  for (const { number, item } of entries) {
+    for (const dep of item.dependsOn ?? []) {
+      const target = byId.get(dep);
+      if (target) lines.push(`  ${nodeId(target.number)} --> ${nodeId(number)}`);
+    }
+  }
+  for (const { number, item } of entries) {
+    if (item.status !== "pending") lines.push(`  class ${nodeId(number)} ${item.status}`);
+  }
+
+  lines.push(...GRAPH_CLASSES, "```");
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// Gantt chart
+// ---------------------------------------------------------------------------
+
+/** Turn an estimate like "4h", "2d" or "1w" into whole days (at least one). */
+function estimateDays(estimate: string | undefined): number | null {
+  const match = estimate?.trim().match(/^(\d+(?:\.\d+)?)\s*(h|d|w)/i);
+  if (!match) return null;
+  const amount = Number(match[1]);
+  const unit = match[2].toLowerCase();
+  const days = unit === "h" ? amount / 8 : unit === "w" ? amount * 7 : amount;
+  return Math.max(1, Math.ceil(days));
+}
+
+/**
+ * A Gantt chart of the leaf tasks, one section per top-level task. Tasks
+ * start after their dependencies (or on the plan's creation date) and last
+ * their estimate, or until their due date, or one day. Cancelled tasks are
+ * left out.
+ */
+export function mermaidGantt(plan: Plan): string[] {
+  const entries = outline(plan.items).filter((e) => e.item.status !== "cancelled");
+  const leaves = entries.filter((e) => !e.item.children?.some((c) => c.status !== "cancelled"));
+  const leafIds = new Map(leaves.map((e) => [e.item.id, e]));
+  const start = plan.metadata.createdAt.slice(0, 10);
+
+  const lines = [
+    "```mermaid",
+    "gantt",
+    `  title ${plan.title.replace(/[:;#]/g, " ")}`,
+    "  dateFormat YYYY-MM-DD",
+  ];
+
+  let section: string | undefined;
+  for (const leaf of leaves) {
+    let top = leaf;
+    while (top.parent) top = top.parent;
+    const name = top === leaf ? "Tasks" : top.item.content.replace(/[:;#]/g, " ");
+    if (name !== section) {
+      lines.push(`  section ${name}`);
+      section = name;
+    }
+
+    const { item, number } = leaf;
+    const tags: string[] = [];
+    if (item.status === "completed") tags.push("done");
+    if (item.status === "in_progress") tags.push("active");
+    if (item.priority === "high" && item.status !== "completed") tags.push("crit");
+
+    const deps = (item.dependsOn ?? [])
+      .map((id) => leafIds.get(id))
+      .filter((dep): dep is OutlineItem => dep !== undefined)
+      .map((dep) => nodeId(dep.number));
+    const from = deps.length > 0 ? `after ${deps.join(" ")}` : start;
+    const days = estimateDays(item.estimate);
+    const length = days ? `${days}d` : item.due ?? "1d";
+
+    const task = item.content.replace(/[:;#]/g, " ");
+    lines.push(`  ${task} :${[...tags, nodeId(number), from, length].join(", ")}`);
+  }
+
+  lines.push("```");
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// Status summary table
+// ---------------------------------------------------------------------------
+
+export function statusSummaryTable(items: PlanItem[]): string[] {
+  const { percent, counts } = planProgress(items);
+  return [
+    `**Progress:** ${percent}% complete (weighted by priority)`,
+    "",
+    "| Status | Tasks |",
+    "|---|---|",
+    `| Completed | ${counts.completed} |`,
+    `| In progress | ${counts.in_progress} |`,
+    `| Pending | ${counts.pending} |`,
+    `| Cancelled | ${counts.cancelled} |`,
+    `| **Total** | ${counts.total} |`,
+  ];
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import type { CoChatMessage } from "./cochat-client.js";
+import type { Plan, PlanMetadata } from "./plan-format.js";
+import {
+  computeReviewState,
+  formatReviewSummary,
+  isImplementationAllowed,
+  parseReviewCommand,
+} from "./plan-review.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makePlan(metadata: Partial<PlanMetadata> = {}): Plan {
+  return {
+    title: "Review Plan",
+    items: [],
+    metadata: {
+      source: "coding-agent",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      ...metadata,
+    },
+  };
+}
+
+function reply(email: string, content: string, timestamp = 100): CoChatMessage {
+  return {
+    id: `${email}-${timestamp}`,
+    parentId: null,
+    childrenIds: [],
+    role: "user",
+    content,
+    timestamp,
+    author: { id: email, name: email.split("@")[0], email, timestamp },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("parseReviewCommand", () => {
+  it("parses /approve and /request-changes with trailing comments", () => {
+    expect(parseReviewCommand("/approve")).toEqual({ verdict: "approve", comment: "" });
+    expect(parseReviewCommand("  /Request-Changes: split #2\nand add tests")).toEqual({
+      verdict: "request_changes",
+      comment: "split #2\nand add tests",
+    });
+  });
+
+  it("ignores commands that are not at the start of the message", () => {
+    expect(parseReviewCommand("I would /approve this")).toBeNull();
+    expect(parseReviewCommand("/approved")).toBeNull();
+  });
+});
+
+describe("computeReviewState", () => {
+  it("treats legacy plans without a status as in review", () => {
+    const state = computeReviewState(makePlan(), []);
+    expect(state.status).toBe("in_review");
+    expect(state.requiredApprovals).toBe(1);
+    expect(isImplementationAllowed(state)).toBe(false);
+  });
+
+  it("approves once the required number of reviewers approve", () => {
+    const plan = makePlan({ status: "in_review", requiredApprovals: 2 });
+
+    const one = computeReviewState(plan, [reply("a@x.com", "/approve")]);
+    expect(one.status).toBe("in_review");
+
+    const two = computeReviewState(plan, [reply("a@x.com", "/approve"), reply("b@x.com", "/approve LGTM")]);
+    expect(two.status).toBe("approved");
+    expect(isImplementationAllowed(two)).toBe(true);
+  });
+
+  it("counts each reviewer's latest verdict once", () => {
+    const plan = makePlan({ status: "in_review", requiredApprovals: 2 });
+    const state = computeReviewState(plan, [
+      reply("a@x.com", "/approve", 100),
+      reply("a@x.com", "/approve", 200),
+    ]);
+    expect(state.approvals).toHaveLength(1);
+    expect(state.status).toBe("in_review");
+
+    const changed = computeReviewState(plan, [
+      reply("a@x.com", "/request-changes needs tests", 100),
+      reply("a@x.com", "/approve", 200),
+    ]);
+    expect(changed.changeRequests).toHaveLength(0);
+  });
+
+  it("blocks approval while any reviewer requests changes", () => {
+    const state = computeReviewState(makePlan({ status: "in_review" }), [
+      reply("a@x.com", "/approve"),
+      reply("b@x.com", "/request-changes split task #2"),
+    ]);
+    expect(state.status).toBe("changes_requested");
+    expect(formatReviewSummary(state)).toContain("- Changes requested by b: split task #2");
+  });
+
+  it("only counts invited reviewers when the plan lists them", () => {
+    const state = computeReviewState(makePlan({ reviewers: ["A@x.com"] }), [
+      reply("stranger@x.com", "/approve"),
+    ]);
+    expect(state.status).toBe("in_review");
+
+    const invited = computeReviewState(makePlan({ reviewers: ["A@x.com"] }), [reply("a@x.com", "/approve")]);
+    expect(invited.status).toBe("approved");
+  });
+
+  it("ignores verdicts from before the current review round", () => {
+    const state = computeReviewState(
+      makePlan({ status: "in_review", reviewRequestedAt: new Date(150 * 1000).toISOString() }),
+      [reply("a@x.com", "/request-changes", 100), reply("b@x.com", "/approve", 200)],
+    );
+    expect(state.status).toBe("approved");
+  });
+
+  it("never lets votes override draft or done", () => {
+    expect(computeReviewState(makePlan({ status: "draft" }), [reply("a@x.com", "/approve")]).status).toBe(
+      "draft",
+    );
+    expect(
+      computeReviewState(makePlan({ status: "done" }), [reply("a@x.com", "/request-changes")]).status,
+    ).toBe("done");
+  });
+});
@@ -0,0 +1,163 @@
+import type { CoChatMessage } from "./cochat-client.js";
+import type { Plan, PlanStatus } from "./plan-format.js";
+
+// ---------------------------------------------------------------------------
+// Plan review workflow
+//
+// Reviewers sign off by starting a reply with `/approve`, or block the plan
+// with `/request-changes <what to change>`. Each reviewer's latest verdict in
+// the current review round counts. When the plan lists reviewers, only their
+// replies count; otherwise any human participant can review.
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_REQUIRED_APPROVALS = 1;
+
+export type ReviewVerdict = "approve" | "request_changes";
+
+export interface ReviewVote {
+  /** Normalized reviewer key (email when available) */
+  reviewer: string;
+  /** Display name for output */
+  name: string;
+  verdict: ReviewVerdict;
+  /** Text following the command, if any */
+  comment: string;
+  timestamp: number;
+}
+
+export interface PlanReviewState {
+  status: PlanStatus;
+  requiredApprovals: number;
+  reviewers: string[];
+  approvals: ReviewVote[];
+  changeRequests: ReviewVote[];
+}
+
+const COMMAND_RE = /^\s*\/(approve|request-changes)\b[:\s]*/i;
+
+/**
+ * Parse a review command from the first non-empty line of a message.
+ */
+export function parseReviewCommand(
+  content: string,
+): { verdict: ReviewVerdict; comment: string } | null {
+  const trimmed = content.trimStart();
+  const match = trimmed.match(COMMAND_RE);
+  if (!match) return null;
+
+  return {
+    verdict: match[1].toLowerCase() === "approve" ? "approve" : "request_changes",
+    comment: trimmed.slice(match[0].length).trim(),
+  };
+}
+
+function reviewerKey(msg: CoChatMessage): string {
+  return (msg.author?.email ?? msg.author?.id ?? msg.author?.name ?? "unknown").toLowerCase();
+}
+
+/**
+ * Work out the review status of a plan from its stored status and the
+ * reviewer verdicts in the chat. Draft and done are set explicitly by the
+ * plan author and are never overridden by votes.
+ */
+export function computeReviewState(plan: Plan, messages: CoChatMessage[]): PlanReviewState {
+  const { metadata } = plan;
+  const requiredApprovals = metadata.requiredApprovals ?? DEFAULT_REQUIRED_APPROVALS;
+  const reviewers = (metadata.reviewers ?? []).map((r) => r.toLowerCase());
+  const roundStart = metadata.reviewRequestedAt
+    ? new Date(metadata.reviewRequestedAt).getTime() / 1000
+    : 0;
+
+  // Latest verdict per reviewer (messages are in timestamp order)
+  const latest = new Map<string, ReviewVote>();
+  for (const msg of messages) {
+    if (msg.role !== "user" || msg.timestamp < roundStart) continue;
+    const command = parseReviewCommand(msg.content);
+    if (!command) continue;
+
+    const reviewer = reviewerKey(msg);
+    if (reviewers.length > 0 && !reviewers.includes(reviewer)) continue;
+
+    latest.set(reviewer, {
+      reviewer,
+      name: msg.author?.name ?? reviewer,
+      verdict: command.verdict,
+      comment: command.comment,
+      timestamp: msg.timestamp,
+    });
+  }
+
+  const votes = [...latest.values()];
+  const approvals = votes.filter((v) => v.verdict === "approve");
+  const changeRequests = votes.filter((v) => v.verdict === "request_changes");
+
+  const stored = metadata.status ?? "in_review";
+  let status: PlanStatus;
+  if (stored === "draft" || stored === "done") {
+    status = stored;
+  } else if (changeRequests.length > 0) {
+    status = "changes_requested";
+  } else if (approvals.length >= requiredApprovals) {
+    status = "approved";
+  } else {
+    status = "in_review";
+  }
+
+  return { status, requiredApprovals, reviewers, approvals, changeRequests };
+}
+
+/**
+ * Whether the agent may start (or keep) implementing the plan.
+ */
+export function isImplementationAllowed(state: PlanReviewState): boolean {
+  return state.status === "approved" || state.status === "done";
+}
+
+/**
+ * One-line summary, e.g. "in_review (1/2 approvals)".
+ */
+export function formatReviewStatus(state: PlanReviewState): string {
+  return `${state.status} (${state.approvals.length}/${state.requiredApprovals} approvals)`;
+}
+
+/**
+ * Detailed review summary for tool output.
+ */
+export function formatReviewSummary(state: PlanReviewState): string[] {
+  const lines: string[] = [`**Review status:** ${formatReviewStatus(state)}`];
+
+  if (state.reviewers.length > 0) {
+    lines.push(`**Reviewers:** ${state.reviewers.join(", ")}`);
+  }
+  for (const vote of state.approvals) {
+    lines.push(`- Approved by ${vote.name}${vote.comment ? `: ${vote.comment}` : ""}`);
+  }
+  for (const vote of state.changeRequests) {
+    lines.push(`- Changes requested by ${vote.name}${vote.comment ? `: ${vote.comment}` : ""}`);
+  }
+
+  switch (state.status) {
+    case "draft":
+      lines.push("The plan is a draft. Submit it for review with plans_status before implementing.");
+      break;
+    case "in_review":
+      lines.push(
+        `Waiting for ${state.requiredApprovals - state.approvals.length} more approval(s). ` +
+        "Do not start implementation yet.",
+      );
+      break;
+    case "changes_requested":
+      lines.push(
+        "Changes were requested. Address them with plans_update, then ask the reviewers to /approve again.",
+      );
+      break;
+    case "approved":
+      lines.push("The plan is approved. Implementation may proceed.");
+      break;
+    case "done":
+      lines.push("The plan is done.");
+      break;
+  }
+
+  return lines;
+}
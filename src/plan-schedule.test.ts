@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import type { PlanItem } from "./plan-format.js";
+import { findTasksNeedingAttention, isOverdue, uninvitedAssignees } from "./plan-schedule.js";
+
+const now = new Date("2026-06-15T12:00:00.000Z");
+
+function task(overrides: Partial<PlanItem>): PlanItem {
+  return { id: "t", content: "Task", status: "pending", priority: "medium", ...overrides };
+}
+
+describe("isOverdue", () => {
+  it("counts a date-only due date as due at the end of that day", () => {
+    expect(isOverdue(task({ due: "2026-06-15" }), now)).toBe(false);
+    expect(isOverdue(task({ due: "2026-06-14" }), now)).toBe(true);
+  });
+
+  it("ignores finished tasks and unparseable dates", () => {
+    expect(isOverdue(task({ due: "2026-01-01", status: "completed" }), now)).toBe(false);
+    expect(isOverdue(task({ due: "soon" }), now)).toBe(false);
+  });
+});
+
+describe("findTasksNeedingAttention", () => {
+  it("reports open tasks waiting on unfinished dependencies", () => {
+    const items = [
+      task({ id: "a", content: "A", status: "in_progress" }),
+      task({ id: "b", content: "B", status: "cancelled" }),
+      task({
+        id: "c",
+        content: "C",
+        children: [task({ id: "c1", content: "C1", dependsOn: ["a", "b", "gone"] })],
+      }),
+      task({ id: "d", content: "D", dependsOn: ["b"] }),
+    ];
+
+    const result = findTasksNeedingAttention(items, now);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].task).toMatchObject({ number: "3.1" });
+    expect(result[0].blockedBy.map((d) => d.item.id)).toEqual(["a"]);
+    expect(result[0].overdue).toBe(false);
+  });
+
+  it("reports overdue tasks", () => {
+    const result = findTasksNeedingAttention([task({ due: "2026-06-01" })], now);
+    expect(result).toEqual([expect.objectContaining({ blockedBy: [], overdue: true })]);
+  });
+});
+
+describe("uninvitedAssignees", () => {
+  it("lists assignees missing from the invite list, ignoring case", () => {
+    const items = [
+      task({ assignee: "Alice@Example.com" }),
+      task({ children: [task({ assignee: "bob@example.com" }), task({ assignee: "bob@example.com" })] }),
+    ];
+    expect(uninvitedAssignees(items, ["alice@example.com"])).toEqual(["bob@example.com"]);
+  });
+});
@@ -0,0 +1,65 @@
+import { numberItems, type NumberedItem } from "./feedback-threads.js";
+import type { PlanItem } from "./plan-format.js";
+
+// ---------------------------------------------------------------------------
+// Dependencies, due dates and assignees
+// ---------------------------------------------------------------------------
+
+export interface TaskAttention {
+  task: NumberedItem;
+  /** Unfinished tasks this one depends on */
+  blockedBy: NumberedItem[];
+  overdue: boolean;
+}
+
+function isOpen(item: PlanItem): boolean {
+  return item.status === "pending" || item.status === "in_progress";
+}
+
+/**
+ * Whether an open task is past its due date. Date-only due dates count as
+ * due at the end of that day (UTC).
+ */
+export function isOverdue(item: PlanItem, now: Date = new Date()): boolean {
+  if (!item.due || !isOpen(item)) return false;
+  const due = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(item.due) ? `${item.due}T23:59:59.999Z` : item.due);
+  return !Number.isNaN(due) && due < now.getTime();
+}
+
+/**
+ * Open tasks that are blocked (a dependency is still pending or in progress)
+ * or overdue, in plan order. Cancelled dependencies don't block, and
+ * dependencies on IDs that are no longer in the plan are ignored.
+ */
+export function findTasksNeedingAttention(
+  items: PlanItem[],
+  now: Date = new Date(),
+): TaskAttention[] {
+  const numbered = numberItems(items);
+  const byId = new Map(numbered.map((n) => [n.item.id, n]));
+  const result: TaskAttention[] = [];
+
+  for (const task of numbered) {
+    if (!isOpen(task.item)) continue;
+    const blockedBy = (task.item.dependsOn ?? [])
+      .map((id) => byId.get(id))
+      .filter((dep): dep is NumberedItem => dep !== undefined && isOpen(dep.item));
+    const overdue = isOverdue(task.item, now);
+    if (blockedBy.length > 0 || overdue) result.push({ task, blockedBy, overdue });
+  }
+
+  return result;
+}
+
+/**
+ * Assignees that are not among the invited engineers (compared
+ * case-insensitively), so the agent can point out tasks nobody can see.
+ */
+export function uninvitedAssignees(items: PlanItem[], invited: string[] | undefined): string[] {
+  const known = new Set((invited ?? []).map((e) => e.toLowerCase()));
+  const missing = new Set<string>();
+  for (const { item } of numberItems(items)) {
+    if (item.assignee && !known.has(item.assignee.toLowerCase())) missing.add(item.assignee);
+  }
+  return [...missing];
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import type { CoChatMessage } from "./cochat-client.js";
+import { planToMarkdown, PLAN_REPLY_MARKER, type Plan } from "./plan-format.js";
+import { planSearchDocuments, searchDocuments } from "./plan-search.js";
+
+const plan: Plan = {
+  title: "API hardening",
+  description: "Protect the public API.\n\nWe add a rate limiter in front of the gateway.",
+  items: [
+    {
+      id: "a",
+      content: "Gateway work",
+      status: "pending",
+      priority: "high",
+      children: [{ id: "a1", content: "Add the rate limiter middleware", status: "pending", priority: "high" }],
+    },
+  ],
+  metadata: { source: "test", createdAt: "2026-01-01T00:00:00.000Z", updatedAt: "2026-01-01T00:00:00.000Z" },
+};
+
+function message(id: string, content: string, author?: string): CoChatMessage {
+  return {
+    id,
+    parentId: null,
+    childrenIds: [],
+    role: author ? "user" : "assistant",
+    content,
+    timestamp: 1,
+    ...(author ? { author: { id: "u", name: author, email: `${author}@example.com`, timestamp: 1 } } : {}),
+  };
+}
+
+const messages = [
+  message("plan", planToMarkdown(plan)),
+  message("m1", "Should the rate limiter be per user or per token?", "Alice"),
+  message("m2", `${PLAN_REPLY_MARKER}\nPer token, see #1.1.`),
+];
+
+describe("planSearchDocuments", () => {
+  it("indexes the title, description, numbered tasks and feedback", () => {
+    const docs = planSearchDocuments("chat-1", plan, messages);
+
+    expect(docs.map((d) => [d.kind, d.label])).toEqual([
+      ["title", undefined],
+      ["description", undefined],
+      ["task", "#1"],
+      ["task", "#1.1"],
+      ["feedback", "Alice"],
+      ["feedback", "agent"],
+    ]);
+    expect(docs[5].text).toBe("Per token, see #1.1.");
+  });
+});
+
+describe("searchDocuments", () => {
+  const docs = planSearchDocuments("chat-1", plan, messages);
+
+  it("requires every term and ranks tasks above prose", () => {
+    const hits = searchDocuments(docs, "rate limiter");
+
+    expect(hits.map((h) => h.doc.kind)).toEqual(["task", "description", "feedback"]);
+    expect(hits[0].snippet).toBe("Add the **rate limiter** middleware");
+  });
+
+  it("matches partial words and trims long snippets", () => {
+    const hits = searchDocuments(docs, "gate");
+
+    expect(hits[0].doc).toMatchObject({ kind: "task", label: "#1" });
+    expect(hits[1].snippet).toMatch(/^….*\*\*gate\*\*way\.$/);
+  });
+
+  it("returns nothing for empty or unmatched queries", () => {
+    expect(searchDocuments(docs, "  ")).toEqual([]);
+    expect(searchDocuments(docs, "rate database")).toEqual([]);
+  });
+});
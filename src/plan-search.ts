@@ -0,0 +1,123 @@
+import type { CoChatMessage } from "./cochat-client.js";
+import { numberItems } from "./feedback-threads.js";
+import { isPlanMessage, isPlanReply, type Plan } from "./plan-format.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SearchFieldKind = "title" | "description" | "task" | "feedback";
+
+/** One searchable piece of a plan: its title, description, a task or a message. */
+export interface SearchDocument {
+  chatId: string;
+  planTitle: string;
+  kind: SearchFieldKind;
+  /** "#2.1" for tasks, the author for feedback */
+  label?: string;
+  text: string;
+}
+
+export interface SearchHit {
+  doc: SearchDocument;
+  score: number;
+  snippet: string;
+}
+
+/** Matches in titles count most, then tasks, then prose. */
+const KIND_WEIGHTS: Record<SearchFieldKind, number> = {
+  title: 4,
+  task: 3,
+  description: 1,
+  feedback: 1,
+};
+
+// ---------------------------------------------------------------------------
+// Indexing
+// ---------------------------------------------------------------------------
+
+/**
+ * Split a plan chat into search documents. Every non-plan message counts as
+ * feedback, including the agent's own plans_reply answers.
+ */
+export function planSearchDocuments(
+  chatId: string,
+  plan: Plan,
+  messages: CoChatMessage[],
+): SearchDocument[] {
+  const base = { chatId, planTitle: plan.title };
+  const docs: SearchDocument[] = [{ ...base, kind: "title", text: plan.title }];
+  if (plan.description) docs.push({ ...base, kind: "description", text: plan.description });
+  for (const { number, item } of numberItems(plan.items)) {
+    docs.push({ ...base, kind: "task", label: `#${number}`, text: item.content });
+  }
+  for (const msg of messages) {
+    if (isPlanMessage(msg.content) || !msg.content.trim()) continue;
+    const author = isPlanReply(msg.content) ? "agent" : msg.author?.name ?? msg.author?.email ?? msg.role;
+    docs.push({ ...base, kind: "feedback", label: author, text: msg.content.replace(/<!--.*?-->/g, "").trim() });
+  }
+  return docs;
+}
+
+// ---------------------------------------------------------------------------
+// Matching and ranking
+// ---------------------------------------------------------------------------
+
+function terms(query: string): string[] {
+  return [...new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])];
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  for (let idx = haystack.indexOf(needle); idx >= 0; idx = haystack.indexOf(needle, idx + needle.length)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * A short excerpt around the first match, with the matched term in bold.
+ */
+function makeSnippet(text: string, term: string, radius = 60): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const idx = flat.toLowerCase().indexOf(term);
+  if (idx < 0) return flat.length > radius * 2 ? `${flat.slice(0, radius * 2)}…` : flat;
+
+  const start = Math.max(0, idx - radius);
+  const end = Math.min(flat.length, idx + term.length + radius);
+  return (
+    (start > 0 ? "…" : "") +
+    flat.slice(start, idx) +
+    `**${flat.slice(idx, idx + term.length)}**` +
+    flat.slice(idx + term.length, end) +
+    (end < flat.length ? "…" : "")
+  );
+}
+
+/**
+ * Rank documents against a query. A document must contain every query term
+ * (as a substring, so "limit" finds "rate limiter"). Scores weigh the field
+ * kind, term frequency and whether the whole query appears as a phrase.
+ */
+export function searchDocuments(docs: SearchDocument[], query: string, limit = 10): SearchHit[] {
+  const wanted = terms(query);
+  if (wanted.length === 0) return [];
+  const phrase = query.toLowerCase().replace(/\s+/g, " ").trim();
+
+  const hits: SearchHit[] = [];
+  for (const doc of docs) {
+    const text = doc.text.toLowerCase();
+    const counts = wanted.map((term) => countOccurrences(text, term));
+    if (counts.some((c) => c === 0)) continue;
+
+    const frequency = counts.reduce((sum, c) => sum + Math.min(c, 5), 0);
+    const phraseBonus = wanted.length > 1 && text.replace(/\s+/g, " ").includes(phrase) ? 5 : 0;
+    hits.push({
+      doc,
+      score: KIND_WEIGHTS[doc.kind] * (frequency + phraseBonus),
+      snippet: makeSnippet(doc.text, phraseBonus ? phrase : wanted[0]),
+    });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
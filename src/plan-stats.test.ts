@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import type { PlanRevision } from "./config.js";
+import { planToMarkdown, type PlanItem } from "./plan-format.js";
+import {
+  burndown,
+  combineBurndowns,
+  countStatuses,
+  formatBurndownTrend,
+  planProgress,
+  type BurndownPoint,
+} from "./plan-stats.js";
+
+function task(overrides: Partial<PlanItem>): PlanItem {
+  return { id: "t", content: "Task", status: "pending", priority: "medium", ...overrides };
+}
+
+function revision(revision: number, createdAt: string, items: PlanItem[]): PlanRevision {
+  return {
+    revision,
+    createdAt,
+    source: revision === 1 ? "share" : "update",
+    markdown: planToMarkdown({
+      title: "Stats",
+      items,
+      metadata: { source: "coding-agent", createdAt, updatedAt: createdAt },
+    }),
+  };
+}
+
+describe("planProgress", () => {
+  it("weights completion by priority", () => {
+    const progress = planProgress([
+      task({ priority: "high", status: "completed" }),
+      task({ priority: "low" }),
+    ]);
+    expect(progress.percent).toBe(75);
+  });
+
+  it("averages parents over their children and ignores cancelled tasks", () => {
+    const progress = planProgress([
+      task({
+        priority: "high",
+        children: [
+          task({ priority: "medium", status: "completed" }),
+          task({ priority: "medium" }),
+          task({ priority: "high", status: "cancelled" }),
+        ],
+      }),
+      task({ priority: "high", status: "completed" }),
+    ]);
+    expect(progress.percent).toBe(75);
+  });
+
+  it("counts every item per status", () => {
+    const counts = countStatuses([
+      task({ status: "in_progress", children: [task({ status: "completed" })] }),
+      task({ status: "cancelled" }),
+    ]);
+    expect(counts).toEqual({ pending: 0, in_progress: 1, completed: 1, cancelled: 1, total: 3 });
+  });
+
+  it("reports 0% for an empty plan", () => {
+    expect(planProgress([]).percent).toBe(0);
+  });
+});
+
+describe("burndown", () => {
+  it("tracks open tasks and completion per revision", () => {
+    const points = burndown([
+      revision(1, "2026-01-01T00:00:00.000Z", [task({}), task({})]),
+      revision(2, "2026-01-02T00:00:00.000Z", [task({ status: "completed" }), task({ status: "in_progress" })]),
+    ]);
+
+    expect(points.map((p) => [p.revision, p.source, p.open, p.percent])).toEqual([
+      [1, "share", 2, 0],
+      [2, "update", 1, 50],
+    ]);
+  });
+
+  it("sums plans over time using each plan's latest count", () => {
+    const point = (at: string, open: number) => ({ at, open }) as BurndownPoint;
+    const combined = combineBurndowns([
+      [point("2026-01-01", 4), point("2026-01-03", 1)],
+      [point("2026-01-02", 3)],
+    ]);
+
+    expect(combined).toEqual([
+      { at: "2026-01-01", open: 4 },
+      { at: "2026-01-02", open: 7 },
+      { at: "2026-01-03", open: 4 },
+    ]);
+  });
+
+  it("collapses repeated counts in the trend line", () => {
+    const points = [5, 5, 3, 3, 2].map((open) => ({ open }));
+    expect(formatBurndownTrend(points)).toBe("5 → 3 → 2 open");
+    expect(formatBurndownTrend(points, 2)).toBe("… → 3 → 2 open");
+  });
+});
@@ -0,0 +1,145 @@
+import type { PlanRevision } from "./config.js";
+import { markdownToPlan, type PlanItem, type PlanItemPriority, type PlanItemStatus } from "./plan-format.js";
+
+// ---------------------------------------------------------------------------
+// Progress
+// ---------------------------------------------------------------------------
+
+/** How much a task counts towards completion relative to its siblings. */
+export const PRIORITY_WEIGHTS: Record<PlanItemPriority, number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+export type StatusCounts = Record<PlanItemStatus, number> & { total: number };
+
+export interface PlanProgress {
+  /** Weighted completion, 0-100 */
+  percent: number;
+  counts: StatusCounts;
+}
+
+/**
+ * Completion of a single item (0..1), or null for cancelled items, which
+ * don't count either way. A completed item is done regardless of its
+ * children; otherwise a parent is the priority-weighted average of its
+ * children, so a finished high-priority subtask moves it further than a
+ * low-priority one.
+ */
+function itemCompletion(item: PlanItem): number | null {
+  if (item.status === "cancelled") return null;
+  if (item.status === "completed") return 1;
+  return weightedAverage(item.children ?? []) ?? 0;
+}
+
+function weightedAverage(items: PlanItem[]): number | null {
+  let weight = 0;
+  let done = 0;
+  for (const item of items) {
+    const completion = itemCompletion(item);
+    if (completion === null) continue;
+    weight += PRIORITY_WEIGHTS[item.priority];
+    done += PRIORITY_WEIGHTS[item.priority] * completion;
+  }
+  return weight > 0 ? done / weight : null;
+}
+
+export function countStatuses(items: PlanItem[]): StatusCounts {
+  const counts: StatusCounts = { pending: 0, in_progress: 0, completed: 0, cancelled: 0, total: 0 };
+  const walk = (list: PlanItem[]): void => {
+    for (const item of list) {
+      counts[item.status]++;
+      counts.total++;
+      if (item.children) walk(item.children);
+    }
+  };
+  walk(items);
+  return counts;
+}
+
+export function planProgress(items: PlanItem[]): PlanProgress {
+  return {
+    percent: Math.round((weightedAverage(items) ?? 0) * 100),
+    counts: countStatuses(items),
+  };
+}
+
+export function formatStatusCounts(counts: StatusCounts): string {
+  return (
+    `${counts.completed} completed, ${counts.in_progress} in progress, ` +
+    `${counts.pending} pending, ${counts.cancelled} cancelled`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Burndown
+// ---------------------------------------------------------------------------
+
+export interface BurndownPoint {
+  at: string;
+  revision: number;
+  source: PlanRevision["source"];
+  /** Pending + in progress tasks */
+  open: number;
+  percent: number;
+}
+
+/**
+ * Progress at each recorded revision of a plan, oldest first. Revisions that
+ * can't be parsed are skipped.
+ */
+export function burndown(revisions: PlanRevision[]): BurndownPoint[] {
+  const points: BurndownPoint[] = [];
+  for (const rev of revisions) {
+    const plan = markdownToPlan(rev.markdown);
+    if (!plan) continue;
+    const progress = planProgress(plan.items);
+    points.push({
+      at: rev.createdAt,
+      revision: rev.revision,
+      source: rev.source,
+      open: progress.counts.pending + progress.counts.in_progress,
+      percent: progress.percent,
+    });
+  }
+  return points;
+}
+
+/**
+ * Sum the open task counts of several plans over time: at each revision
+ * timestamp, every plan contributes its latest known open count.
+ */
+export function combineBurndowns(series: BurndownPoint[][]): Array<{ at: string; open: number }> {
+  const events = series
+    .flatMap((points, plan) => points.map((point) => ({ plan, point })))
+    .sort((a, b) => a.point.at.localeCompare(b.point.at));
+
+  const latest = new Map<number, number>();
+  const result: Array<{ at: string; open: number }> = [];
+  for (const { plan, point } of events) {
+    latest.set(plan, point.open);
+    const open = [...latest.values()].reduce((sum, n) => sum + n, 0);
+    const last = result[result.length - 1];
+    if (last && last.at === point.at) {
+      last.open = open;
+    } else {
+      result.push({ at: point.at, open });
+    }
+  }
+  return result;
+}
+
+/**
+ * One-line trend of open task counts, e.g. "8 → 5 → 2 open". Repeated counts
+ * are collapsed and only the most recent `max` changes are shown.
+ */
+export function formatBurndownTrend(points: Array<{ open: number }>, max = 8): string {
+  const values: number[] = [];
+  for (const { open } of points) {
+    if (values[values.length - 1] !== open) values.push(open);
+  }
+  const shown = values.slice(-max);
+  const prefix = values.length > shown.length ? "… → " : "";
+  return `${prefix}${shown.join(" → ")} open`;
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest";
+import type { PlanItem } from "./plan-format.js";
+import { snapshotItems } from "./plan-diff.js";
+import { contentSimilarity, mergePlanItems, mergeTodos } from "./plan-sync.js";
+
+const remote: PlanItem[] = [
+  { id: "a", content: "Add the login endpoint", status: "pending", priority: "high" },
+  {
+    id: "b",
+    content: "Session storage",
+    status: "pending",
+    priority: "medium",
+    children: [{ id: "b1", content: "Write Redis adapter", status: "pending", priority: "medium" }],
+  },
+];
+
+describe("contentSimilarity", () => {
+  it("scores word overlap regardless of case and punctuation", () => {
+    expect(contentSimilarity("Add the login endpoint", "add the LOGIN endpoint!")).toBe(1);
+    expect(contentSimilarity("Add login endpoint", "Add the login endpoint")).toBe(0.75);
+    expect(contentSimilarity("Write docs", "Fix CI")).toBe(0);
+  });
+});
+
+describe("mergeTodos", () => {
+  it("matches by ID, including nested items", () => {
+    const result = mergeTodos(remote, [
+      { id: "b1", content: "Write Redis adapter", status: "completed" },
+    ]);
+
+    expect(result.items[1].children![0].status).toBe("completed");
+    expect(result.todos[0]).toMatchObject({ id: "b1", match: "id" });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("matches by similar content and keeps the remote wording", () => {
+    const result = mergeTodos(remote, [{ content: "Add login endpoint", status: "in_progress" }]);
+
+    expect(result.items[0]).toMatchObject({ content: "Add the login endpoint", status: "in_progress" });
+    expect(result.todos[0]).toMatchObject({ id: "a", match: "content" });
+  });
+
+  it("appends todos that match nothing", () => {
+    const result = mergeTodos(remote, [{ id: "c", content: "Update the changelog", status: "pending" }]);
+
+    expect(result.items).toHaveLength(3);
+    expect(result.items[2]).toMatchObject({ id: "c", priority: "medium" });
+    expect(result.todos[0].match).toBe("new");
+  });
+
+  it("does not modify the remote items", () => {
+    mergeTodos(remote, [{ id: "a", content: "Add the login endpoint", status: "completed" }]);
+    expect(remote[0].status).toBe("pending");
+  });
+
+  it("reports open remote items missing from the todo list", () => {
+    const result = mergeTodos(remote, [{ id: "a", content: "Add the login endpoint", status: "pending" }]);
+    expect(result.remoteOnly.map((i) => i.id)).toEqual(["b", "b1"]);
+  });
+
+  describe("without a base", () => {
+    it("keeps a remote cancellation and reports it", () => {
+      const cancelled = [{ ...remote[0], status: "cancelled" as const }];
+      const result = mergeTodos(cancelled, [
+        { id: "a", content: "Add the login endpoint", status: "in_progress" },
+      ]);
+
+      expect(result.items[0].status).toBe("cancelled");
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({ kind: "cancelled_remotely", local: "in_progress", kept: "cancelled" }),
+      ]);
+    });
+
+    it("only moves status forward", () => {
+      const done = [{ ...remote[0], status: "completed" as const }];
+      const result = mergeTodos(done, [{ id: "a", content: "Add the login endpoint", status: "pending" }]);
+
+      expect(result.items[0].status).toBe("completed");
+      expect(result.conflicts[0]).toMatchObject({ kind: "status", remote: "completed" });
+    });
+  });
+
+  describe("with a base", () => {
+    const base = snapshotItems(remote);
+
+    it("takes whichever side changed a field", () => {
+      const edited = [{ ...remote[0], priority: "low" as const }, remote[1]];
+      const result = mergeTodos(edited, [
+        { id: "a", content: "Add the login endpoint", status: "completed", priority: "high" },
+      ], base);
+
+      expect(result.items[0]).toMatchObject({ status: "completed", priority: "low" });
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it("keeps the remote value when both sides changed a field", () => {
+      const edited = [{ ...remote[0], content: "Add the OAuth login endpoint" }, remote[1]];
+      const result = mergeTodos(edited, [{ id: "a", content: "Add login + logout endpoints", status: "pending" }], base);
+
+      expect(result.items[0].content).toBe("Add the OAuth login endpoint");
+      expect(result.conflicts[0]).toMatchObject({ kind: "content", local: "Add login + logout endpoints" });
+    });
+
+    it("reports a cancellation of a task the agent started", () => {
+      const edited = [{ ...remote[0], status: "cancelled" as const }, remote[1]];
+      const result = mergeTodos(edited, [{ id: "a", content: "Add the login endpoint", status: "in_progress" }], base);
+
+      expect(result.items[0].status).toBe("cancelled");
+      expect(result.conflicts[0].kind).toBe("cancelled_remotely");
+    });
+
+    it("does not re-add tasks an engineer removed", () => {
+      const result = mergeTodos([remote[1]], [{ id: "a", content: "Add the login endpoint", status: "in_progress" }], base);
+
+      expect(result.items).toHaveLength(1);
+      expect(result.todos[0]).toMatchObject({ id: null, match: "removed" });
+      expect(result.conflicts[0]).toMatchObject({ kind: "removed_remotely", itemId: "a" });
+    });
+  });
+});
+
+describe("mergePlanItems", () => {
+  const base = snapshotItems(remote);
+
+  it("merges field changes from both sides", () => {
+    const ours = [{ ...remote[0], status: "completed" as const }, remote[1]];
+    const theirs = [{ ...remote[0], priority: "low" as const }, remote[1]];
+
+    const result = mergePlanItems(base, ours, theirs);
+
+    expect(result.items[0]).toMatchObject({ status: "completed", priority: "low" });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("merges task details and reports conflicting ones", () => {
+    const ours = [{ ...remote[0], due: "2026-12-01", assignee: "bob@example.com" }, remote[1]];
+    const theirs = [{ ...remote[0], assignee: "alice@example.com", dependsOn: ["b"] }, remote[1]];
+
+    const result = mergePlanItems(base, ours, theirs);
+
+    expect(result.items[0]).toMatchObject({
+      due: "2026-12-01",
+      assignee: "alice@example.com",
+      dependsOn: ["b"],
+    });
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ kind: "assignee", local: "bob@example.com", kept: "alice@example.com" }),
+    ]);
+  });
+
+  it("keeps additions from both sides, nesting ours under their parent", () => {
+    const ours = [
+      remote[0],
+      { ...remote[1], children: [...remote[1].children!, { id: "b2", content: "Mine", status: "pending" as const, priority: "low" as const }] },
+    ];
+    const theirs = [...remote, { id: "c", content: "Theirs", status: "pending" as const, priority: "low" as const }];
+
+    const result = mergePlanItems(base, ours, theirs);
+
+    expect(result.items.map((i) => i.id)).toEqual(["a", "b", "c"]);
+    expect(result.items[1].children!.map((i) => i.id)).toEqual(["b1", "b2"]);
+  });
+
+  it("applies untouched deletions and flags deletions of edited items", () => {
+    const ours = [remote[1]];
+    const theirs = [
+      remote[0],
+      { ...remote[1], children: [{ ...remote[1].children![0], status: "completed" as const }] },
+    ];
+    const dropped = mergePlanItems(base, ours, theirs);
+    expect(dropped.items.map((i) => i.id)).toEqual(["b"]);
+
+    const edited = mergePlanItems(base, ours, [{ ...remote[0], content: "Edited" }, remote[1]]);
+    expect(edited.items.map((i) => i.id)).toEqual(["a", "b"]);
+    expect(edited.conflicts[0]).toMatchObject({ kind: "removed_locally", itemId: "a" });
+  });
+
+  it("matches items by content when every parse gave them new IDs", () => {
+    const legacy = (prefix: string, overrides: Partial<PlanItem>[] = []): PlanItem[] =>
+      ["Write schema", "Add endpoint"].map((content, i) => ({
+        id: `${prefix}${i}`,
+        content,
+        status: "pending" as const,
+        priority: "medium" as const,
+        ...overrides[i],
+      }));
+    const legacyBase = snapshotItems(legacy("base-"));
+    const ours = legacy("ours-", [{ status: "completed" }]);
+    const theirs = legacy("theirs-", [{}, { priority: "high" }]);
+
+    const result = mergePlanItems(legacyBase, ours, theirs);
+
+    expect(result.items).toEqual([
+      expect.objectContaining({ id: "theirs-0", content: "Write schema", status: "completed" }),
+      expect.objectContaining({ id: "theirs-1", content: "Add endpoint", priority: "high" }),
+    ]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("does not re-add items deleted in CoChat", () => {
+    const ours = [{ ...remote[0], status: "in_progress" as const }, remote[1]];
+
+    const result = mergePlanItems(base, ours, [remote[1]]);
+
+    expect(result.items.map((i) => i.id)).toEqual(["b"]);
+    expect(result.conflicts[0]).toMatchObject({ kind: "removed_remotely", itemId: "a" });
+  });
+});
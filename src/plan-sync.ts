@@ -0,0 +1,454 @@
+import type { PlanItemSnapshot } from "./config.js";
+import { DETAIL_FIELDS, fieldText, type PlanItemField } from "./plan-diff.js";
+import type { PlanItem, PlanItemPriority, PlanItemStatus } from "./plan-format.js";
+import type { TodoItemInput } from "./schemas.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SyncConflictKind =
+  | "cancelled_remotely"
+  | "status"
+  | "content"
+  | "priority"
+  | "removed_remotely"
+  | "removed_locally"
+  | (typeof DETAIL_FIELDS)[number];
+
+export interface SyncConflict {
+  kind: SyncConflictKind;
+  itemId: string;
+  content: string;
+  local: string;
+  remote: string;
+  /** The value the merged plan keeps */
+  kept: string;
+}
+
+/** Where a local todo ended up in the merged plan. */
+export interface SyncedTodo {
+  /** Plan item ID, or null when the item was removed in CoChat */
+  id: string | null;
+  content: string;
+  status: PlanItemStatus;
+  priority: PlanItemPriority;
+  /** How the todo was matched to a remote item */
+  match: "id" | "content" | "new" | "removed";
+}
+
+export interface PlanSyncResult {
+  items: PlanItem[];
+  todos: SyncedTodo[];
+  conflicts: SyncConflict[];
+  /** Open remote items that match no local todo */
+  remoteOnly: PlanItem[];
+}
+
+// ---------------------------------------------------------------------------
+// Content similarity
+// ---------------------------------------------------------------------------
+
+/** Minimum similarity for a local todo to match a remote item by content. */
+export const SIMILARITY_THRESHOLD = 0.6;
+
+function tokens(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+}
+
+/**
+ * Jaccard similarity of the word sets of two task texts (0..1). Agents tend
+ * to reword tasks slightly ("Add tests" vs "Add unit tests"), so exact
+ * matching alone misses most pairs.
+ */
+export function contentSimilarity(a: string, b: string): number {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (ta.size === 0 && tb.size === 0) return a.trim() === b.trim() ? 1 : 0;
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  return shared / (ta.size + tb.size - shared);
+}
+
+// ---------------------------------------------------------------------------
+// Merge
+// ---------------------------------------------------------------------------
+
+const STATUS_RANK: Record<PlanItemStatus, number> = {
+  pending: 0,
+  in_progress: 1,
+  completed: 2,
+  cancelled: 2,
+};
+
+function cloneItems(items: PlanItem[]): PlanItem[] {
+  return items.map((item) => ({
+    ...item,
+    ...(item.children ? { children: cloneItems(item.children) } : {}),
+  }));
+}
+
+function flatten(items: PlanItem[]): PlanItem[] {
+  const result: PlanItem[] = [];
+  const walk = (list: PlanItem[]): void => {
+    for (const item of list) {
+      result.push(item);
+      if (item.children) walk(item.children);
+    }
+  };
+  walk(items);
+  return result;
+}
+
+function bestMatch<T extends { content: string }>(
+  content: string,
+  candidates: Iterable<T>,
+): T | undefined {
+  let best: T | undefined;
+  let bestScore = SIMILARITY_THRESHOLD;
+  for (const candidate of candidates) {
+    const score = contentSimilarity(content, candidate.content);
+    if (score >= bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Merge the agent's todo list into the remote plan items.
+ *
+ * Todos are matched to remote items by ID, then by content similarity. When
+ * `base` (the items as the agent last pushed them) is given, each field is a
+ * three-way merge: a side that changed the field from the base wins, and when
+ * both sides changed it the remote value is kept and a conflict reported.
+ * Without a base, status only moves forward and a remote cancellation always
+ * wins. Todos that match nothing are appended as new items unless they match
+ * a base item an engineer has since deleted. Remote items are never removed.
+ */
+export function mergeTodos(
+  remote: PlanItem[],
+  todos: TodoItemInput[],
+  base?: PlanItemSnapshot[],
+): PlanSyncResult {
+  const items = cloneItems(remote);
+  const flat = flatten(items);
+  const unmatched = new Map(flat.map((item) => [item.id, item]));
+  const baseById = new Map((base ?? []).map((b) => [b.id, b]));
+  const conflicts: SyncConflict[] = [];
+  const synced: SyncedTodo[] = [];
+
+  for (const todo of todos) {
+    let target = todo.id ? unmatched.get(todo.id) : undefined;
+    const match: SyncedTodo["match"] = target ? "id" : "content";
+    target ??= bestMatch(todo.content, unmatched.values());
+
+    if (!target) {
+      const removed = base
+        ? (todo.id ? baseById.get(todo.id) : undefined) ?? bestMatch(todo.content, baseById.values())
+        : undefined;
+      if (removed && !flat.some((item) => item.id === removed.id)) {
+        conflicts.push({
+          kind: "removed_remotely",
+          itemId: removed.id,
+          content: todo.content,
+          local: todo.status,
+          remote: "removed",
+          kept: "removed",
+        });
+        synced.push({
+          id: null,
+          content: todo.content,
+          status: todo.status,
+          priority: todo.priority ?? "medium",
+          match: "removed",
+        });
+        continue;
+      }
+
+      const added: PlanItem = {
+        id: todo.id ?? crypto.randomUUID(),
+        content: todo.content,
+        status: todo.status,
+        priority: todo.priority ?? "medium",
+      };
+      items.push(added);
+      synced.push({ ...added, match: "new" });
+      continue;
+    }
+
+    unmatched.delete(target.id);
+    const prev = baseById.get(target.id);
+
+    // Content matches already agree closely enough; keep the remote wording
+    if (match === "id") mergeField(target, "content", todo.content, prev, conflicts);
+    mergeField(target, "status", todo.status, prev, conflicts);
+    if (todo.priority) mergeField(target, "priority", todo.priority, prev, conflicts);
+
+    synced.push({
+      id: target.id,
+      content: target.content,
+      status: target.status,
+      priority: target.priority,
+      match,
+    });
+  }
+
+  const remoteOnly = [...unmatched.values()].filter(
+    (item) => item.status === "pending" || item.status === "in_progress",
+  );
+
+  return { items, todos: synced, conflicts, remoteOnly };
+}
+
+/** Copy items with their IDs (and dependency references) renamed. */
+function renameItems(items: PlanItem[], ids: Map<string, string>): PlanItem[] {
+  if (ids.size === 0) return items;
+  return items.map((item) => ({
+    ...item,
+    id: ids.get(item.id) ?? item.id,
+    ...(item.dependsOn ? { dependsOn: item.dependsOn.map((dep) => ids.get(dep) ?? dep) } : {}),
+    ...(item.children ? { children: renameItems(item.children, ids) } : {}),
+  }));
+}
+
+/**
+ * Rename items whose ID is not among `known` to the ID of a not yet matched
+ * candidate with identical content, like diffPlanItems. Plans shared before
+ * IDs were embedded get new IDs on every parse, so this is the only way the
+ * same task lines up across versions.
+ */
+function alignByContent<T extends { id: string; content: string }>(
+  items: T[],
+  known: Set<string>,
+  candidates: Array<{ id: string; content: string }>,
+): Map<string, string> {
+  const ids = new Map<string, string>();
+  const claimed = new Set(items.map((item) => item.id).filter((id) => known.has(id)));
+  for (const item of items) {
+    if (known.has(item.id)) continue;
+    const match = candidates.find((c) => !claimed.has(c.id) && c.content === item.content);
+    if (match) {
+      ids.set(item.id, match.id);
+      claimed.add(match.id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Three-way merge of two versions of a plan's items that diverged from
+ * `base`: `ours` is what the agent wants to push, `theirs` the current remote
+ * items. Items are matched by ID, falling back to identical content for IDs
+ * the other versions don't know, and merged field by field like mergeTodos;
+ * the remote tree structure is kept. Items added on either side are kept
+ * (ours under their parent when it still exists). A deletion on one side
+ * wins when the other side left the item untouched; otherwise the item is
+ * kept (or stays removed) and a conflict is reported.
+ */
+export function mergePlanItems(
+  base: PlanItemSnapshot[],
+  ours: PlanItem[],
+  theirs: PlanItem[],
+): { items: PlanItem[]; conflicts: SyncConflict[] } {
+  // Base items take the remote ID of their match, ours take the remote or base ID
+  const theirIds = new Set(flatten(theirs).map((item) => item.id));
+  const baseIds = alignByContent(base, theirIds, flatten(theirs));
+  base = base.map((b) => (baseIds.has(b.id) ? { ...b, id: baseIds.get(b.id)! } : b));
+  const knownIds = new Set([...theirIds, ...base.map((b) => b.id)]);
+  ours = renameItems(ours, alignByContent(flatten(ours), knownIds, [...base, ...flatten(theirs)]));
+
+  const baseById = new Map(base.map((b) => [b.id, b]));
+  const oursById = new Map(flatten(ours).map((item) => [item.id, item]));
+  const merged = new Map<string, PlanItem>();
+  const conflicts: SyncConflict[] = [];
+
+  const fields: PlanItemField[] = ["content", "status", "priority", ...DETAIL_FIELDS];
+  const unchanged = (b: PlanItemSnapshot, item: PlanItem): boolean =>
+    fields.every((f) => fieldText(b, f) === fieldText(item, f));
+
+  const mergeList = (list: PlanItem[]): PlanItem[] => {
+    const result: PlanItem[] = [];
+    for (const theirItem of list) {
+      const ourItem = oursById.get(theirItem.id);
+      const prev = baseById.get(theirItem.id);
+      const next: PlanItem = { ...theirItem };
+      delete next.children;
+
+      if (!ourItem) {
+        // Dropped by the agent; honour that unless an engineer edited it since.
+        // Children still in play move up a level.
+        if (prev && unchanged(prev, theirItem)) {
+          if (theirItem.children) result.push(...mergeList(theirItem.children));
+          continue;
+        }
+        if (prev) {
+          conflicts.push({
+            kind: "removed_locally",
+            itemId: theirItem.id,
+            content: theirItem.content,
+            local: "removed",
+            remote: theirItem.status,
+            kept: theirItem.status,
+          });
+        }
+      } else {
+        mergeField(next, "content", ourItem.content, prev, conflicts);
+        mergeField(next, "status", ourItem.status, prev, conflicts);
+        mergeField(next, "priority", ourItem.priority, prev, conflicts);
+        for (const field of DETAIL_FIELDS) mergeDetail(next, field, ourItem, prev, conflicts);
+      }
+
+      merged.set(next.id, next);
+      if (theirItem.children) {
+        const children = mergeList(theirItem.children);
+        if (children.length > 0) next.children = children;
+      }
+      result.push(next);
+    }
+    return result;
+  };
+
+  const items = mergeList(theirs);
+
+  const addOurs = (list: PlanItem[], parent?: PlanItem): void => {
+    for (const ourItem of list) {
+      if (!merged.has(ourItem.id)) {
+        const prev = baseById.get(ourItem.id);
+        if (prev) {
+          // Deleted in CoChat; stays deleted unless the agent changed it
+          if (!unchanged(prev, ourItem)) {
+            conflicts.push({
+              kind: "removed_remotely",
+              itemId: ourItem.id,
+              content: ourItem.content,
+              local: ourItem.status,
+              remote: "removed",
+              kept: "removed",
+            });
+          }
+          continue;
+        }
+        const added: PlanItem = { ...ourItem };
+        delete added.children;
+        const target = parent ? merged.get(parent.id) : undefined;
+        if (target) {
+          target.children = [...(target.children ?? []), added];
+        } else {
+          items.push(added);
+        }
+        merged.set(added.id, added);
+      }
+      if (ourItem.children) addOurs(ourItem.children, ourItem);
+    }
+  };
+  addOurs(ours);
+
+  return { items, conflicts };
+}
+
+/**
+ * Three-way merge of an optional detail field (assignee, due, ...). Lists
+ * compare by content. Items missing from the base take the agent's value.
+ */
+function mergeDetail(
+  target: PlanItem,
+  field: (typeof DETAIL_FIELDS)[number],
+  ours: PlanItem,
+  base: PlanItemSnapshot | undefined,
+  conflicts: SyncConflict[],
+): void {
+  const local = fieldText(ours, field);
+  const remote = fieldText(target, field);
+  if (local === remote) return;
+
+  if (!base || fieldText(base, field) === remote) {
+    if (ours[field] === undefined) {
+      delete target[field];
+    } else {
+      Object.assign(target, { [field]: ours[field] });
+    }
+  } else if (local !== fieldText(base, field)) {
+    conflicts.push({
+      kind: field,
+      itemId: target.id,
+      content: target.content,
+      local: local || "none",
+      remote: remote || "none",
+      kept: remote || "none",
+    });
+  }
+}
+
+function mergeField<K extends "content" | "status" | "priority">(
+  target: PlanItem,
+  field: K,
+  local: PlanItem[K],
+  base: PlanItemSnapshot | undefined,
+  conflicts: SyncConflict[],
+): void {
+  const remote = target[field];
+  if (local === remote) return;
+
+  const conflict = (kind: SyncConflictKind): void => {
+    conflicts.push({
+      kind,
+      itemId: target.id,
+      content: target.content,
+      local: String(local),
+      remote: String(remote),
+      kept: String(remote),
+    });
+  };
+
+  if (base) {
+    const original = base[field];
+    if (remote === original) {
+      target[field] = local;
+    } else if (local !== original) {
+      conflict(field === "status" && remote === "cancelled" ? "cancelled_remotely" : field);
+    }
+    return;
+  }
+
+  if (field === "status") {
+    const localStatus = local as PlanItemStatus;
+    const remoteStatus = remote as PlanItemStatus;
+    if (remoteStatus === "cancelled") {
+      conflict("cancelled_remotely");
+    } else if (STATUS_RANK[localStatus] > STATUS_RANK[remoteStatus]) {
+      target.status = localStatus;
+    } else {
+      conflict("status");
+    }
+    return;
+  }
+
+  target[field] = local;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/**
+ * Render a conflict as a markdown bullet. `localLabel` names the agent's side
+ * (e.g. "your todo list").
+ */
+export function formatConflict(conflict: SyncConflict, localLabel: string): string {
+  const task = `"${conflict.content}" (id: ${conflict.itemId})`;
+  switch (conflict.kind) {
+    case "cancelled_remotely":
+      return `- ${task}: cancelled in CoChat but ${conflict.local} in ${localLabel}. Kept: cancelled.`;
+    case "removed_remotely":
+      return `- ${task}: removed from the plan in CoChat but ${conflict.local} in ${localLabel}. Not re-added.`;
+    case "removed_locally":
+      return `- ${task}: missing from ${localLabel} but edited in CoChat. Kept it.`;
+    default:
+      return (
+        `- ${task}: ${conflict.kind} is "${conflict.remote}" in CoChat but "${conflict.local}" ` +
+        `in ${localLabel}. Kept: "${conflict.kept}".`
+      );
+  }
+}
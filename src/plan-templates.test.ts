@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import type { PlanItem } from "./plan-format.js";
+import {
+  availableTemplates,
+  BUILTIN_TEMPLATES,
+  folderTemplates,
+  mergeTemplateDescription,
+  mergeTemplateItems,
+  type PlanTemplate,
+} from "./plan-templates.js";
+
+const custom: PlanTemplate = {
+  name: "migration",
+  summary: "Our migration checklist",
+  items: [{ id: "m1", content: "Announce the freeze", status: "pending", priority: "high" }],
+};
+
+describe("folderTemplates", () => {
+  it("reads templates from folder data and skips malformed entries", () => {
+    const data = { system_prompt: "Be brief", plan_templates: { migration: custom, broken: { name: 1 } } };
+    expect(folderTemplates(data)).toEqual([custom]);
+    expect(folderTemplates(null)).toEqual([]);
+  });
+});
+
+describe("availableTemplates", () => {
+  it("lets project templates override local ones and local ones override built-ins", () => {
+    const local = { ...custom, summary: "Local version" };
+
+    const fromLocal = availableTemplates([], [local]).find((t) => t.name === "migration");
+    expect(fromLocal).toMatchObject({ source: "local", summary: "Local version" });
+
+    const all = availableTemplates([custom], [local]);
+    expect(all.find((t) => t.name === "migration")).toMatchObject({ source: "project", summary: "Our migration checklist" });
+    expect(all).toHaveLength(BUILTIN_TEMPLATES.length);
+  });
+});
+
+describe("mergeTemplateDescription", () => {
+  const template = "## Goal\n\n_What and why._\n\n## Rollback\n\n_How to undo it._";
+
+  it("fills the template's sections with the agent's, in the template's order", () => {
+    const merged = mergeTemplateDescription(
+      template,
+      "Intro.\n\n## Risks\n\nNone known.\n\n## Goal\n\nFaster logins.",
+    );
+
+    expect(merged).toBe(
+      "Intro.\n\n## Goal\n\nFaster logins.\n\n## Rollback\n\n_How to undo it._\n\n## Risks\n\nNone known.",
+    );
+  });
+
+  it("matches headings case-insensitively and handles missing sides", () => {
+    expect(mergeTemplateDescription(template, "## goal\n\nX")).toContain("## Goal\n\nX");
+    expect(mergeTemplateDescription(undefined, "Mine")).toBe("Mine");
+    expect(mergeTemplateDescription(template, undefined)).toBe(template);
+  });
+});
+
+describe("mergeTemplateItems", () => {
+  const template: PlanItem[] = [
+    { id: "flag", content: "Add the feature flag", status: "pending", priority: "high" },
+    {
+      id: "rollout",
+      content: "Roll out gradually",
+      status: "pending",
+      priority: "medium",
+      children: [{ id: "rollout-10", content: "Enable for 10% of users", status: "pending", priority: "medium" }],
+    },
+  ];
+
+  it("replaces template tasks the agent covered by ID or wording and appends the rest", () => {
+    const result = mergeTemplateItems(template, [
+      { id: "a", content: "Add the feature flag login-v2", status: "in_progress", priority: "high" },
+      { id: "rollout-10", content: "Enable for staff first", status: "pending", priority: "low" },
+      { id: "b", content: "Write the login page", status: "pending", priority: "medium" },
+    ]);
+
+    expect(result.items.map((i) => i.id)).toEqual(["a", "rollout", "b"]);
+    expect(result.items[0].status).toBe("in_progress");
+    expect(result.items[1].children).toEqual([
+      { id: "rollout-10", content: "Enable for staff first", status: "pending", priority: "low" },
+    ]);
+    expect(result.fromTemplate).toBe(1);
+  });
+
+  it("keeps the template's subtasks when the agent's task has none", () => {
+    const result = mergeTemplateItems(template, [
+      { id: "rollout", content: "Roll out to everyone", status: "pending", priority: "high" },
+    ]);
+
+    expect(result.items[1]).toMatchObject({ content: "Roll out to everyone", priority: "high" });
+    expect(result.items[1].children).toHaveLength(1);
+    expect(result.fromTemplate).toBe(2);
+  });
+});
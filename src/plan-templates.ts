@@ -0,0 +1,269 @@
+import type { PlanItem } from "./plan-format.js";
+import { contentSimilarity, SIMILARITY_THRESHOLD } from "./plan-sync.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PlanTemplateSource = "builtin" | "local" | "project";
+
+/**
+ * A reusable plan shape: description sections with guidance to fill in and
+ * the tasks this kind of work always needs.
+ */
+export interface PlanTemplate {
+  name: string;
+  /** One line on when to use the template */
+  summary: string;
+  /** Markdown with "## Section" headings; plans_share fills them in */
+  description?: string;
+  items: PlanItem[];
+  updatedAt?: string;
+}
+
+export interface ResolvedTemplate extends PlanTemplate {
+  source: PlanTemplateSource;
+}
+
+/** Key under the project folder's `data` (next to `system_prompt`). */
+export const FOLDER_TEMPLATES_KEY = "plan_templates";
+
+// ---------------------------------------------------------------------------
+// Built-in templates
+// ---------------------------------------------------------------------------
+
+function task(id: string, content: string, priority: PlanItem["priority"] = "medium"): PlanItem {
+  return { id, content, status: "pending", priority };
+}
+
+export const BUILTIN_TEMPLATES: PlanTemplate[] = [
+  {
+    name: "feature-rollout",
+    summary: "Ship a feature behind a flag and roll it out gradually",
+    description: [
+      "## Goal",
+      "",
+      "_What the feature does and who it is for._",
+      "",
+      "## Rollout",
+      "",
+      "_Flag name, rollout stages and the metrics that gate each stage._",
+      "",
+      "## Rollback",
+      "",
+      "_How to turn it off and what state needs cleaning up._",
+    ].join("\n"),
+    items: [
+      task("rollout-flag", "Add the feature flag (off by default)", "high"),
+      task("rollout-metrics", "Add metrics and alerts for the new code path"),
+      task("rollout-staging", "Enable on staging and verify"),
+      task("rollout-gradual", "Roll out gradually to production", "high"),
+      task("rollout-cleanup", "Remove the flag once fully rolled out", "low"),
+    ],
+  },
+  {
+    name: "incident-follow-up",
+    summary: "Follow-up actions after an incident",
+    description: [
+      "## Summary",
+      "",
+      "_What happened, impact and duration._",
+      "",
+      "## Root Cause",
+      "",
+      "_Why it happened, not just what broke._",
+      "",
+      "## Prevention",
+      "",
+      "_What stops it from happening again._",
+    ].join("\n"),
+    items: [
+      task("incident-fix", "Fix the root cause", "high"),
+      task("incident-test", "Add a regression test", "high"),
+      task("incident-alert", "Improve detection and alerting"),
+      task("incident-runbook", "Update the runbook"),
+      task("incident-postmortem", "Share the postmortem", "low"),
+    ],
+  },
+  {
+    name: "migration",
+    summary: "Move data or callers from an old system to a new one",
+    description: [
+      "## Scope",
+      "",
+      "_What moves, and what stays._",
+      "",
+      "## Approach",
+      "",
+      "_Dual writes, backfill, cutover order._",
+      "",
+      "## Rollback",
+      "",
+      "_How to go back at each step._",
+    ].join("\n"),
+    items: [
+      task("migration-dual-write", "Write to both old and new", "high"),
+      task("migration-backfill", "Backfill existing data", "high"),
+      task("migration-verify", "Verify the new data matches the old"),
+      task("migration-cutover", "Switch reads to the new system", "high"),
+      task("migration-decommission", "Decommission the old system", "low"),
+    ],
+  },
+  {
+    name: "refactor",
+    summary: "Restructure code without changing behaviour",
+    description: [
+      "## Motivation",
+      "",
+      "_What is hard today and why it is worth changing._",
+      "",
+      "## Target Design",
+      "",
+      "_What the code looks like afterwards._",
+    ].join("\n"),
+    items: [
+      task("refactor-tests", "Cover the current behaviour with tests", "high"),
+      task("refactor-steps", "Refactor in small, reviewable steps"),
+      task("refactor-cleanup", "Remove dead code and update docs", "low"),
+    ],
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+/** Template names are compared case-insensitively. */
+export function templateKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/** Templates stored in a project folder's `data`, ignoring malformed entries. */
+export function folderTemplates(data: Record<string, unknown> | null | undefined): PlanTemplate[] {
+  const raw = data?.[FOLDER_TEMPLATES_KEY];
+  if (!raw || typeof raw !== "object") return [];
+  return Object.values(raw as Record<string, unknown>).filter(
+    (t): t is PlanTemplate =>
+      !!t &&
+      typeof t === "object" &&
+      typeof (t as PlanTemplate).name === "string" &&
+      Array.isArray((t as PlanTemplate).items),
+  );
+}
+
+/**
+ * All available templates, one per name. Project templates override local
+ * ones, which override the built-ins.
+ */
+export function availableTemplates(
+  project: PlanTemplate[],
+  local: PlanTemplate[],
+): ResolvedTemplate[] {
+  const byName = new Map<string, ResolvedTemplate>();
+  const add = (templates: PlanTemplate[], source: PlanTemplateSource) => {
+    for (const t of templates) byName.set(templateKey(t.name), { ...t, source });
+  };
+  add(BUILTIN_TEMPLATES, "builtin");
+  add(local, "local");
+  add(project, "project");
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ---------------------------------------------------------------------------
+// Applying a template
+// ---------------------------------------------------------------------------
+
+interface Section {
+  heading: string;
+  body: string;
+}
+
+/** Split markdown into the text before the first "## " heading and the sections. */
+function splitSections(md: string): { preamble: string; sections: Section[] } {
+  const sections: Section[] = [];
+  const preamble: string[] = [];
+  let current: { heading: string; lines: string[] } | null = null;
+  const flush = () => {
+    if (current) sections.push({ heading: current.heading, body: current.lines.join("\n").trim() });
+  };
+
+  for (const line of md.split("\n")) {
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    if (heading) {
+      flush();
+      current = { heading: heading[1], lines: [] };
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+  flush();
+  return { preamble: preamble.join("\n").trim(), sections };
+}
+
+/**
+ * Fill a template's description with the agent's. Sections the agent wrote
+ * replace the template's guidance under the same heading, in the template's
+ * order; the agent's other sections follow, and template sections the agent
+ * did not fill keep their guidance.
+ */
+export function mergeTemplateDescription(
+  template: string | undefined,
+  description: string | undefined,
+): string | undefined {
+  if (!template) return description;
+  if (!description) return template;
+
+  const ours = splitSections(description);
+  const theirs = splitSections(template);
+  const written = new Map(ours.sections.map((s) => [templateKey(s.heading), s]));
+
+  const parts: string[] = [];
+  if (ours.preamble || theirs.preamble) parts.push(ours.preamble || theirs.preamble);
+  for (const section of theirs.sections) {
+    const filled = written.get(templateKey(section.heading));
+    written.delete(templateKey(section.heading));
+    parts.push(`## ${section.heading}\n\n${filled?.body || section.body}`.trim());
+  }
+  for (const section of written.values()) {
+    parts.push(`## ${section.heading}\n\n${section.body}`.trim());
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * Merge the agent's tasks into a template's. An agent task that has the
+ * same ID as a template task, or similar wording, takes that task's place
+ * (keeping the template's subtasks if it brings none); the rest are added
+ * after the template's tasks.
+ */
+export function mergeTemplateItems(
+  template: PlanItem[],
+  items: PlanItem[],
+): { items: PlanItem[]; fromTemplate: number } {
+  const unmatched = [...items];
+  let fromTemplate = 0;
+
+  const take = (candidate: PlanItem): PlanItem | undefined => {
+    let idx = unmatched.findIndex((item) => item.id === candidate.id);
+    if (idx < 0) {
+      idx = unmatched.findIndex(
+        (item) => contentSimilarity(item.content, candidate.content) >= SIMILARITY_THRESHOLD,
+      );
+    }
+    return idx >= 0 ? unmatched.splice(idx, 1)[0] : undefined;
+  };
+
+  const walk = (list: PlanItem[]): PlanItem[] =>
+    list.map((candidate) => {
+      const ours = take(candidate);
+      if (!ours) fromTemplate++;
+      const children = ours?.children ?? (candidate.children && walk(candidate.children));
+      const item = ours ?? candidate;
+      return children ? { ...item, children } : item;
+    });
+
+  const merged = walk(template);
+  return { items: [...merged, ...unmatched], fromTemplate };
+}
@@ -1,5 +1,6 @@
 import { execSync } from "node:child_process";
-import { basename, dirname } from "node:path";
+import { existsSync, realpathSync } from "node:fs";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
 import { log } from "./logger.js";
 
 // ---------------------------------------------------------------------------
@@ -66,6 +67,29 @@ export function resolveProjectPath(): string {
   return effectiveCwd();
 }
 
+/**
+ * Resolve a path relative to the project root, following symlinks for the
+ * part of it that already exists. Returns null if the result would fall
+ * outside the project root, so tools can't read or write elsewhere.
+ */
+export function resolveProjectFile(path: string): string | null {
+  const root = realpathSync(effectiveCwd());
+
+  let existing = resolve(root, path);
+  const missing: string[] = [];
+  while (!existsSync(existing)) {
+    const parent = dirname(existing);
+    if (parent === existing) break;
+    missing.unshift(basename(existing));
+    existing = parent;
+  }
+  const target = join(realpathSync(existing), ...missing);
+
+  const rel = relative(root, target);
+  if (rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) return null;
+  return target;
+}
+
 function getGitRemoteUrl(cwd?: string): string | null {
   try {
     const result = execSync("git remote get-url origin", {
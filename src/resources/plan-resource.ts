@@ -31,17 +31,19 @@ function chatIdFromUri(uri: string): string | null {
 }
 
 // ---------------------------------------------------------------------------
-// List resources: one per tracked plan
+// List resources: one per tracked plan that is still open
 // ---------------------------------------------------------------------------
 
 export function listPlanResources() {
   const store = loadStore();
-  return Object.values(store.plans).map((plan) => ({
-    uri: planUri(plan.chatId),
-    name: `Plan: ${plan.title}`,
-    description: `Shared plan "${plan.title}" in CoChat`,
-    mimeType: "text/markdown",
-  }));
+  return Object.values(store.plans)
+    .filter((plan) => !plan.closedAt)
+    .map((plan) => ({
+      uri: planUri(plan.chatId),
+      name: `Plan: ${plan.title}`,
+      description: `Shared plan "${plan.title}" in CoChat`,
+      mimeType: "text/markdown",
+    }));
 }
 
 // ---------------------------------------------------------------------------
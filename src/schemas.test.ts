@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { PlanItemSchema } from "./schemas.js";
+import { zodToJsonSchema } from "./zod-to-json-schema.js";
 import { PlansShareSchema } from "./tools/plans-share.js";
 import { PlansPullSchema } from "./tools/plans-pull.js";
 import { PlansUpdateSchema } from "./tools/plans-update.js";
@@ -48,6 +49,60 @@ describe("PlanItemSchema", () => {
     }
   });
 
+  it("parses items nested three levels deep", () => {
+    const result = PlanItemSchema.safeParse({
+      id: "epic",
+      content: "Epic",
+      status: "in_progress",
+      priority: "high",
+      children: [
+        {
+          id: "task",
+          content: "Task",
+          status: "pending",
+          priority: "medium",
+          children: [
+            { id: "sub", content: "Subtask", status: "completed", priority: "low" },
+          ],
+        },
+      ],
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.children![0].children![0].id).toBe("sub");
+    }
+  });
+
+  it("rejects invalid fields in deeply nested items", () => {
+    const result = PlanItemSchema.safeParse({
+      id: "epic",
+      content: "Epic",
+      status: "pending",
+      priority: "high",
+      children: [
+        {
+          id: "task",
+          content: "Task",
+          status: "pending",
+          priority: "medium",
+          children: [{ id: "sub", content: "Subtask", status: "bogus", priority: "low" }],
+        },
+      ],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("converts to a recursive JSON schema for tool registration", () => {
+    const json = zodToJsonSchema(PlansShareSchema);
+    const items = (json.properties as Record<string, Record<string, unknown>>).items;
+    expect(items.items).toEqual({ $ref: "#/$defs/PlanItem" });
+    const defs = json.$defs as Record<string, Record<string, Record<string, unknown>>>;
+    expect(defs.PlanItem.properties.children).toMatchObject({
+      type: "array",
+      items: { $ref: "#/$defs/PlanItem" },
+    });
+  });
+
   it("rejects missing required fields", () => {
     const result = PlanItemSchema.safeParse({
       id: "item-1",
@@ -166,6 +221,22 @@ describe("PlansUpdateSchema", () => {
     expect(result.success).toBe(false);
   });
 
+  it("accepts item_updates without items", () => {
+    const result = PlansUpdateSchema.safeParse({
+      chat_id: "chat-abc",
+      item_updates: [{ id: "1", status: "completed" }],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects item_updates with an invalid status", () => {
+    const result = PlansUpdateSchema.safeParse({
+      chat_id: "chat-abc",
+      item_updates: [{ id: "1", status: "done" }],
+    });
+    expect(result.success).toBe(false);
+  });
+
   it("accepts optional description", () => {
     const result = PlansUpdateSchema.safeParse({
       chat_id: "chat-abc",
@@ -1,26 +1,98 @@
 import { z } from "zod";
+import { nameSchema } from "./zod-to-json-schema.js";
 
 /**
  * Shared Zod schemas for plan items.
  *
- * We explicitly define one level of nesting (children) rather than using
- * z.lazy() for recursion, because recursive Zod schemas cause stack
- * overflows when converting to JSON Schema for MCP tool registration.
+ * Plan items nest to any depth (epics -> tasks -> subtasks). The recursive
+ * schema is emitted once under `$defs` by zodToJsonSchema and referenced via
+ * `$ref`, so MCP clients see the full structure.
  */
 
-const ChildPlanItemSchema = z.object({
-  id: z.string(),
-  content: z.string(),
-  status: z.enum(["pending", "in_progress", "completed", "cancelled"]),
-  priority: z.enum(["high", "medium", "low"]),
+export interface PlanItemInput {
+  id: string;
+  content: string;
+  status: "pending" | "in_progress" | "completed" | "cancelled";
+  priority: "high" | "medium" | "low";
+  dependsOn?: string[];
+  assignee?: string;
+  estimate?: string;
+  due?: string;
+  children?: PlanItemInput[];
+}
+
+const DependsOnSchema = z
+  .array(z.string())
+  .describe("IDs of the items this task waits for");
+const AssigneeSchema = z
+  .string()
+  .describe("Email of the engineer who owns the task (one of the invited engineers)");
+const EstimateSchema = z.string().describe("Size of the task, e.g. '2h', '3d' or '5 points'");
+const DueSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "due must be a YYYY-MM-DD date")
+  .describe("Due date (YYYY-MM-DD)");
+
+export const PlanItemSchema: z.ZodType<PlanItemInput> = nameSchema(
+  z.lazy(() =>
+    z.object({
+      id: z.string(),
+      content: z.string(),
+      status: z.enum(["pending", "in_progress", "completed", "cancelled"]),
+      priority: z.enum(["high", "medium", "low"]),
+      dependsOn: DependsOnSchema.optional(),
+      assignee: AssigneeSchema.optional(),
+      estimate: EstimateSchema.optional(),
+      due: DueSchema.optional(),
+      children: z.array(PlanItemSchema).optional().describe("Nested sub-items (any depth)"),
+    }),
+  ),
+  "PlanItem",
+);
+
+/**
+ * A partial update to a single plan item, matched by ID. Omitted fields are
+ * left unchanged.
+ */
+export const PlanItemPatchSchema = z.object({
+  id: z.string().describe("ID of the plan item to update"),
+  content: z.string().optional().describe("New task text"),
+  status: z.enum(["pending", "in_progress", "completed", "cancelled"]).optional(),
+  priority: z.enum(["high", "medium", "low"]).optional(),
+  dependsOn: DependsOnSchema.optional(),
+  assignee: AssigneeSchema.optional(),
+  estimate: EstimateSchema.optional(),
+  due: DueSchema.optional(),
 });
 
-export const PlanItemSchema = z.object({
-  id: z.string(),
-  content: z.string(),
+export type PlanItemPatchInput = z.infer<typeof PlanItemPatchSchema>;
+
+/**
+ * An entry from the coding agent's own todo list (TodoWrite and friends).
+ * The ID is optional because not every agent exposes todo IDs.
+ */
+export const TodoItemSchema = z.object({
+  id: z.string().optional().describe("Todo or plan item ID, if known"),
+  content: z.string().describe("Task text"),
   status: z.enum(["pending", "in_progress", "completed", "cancelled"]),
-  priority: z.enum(["high", "medium", "low"]),
-  children: z.array(ChildPlanItemSchema).optional(),
+  priority: z.enum(["high", "medium", "low"]).optional(),
 });
 
-export type PlanItemInput = z.infer<typeof PlanItemSchema>;
+export type TodoItemInput = z.infer<typeof TodoItemSchema>;
+
+/**
+ * Optional sections rendered after the task list. Omitted fields are off.
+ */
+export const PlanRenderSchema = z
+  .object({
+    diagram: z
+      .enum(["graph", "gantt"])
+      .optional()
+      .describe("Add a Mermaid dependency graph ('graph') or Gantt chart ('gantt') of the tasks"),
+    table: z.boolean().optional().describe("Add a status summary table with the overall progress"),
+    json: z
+      .boolean()
+      .optional()
+      .describe("Append the plan as collapsed JSON so it round-trips exactly"),
+  })
+  .describe("Optional render modes for the shared plan (CoChat renders Mermaid)");
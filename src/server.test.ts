@@ -18,6 +18,10 @@ vi.mock("./config.js", async (importOriginal) => {
       projects: {},
       plans: {},
       askAutomations: {},
+      revisions: {},
+      docs: {},
+      templates: {},
+      pendingShares: {},
     }),
     saveStore: vi.fn(),
     trackPlan: vi.fn(),
@@ -34,9 +38,22 @@ vi.mock("./config.js", async (importOriginal) => {
 
 let savedAutoShare: string | undefined;
 
+/** What the fake CoChat server answers on /api/config */
+let serverConfig: Record<string, unknown>;
+
 beforeEach(() => {
   savedAutoShare = process.env.COCHAT_AUTO_SHARE;
   delete process.env.COCHAT_AUTO_SHARE;
+
+  serverConfig = { version: "0.9.0", features: {} };
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) =>
+      String(url).endsWith("/api/config")
+        ? new Response(JSON.stringify(serverConfig), { headers: { "content-type": "application/json" } })
+        : new Response("Not found", { status: 404 }),
+    ),
+  );
 });
 
 afterEach(() => {
@@ -45,6 +62,7 @@ afterEach(() => {
   } else {
     delete process.env.COCHAT_AUTO_SHARE;
   }
+  vi.unstubAllGlobals();
 });
 
 // ---------------------------------------------------------------------------
@@ -93,14 +111,33 @@ describe("createServer", () => {
       "automations_list",
       "automations_runs",
       "automations_trigger",
+      "chats_list",
+      "chats_post",
+      "chats_read",
       "cochat_ask",
+      "docs_list",
+      "docs_pull",
+      "docs_share",
       "memories_add",
       "memories_delete",
       "memories_list",
       "memories_query",
+      "plans_archive",
+      "plans_close",
+      "plans_discover",
+      "plans_export",
+      "plans_history",
+      "plans_import",
       "plans_list",
       "plans_pull",
+      "plans_reply",
+      "plans_revert",
+      "plans_search",
       "plans_share",
+      "plans_stats",
+      "plans_status",
+      "plans_sync",
+      "plans_templates",
       "plans_update",
       "projects_add",
       "projects_get",
@@ -108,6 +145,24 @@ describe("createServer", () => {
     ]);
   });
 
+  it("hides tools the CoChat server does not support", async () => {
+    serverConfig = { version: "0.5.1", features: { enable_automations: false, enable_collaboration: false } };
+    const { client } = await createConnectedPair();
+    const { tools } = await client.listTools();
+    const names = tools.map((t) => t.name);
+
+    expect(names).not.toContain("automations_list");
+    expect(names).not.toContain("cochat_ask");
+    expect(names).toContain("memories_add");
+    expect(getToolDescription(tools, "plans_share")).toContain("does not support collaboration");
+
+    const result = await client.callTool({ name: "automations_list", arguments: {} });
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      { type: "text", text: "Your CoChat version (0.5.1) does not support automations." },
+    ]);
+  });
+
   it("lists all expected prompts", async () => {
     const { client } = await createConnectedPair();
     const result = await client.listPrompts();
@@ -120,6 +175,7 @@ describe("createServer", () => {
       "memories-save",
       "plans-pull",
       "plans-share",
+      "plans-sync",
     ]);
   });
 
@@ -190,6 +246,16 @@ describe("createServer", () => {
     expect(content.text).toContain("plans_pull");
   });
 
+  it("can get prompt content for plans-sync", async () => {
+    const { client } = await createConnectedPair();
+    const result = await client.getPrompt({ name: "plans-sync", arguments: { chat_id: "chat-1" } });
+
+    expect(result.messages).toHaveLength(1);
+    const content = result.messages[0].content as { type: string; text: string };
+    expect(content.text).toContain("plans_sync");
+    expect(content.text).toContain("chat_id: chat-1");
+  });
+
   it("can get prompt content for memories-recall", async () => {
     const { client } = await createConnectedPair();
     const result = await client.getPrompt({ name: "memories-recall" });
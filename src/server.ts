@@ -13,8 +13,20 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import { zodToJsonSchema } from "./zod-to-json-schema.js";
 
-import { CoChatClient, CoChatClientError } from "./cochat-client.js";
-import { resolveConfig, persistConfig, resolveAutoShareMode, type CoChatConfig, type AutoShareMode } from "./config.js";
+import {
+  CoChatClient,
+  CoChatClientError,
+  CoChatResponseError,
+  CoChatUnsupportedError,
+} from "./cochat-client.js";
+import {
+  supports,
+  TOOL_CAPABILITIES,
+  TOOL_DEGRADATIONS,
+  unsupportedMessage,
+  type CoChatCapabilities,
+} from "./capabilities.js";
+import { resolveConfig, persistConfig, resolveAutoShareMode, resolveRequestPolicy, type CoChatConfig, type AutoShareMode } from "./config.js";
 import { log } from "./logger.js";
 
 import { setProjectRoot } from "./project.js";
@@ -23,7 +35,30 @@ import { setProjectRoot } from "./project.js";
 import { PlansShareSchema, plansShare } from "./tools/plans-share.js";
 import { PlansPullSchema, plansPull } from "./tools/plans-pull.js";
 import { PlansUpdateSchema, plansUpdate } from "./tools/plans-update.js";
-import { plansList } from "./tools/plans-list.js";
+import { PlansListSchema, plansList } from "./tools/plans-list.js";
+import { PlansCloseSchema, plansClose } from "./tools/plans-close.js";
+import { PlansArchiveSchema, plansArchive } from "./tools/plans-archive.js";
+import { PlansDiscoverSchema, plansDiscover } from "./tools/plans-discover.js";
+import { PlansSearchSchema, plansSearch } from "./tools/plans-search.js";
+import { PlansHistorySchema, plansHistory } from "./tools/plans-history.js";
+import { PlansRevertSchema, plansRevert } from "./tools/plans-revert.js";
+import { PlansStatusSchema, plansStatus } from "./tools/plans-status.js";
+import { PlansReplySchema, plansReply } from "./tools/plans-reply.js";
+import { PlansImportSchema, plansImport } from "./tools/plans-import.js";
+import { PlansExportSchema, plansExport } from "./tools/plans-export.js";
+import { PlansSyncSchema, plansSync } from "./tools/plans-sync.js";
+import { PlansStatsSchema, plansStats } from "./tools/plans-stats.js";
+import { PlansTemplatesSchema, plansTemplates } from "./tools/plans-templates.js";
+
+// Docs
+import { DocsShareSchema, docsShare } from "./tools/docs-share.js";
+import { DocsListSchema, docsList } from "./tools/docs-list.js";
+import { DocsPullSchema, docsPull } from "./tools/docs-pull.js";
+
+// Chats
+import { ChatsListSchema, chatsList } from "./tools/chats-list.js";
+import { ChatsReadSchema, chatsRead } from "./tools/chats-read.js";
+import { ChatsPostSchema, chatsPost } from "./tools/chats-post.js";
 
 // Projects
 import { ProjectsAddSchema, projectsAdd } from "./tools/projects-add.js";
@@ -106,6 +141,15 @@ function buildServerInstructions(mode: AutoShareMode): string {
     "Other capabilities:\n" +
     "- plans_pull: Fetch feedback from engineers on a shared plan\n" +
     "- plans_update: Push plan updates as tasks are completed\n" +
+    "- plans_sync: Merge your todo list with the shared plan, reporting conflicting edits\n" +
+    "- plans_templates: Start recurring kinds of plans from the team's templates\n" +
+    "- plans_reply: Answer engineers' feedback inline in the plan thread\n" +
+    "- plans_status: Check whether reviewers have approved a plan before implementing it\n" +
+    "- plans_close/plans_archive: Close finished plans so they leave the active list\n" +
+    "- plans_discover: Find and adopt plans teammates shared in this project\n" +
+    "- plans_search: Find which plan or feedback discussed a topic\n" +
+    "- docs_share: Share ADRs, diffs, code reviews and reports for team feedback\n" +
+    "- chats_list/chats_read/chats_post: Follow and join project discussions in CoChat\n" +
     "- memories_query/memories_add: Search and save project knowledge\n" +
     "- cochat_ask: Ask CoChat questions using the project knowledge base" +
     buildMemoryInstructions(mode)
@@ -125,7 +169,9 @@ function buildPlanShareDescription(mode: AutoShareMode): string {
   const format =
     " IMPORTANT: The 'description' field should contain the FULL plan document in markdown -- " +
     "design rationale, architecture, data flow, technical approach, edge cases. Engineers read " +
-    "this as the primary document. Include your model identifier in the 'model' field.";
+    "this as the primary document. Include your model identifier in the 'model' field. " +
+    "Use 'render' to add a Mermaid dependency graph or Gantt chart, a status summary table, " +
+    "or a JSON appendix that round-trips the plan exactly.";
 
   return base + behavior + format;
 }
@@ -222,6 +268,9 @@ export function createServer(): Server {
   // Config resolution
   // -----------------------------------------------------------------------
 
+  // One client per configuration, so capability detection happens once per session
+  let cachedClient: { key: string; client: CoChatClient } | undefined;
+
   async function getClient(): Promise<CoChatClient> {
     let config = resolveConfig();
 
@@ -241,8 +290,22 @@ export function createServer(): Server {
       );
     }
 
-    log.debug("Config resolved", { url: config.cochatUrl });
-    return new CoChatClient(config);
+    const key = `${config.cochatUrl}\n${config.apiKey}`;
+    if (cachedClient?.key === key) return cachedClient.client;
+
+    const policy = resolveRequestPolicy();
+    log.debug("Config resolved", { url: config.cochatUrl, ...policy });
+    cachedClient = { key, client: new CoChatClient(config, policy) };
+    return cachedClient.client;
+  }
+
+  /**
+   * Capabilities of the configured server, or null when CoChat isn't
+   * configured yet (listing tools never prompts for configuration).
+   */
+  async function sessionCapabilities(): Promise<CoChatCapabilities | null> {
+    if (!resolveConfig()) return null;
+    return (await getClient()).capabilities();
   }
 
   async function elicitConfig(srv: Server): Promise<CoChatConfig | null> {
@@ -292,8 +355,8 @@ export function createServer(): Server {
   // Tool definitions
   // -----------------------------------------------------------------------
 
-  server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: [
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const tools = [
       // --- Plans ---
       {
         name: "plans_share",
@@ -303,18 +366,169 @@ export function createServer(): Server {
       {
         name: "plans_pull",
         description:
-          "Pull the latest state of a shared plan from CoChat, including feedback or changes from engineers.",
+          "Pull the latest state of a shared plan from CoChat, including feedback or changes from engineers. " +
+          "After the first pull, only changes since the last pull are returned (new feedback, " +
+          "changed/added/removed tasks); pass full: true for the complete plan. Feedback is grouped under " +
+          "the task it references (by number like #2.1, by ID, or by quoting the task text). Tasks that are " +
+          "blocked by unfinished dependencies or past their due date are flagged.",
         inputSchema: zodToJsonSchema(PlansPullSchema),
       },
       {
         name: "plans_update",
-        description: "Push an updated plan to an existing CoChat collaborative chat thread.",
+        description:
+          "Push an updated plan to an existing CoChat collaborative chat thread. Pass 'items' to " +
+          "replace the task list, or 'item_updates' to patch individual tasks by ID (IDs are shown by plans_pull). " +
+          "If engineers edited the plan in CoChat since you last pulled it, their edits are merged with yours " +
+          "(conflicts keep theirs and are reported); set on_conflict to 'refuse' or 'overwrite' to change this. " +
+          "Render modes set when sharing are kept unless 'render' is given.",
         inputSchema: zodToJsonSchema(PlansUpdateSchema),
       },
       {
         name: "plans_list",
-        description: "List all shared plans grouped by project, with feedback counts.",
-        inputSchema: { type: "object" as const, properties: {} },
+        description:
+          "List shared plans grouped by project, with review status, progress, burndown and feedback counts. " +
+          "Only open plans are listed unless status is 'closed' or 'all'.",
+        inputSchema: zodToJsonSchema(PlansListSchema),
+      },
+      {
+        name: "plans_discover",
+        description:
+          "Find plans in the current project's CoChat folder, including ones teammates shared from other " +
+          "machines, and adopt them (adopt: [chat IDs] or adopt_all: true) so plans_pull, plans_update and " +
+          "the other plan tools work on them.",
+        inputSchema: zodToJsonSchema(PlansDiscoverSchema),
+      },
+      {
+        name: "plans_search",
+        description:
+          "Search plan titles, descriptions, tasks and feedback across every plan in the current project " +
+          "(tracked and shared by teammates), e.g. \"which plan discussed the rate limiter?\". Returns ranked " +
+          "snippets with the chat ID and the matching task number or feedback author.",
+        inputSchema: zodToJsonSchema(PlansSearchSchema),
+      },
+      {
+        name: "plans_close",
+        description:
+          "Close a finished or abandoned plan: removes it from the active plan list and, if it was approved, marks it done in CoChat. " +
+          "Pass archive: true to also archive the chat in CoChat, or untrack: true to forget it locally.",
+        inputSchema: zodToJsonSchema(PlansCloseSchema),
+      },
+      {
+        name: "plans_archive",
+        description:
+          "Close a plan and archive its chat in CoChat. Same as plans_close with archive: true.",
+        inputSchema: zodToJsonSchema(PlansArchiveSchema),
+      },
+      {
+        name: "plans_stats",
+        description:
+          "Progress metrics for a shared plan: completion percentage weighted by priority and subtasks, " +
+          "task counts per status, and a burndown of open tasks across its revisions. Pass project: true " +
+          "to aggregate every plan in the project folder.",
+        inputSchema: zodToJsonSchema(PlansStatsSchema),
+      },
+      {
+        name: "plans_templates",
+        description:
+          "List or create plan templates for recurring kinds of work (feature rollout, incident follow-up, " +
+          "migration, refactor, or the team's own). Templates are saved in the CoChat project so the whole " +
+          "team shares them, or locally. Start a plan from one with plans_share template: \"<name>\".",
+        inputSchema: zodToJsonSchema(PlansTemplatesSchema),
+      },
+      {
+        name: "plans_history",
+        description:
+          "List the revision history of a shared plan (timestamps, model, task counts), " +
+          "or diff two revisions with compare_from/compare_to.",
+        inputSchema: zodToJsonSchema(PlansHistorySchema),
+      },
+      {
+        name: "plans_revert",
+        description:
+          "Restore an earlier revision of a shared plan. The current state is kept in the history.",
+        inputSchema: zodToJsonSchema(PlansRevertSchema),
+      },
+      {
+        name: "plans_status",
+        description:
+          "Check a shared plan's review status (draft, in_review, changes_requested, approved, done) " +
+          "and reviewer sign-offs, or move it through the lifecycle with set_status. Reviewers approve " +
+          "by replying /approve and block with /request-changes. Do not start implementing a plan " +
+          "until it is approved.",
+        inputSchema: zodToJsonSchema(PlansStatusSchema),
+      },
+      {
+        name: "plans_reply",
+        description:
+          "Post a reply in a shared plan's CoChat thread, e.g. to answer an engineer's feedback. " +
+          "Pass reply_to with a feedback message ID (shown by plans_pull) to quote the message being answered.",
+        inputSchema: zodToJsonSchema(PlansReplySchema),
+      },
+      {
+        name: "plans_import",
+        description:
+          "Share an existing markdown file under the project root (e.g. PLAN.md or a TODO checklist) " +
+          "as a tracked CoChat plan. Understands GitHub-style '- [ ]' checklists and plain bullets, " +
+          "nests tasks by indentation and turns headings into task groups.",
+        inputSchema: zodToJsonSchema(PlansImportSchema),
+      },
+      {
+        name: "plans_export",
+        description:
+          "Write a shared plan, its review status and its feedback (grouped by task) into the repository " +
+          "(default docs/plans/<slug>.md, optionally also JSON) in a stable, diff-friendly format so it " +
+          "can be committed and reviewed with the code.",
+        inputSchema: zodToJsonSchema(PlansExportSchema),
+      },
+      {
+        name: "plans_sync",
+        description:
+          "Two-way sync between your todo list and a shared plan. Pass your full todo list; items are " +
+          "matched to plan tasks by ID, then by similar wording. Changes on both sides are merged, " +
+          "conflicts (e.g. an engineer cancelled a task you marked in progress) are reported with the " +
+          "CoChat side kept, and the merged plan is pushed. Returns the merged todo list with task IDs.",
+        inputSchema: zodToJsonSchema(PlansSyncSchema),
+      },
+
+      // --- Docs ---
+      {
+        name: "docs_share",
+        description:
+          "Share a non-plan document with the team as a collaborative CoChat chat in the project folder: " +
+          "an architecture decision record (adr), a working-tree diff with an explanation (diff), " +
+          "a code review or PR summary (review), or a test failure / investigation report (report).",
+        inputSchema: zodToJsonSchema(DocsShareSchema),
+      },
+      {
+        name: "docs_list",
+        description: "List documents shared with docs_share, with reply counts.",
+        inputSchema: zodToJsonSchema(DocsListSchema),
+      },
+      {
+        name: "docs_pull",
+        description: "Pull a shared document and the replies engineers left on it.",
+        inputSchema: zodToJsonSchema(DocsPullSchema),
+      },
+
+      // --- Chats ---
+      {
+        name: "chats_list",
+        description:
+          "List chats in the current project's CoChat folder (pinned first, then most recently updated).",
+        inputSchema: zodToJsonSchema(ChatsListSchema),
+      },
+      {
+        name: "chats_read",
+        description:
+          "Read a CoChat conversation as markdown (the branch shown in CoChat, with authors). " +
+          "Use it to pull in design discussions that happened outside of plans.",
+        inputSchema: zodToJsonSchema(ChatsReadSchema),
+      },
+      {
+        name: "chats_post",
+        description:
+          "Post a message to a CoChat chat, or start a new chat in the current project by passing a title.",
+        inputSchema: zodToJsonSchema(ChatsPostSchema),
       },
 
       // --- Projects ---
@@ -386,8 +600,22 @@ export function createServer(): Server {
           "checking decisions, or asking about project-specific topics.",
         inputSchema: zodToJsonSchema(CoChatAskSchema),
       },
-    ],
-  }));
+    ];
+
+    // Hide tools the connected CoChat can't run, and say how others degrade
+    const caps = await sessionCapabilities();
+    if (!caps) return { tools };
+    return {
+      tools: tools
+        .filter((tool) => !TOOL_CAPABILITIES[tool.name] || supports(caps, TOOL_CAPABILITIES[tool.name]))
+        .map((tool) => {
+          const degraded = TOOL_DEGRADATIONS[tool.name];
+          return degraded && !supports(caps, degraded.capability)
+            ? { ...tool, description: `${tool.description}\n\n${degraded.note}` }
+            : tool;
+        }),
+    };
+  });
 
   // -----------------------------------------------------------------------
   // Tool dispatch
@@ -400,6 +628,18 @@ export function createServer(): Server {
     try {
       const client = await getClient();
 
+      const required = TOOL_CAPABILITIES[name];
+      if (required) {
+        const caps = await client.capabilities();
+        if (!supports(caps, required)) {
+          log.warn(`Tool ${name} needs ${required}, which the server does not support`);
+          return {
+            content: [{ type: "text", text: unsupportedMessage(required, caps.version) }],
+            isError: true,
+          };
+        }
+      }
+
       let result: string;
       switch (name) {
         // Plans
@@ -413,7 +653,68 @@ export function createServer(): Server {
           result = await plansUpdate(client, PlansUpdateSchema.parse(args));
           break;
         case "plans_list":
-          result = await plansList(client);
+          result = await plansList(client, PlansListSchema.parse(args ?? {}));
+          break;
+        case "plans_discover":
+          result = await plansDiscover(client, PlansDiscoverSchema.parse(args));
+          break;
+        case "plans_search":
+          result = await plansSearch(client, PlansSearchSchema.parse(args));
+          break;
+        case "plans_close":
+          result = await plansClose(client, PlansCloseSchema.parse(args));
+          break;
+        case "plans_archive":
+          result = await plansArchive(client, PlansArchiveSchema.parse(args));
+          break;
+        case "plans_history":
+          result = await plansHistory(PlansHistorySchema.parse(args));
+          break;
+        case "plans_revert":
+          result = await plansRevert(client, PlansRevertSchema.parse(args));
+          break;
+        case "plans_status":
+          result = await plansStatus(client, PlansStatusSchema.parse(args));
+          break;
+        case "plans_reply":
+          result = await plansReply(client, PlansReplySchema.parse(args));
+          break;
+        case "plans_import":
+          result = await plansImport(client, PlansImportSchema.parse(args));
+          break;
+        case "plans_export":
+          result = await plansExport(client, PlansExportSchema.parse(args));
+          break;
+        case "plans_stats":
+          result = await plansStats(client, PlansStatsSchema.parse(args));
+          break;
+        case "plans_templates":
+          result = await plansTemplates(client, PlansTemplatesSchema.parse(args));
+          break;
+        case "plans_sync":
+          result = await plansSync(client, PlansSyncSchema.parse(args));
+          break;
+
+        // Docs
+        case "docs_share":
+          result = await docsShare(client, DocsShareSchema.parse(args));
+          break;
+        case "docs_list":
+          result = await docsList(client, DocsListSchema.parse(args));
+          break;
+        case "docs_pull":
+          result = await docsPull(client, DocsPullSchema.parse(args));
+          break;
+
+        // Chats
+        case "chats_list":
+          result = await chatsList(client, ChatsListSchema.parse(args));
+          break;
+        case "chats_read":
+          result = await chatsRead(client, ChatsReadSchema.parse(args));
+          break;
+        case "chats_post":
+          result = await chatsPost(client, ChatsPostSchema.parse(args));
           break;
 
         // Projects
@@ -468,14 +769,25 @@ export function createServer(): Server {
       return { content: [{ type: "text", text: result }] };
     } catch (err) {
       const message =
-        err instanceof CoChatClientError
-          ? `CoChat API error (${err.statusCode}): ${err.message}`
-          : err instanceof Error
-            ? err.message
-            : String(err);
+        err instanceof CoChatUnsupportedError
+          ? err.message
+          : err instanceof CoChatResponseError
+            ? `${err.message}. The CoChat server may be running a version this MCP server does not support.`
+            : err instanceof CoChatClientError
+              ? `CoChat API error (${err.statusCode}): ${err.message}`
+              : err instanceof Error
+                ? err.message
+                : String(err);
 
       log.error(`Tool ${name} failed: ${message}`, {
-        errorType: err instanceof CoChatClientError ? "api" : "internal",
+        errorType:
+          err instanceof CoChatUnsupportedError
+            ? "unsupported"
+            : err instanceof CoChatResponseError
+              ? "response"
+              : err instanceof CoChatClientError
+                ? "api"
+                : "internal",
         stack: err instanceof Error ? err.stack : undefined,
       });
 
@@ -511,6 +823,17 @@ export function createServer(): Server {
           },
         ],
       },
+      {
+        name: "plans-sync",
+        description: "Sync your todo list with a shared plan on CoChat",
+        arguments: [
+          {
+            name: "chat_id",
+            description: "Chat ID of the plan to sync (optional, defaults to most recent)",
+            required: false,
+          },
+        ],
+      },
       {
         name: "memories-recall",
         description: "Recall relevant project memories for the current coding task",
@@ -602,7 +925,34 @@ export function createServer(): Server {
                   "- What feedback engineers have provided\n" +
                   "- What task statuses have changed\n" +
                   "- Any actionable items, blockers, or concerns raised\n" +
-                  "- Whether the plan is approved or needs further iteration",
+                  "- The review status reported by plans_pull, and whether implementation " +
+                  "can start (only once the plan is approved)",
+              },
+            },
+          ],
+        };
+      }
+
+      case "plans-sync": {
+        const chatId = args?.chat_id ?? "";
+        const chatIdInstruction = chatId ? ` Use chat_id: ${chatId}` : "";
+
+        return {
+          description: "Sync your todo list with a shared plan",
+          messages: [
+            {
+              role: "user" as const,
+              content: {
+                type: "text" as const,
+                text:
+                  "Use the plans_sync tool to merge your current todo list with the most recently " +
+                  "shared plan on CoChat." + chatIdInstruction + " Pass every todo with its current " +
+                  "status, and the plan item ID where you know it.\n\n" +
+                  "Then:\n" +
+                  "- Update your todo list to match the merged list plans_sync returns, including the IDs\n" +
+                  "- Add the open tasks that only exist in CoChat to your todo list\n" +
+                  "- Tell me about any conflicts and how they were resolved, and ask before " +
+                  "continuing work on a task an engineer cancelled or removed",
               },
             },
           ],
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from "vitest";
+import type { CoChatClient, CoChatChatListItem } from "../cochat-client.js";
+
+vi.mock("./projects-add.js", () => ({
+  resolveCurrentProjectFolder: vi.fn().mockResolvedValue({
+    folderId: "folder-1",
+    projectName: "myorg/myrepo",
+    projectPath: "/repo",
+    folderUrl: "https://cochat.example.com/f/folder-1",
+    created: false,
+  }),
+}));
+
+import { chatsList } from "./chats-list.js";
+
+function chat(id: string, updatedAt: number | undefined, pinned = false): CoChatChatListItem {
+  return { id, title: `Chat ${id}`, updated_at: updatedAt, pinned } as CoChatChatListItem;
+}
+
+function makeClient(chats: CoChatChatListItem[]): CoChatClient {
+  return {
+    listFolderChats: vi.fn().mockResolvedValue(chats),
+    extractMessages: vi.fn().mockReturnValue([]),
+  } as unknown as CoChatClient;
+}
+
+describe("chatsList", () => {
+  it("lists pinned chats first, then the most recently updated", async () => {
+    const client = makeClient([chat("old", 100), chat("new", 300), chat("pinned", 50, true)]);
+
+    const result = await chatsList(client, {});
+
+    expect(client.listFolderChats).toHaveBeenCalledWith("folder-1");
+    const order = ["pinned", "new", "old"].map((id) => result.indexOf(`**Chat ${id}**`));
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+    expect(result).toContain("**Chat pinned** [pinned]");
+  });
+
+  it("honours the limit", async () => {
+    const client = makeClient([chat("a", 1), chat("b", 2), chat("c", 3)]);
+
+    const result = await chatsList(client, { limit: 2 });
+
+    expect(result).toContain("Showing 2 of 3.");
+    expect(result).not.toContain("Chat a");
+  });
+
+  it("lists rows without an update time last and without a date", async () => {
+    const client = makeClient([chat("undated", undefined), chat("dated", 100)]);
+
+    const result = await chatsList(client, {});
+
+    expect(result.indexOf("**Chat dated**")).toBeLessThan(result.indexOf("**Chat undated**"));
+    expect(result).toContain("- **Chat undated**\n  - Chat ID: undated\n\n");
+    expect(result).not.toContain("NaN");
+    expect(result).not.toContain("Invalid");
+  });
+
+  it("reports an empty project", async () => {
+    const result = await chatsList(makeClient([]), {});
+    expect(result).toContain('No chats found for project "myorg/myrepo"');
+  });
+});
@@ -0,0 +1,64 @@
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import { isPlanMessage } from "../plan-format.js";
+import { detectDocKind } from "../doc-format.js";
+import { resolveCurrentProjectFolder } from "./projects-add.js";
+
+export const ChatsListSchema = z.object({
+  limit: z.number().optional().describe("Maximum number of chats to list (default: 20)"),
+});
+
+export type ChatsListInput = z.infer<typeof ChatsListSchema>;
+
+export async function chatsList(
+  client: CoChatClient,
+  input: ChatsListInput,
+): Promise<string> {
+  const project = await resolveCurrentProjectFolder(client);
+  const chats = await client.listFolderChats(project.folderId);
+
+  if (!chats || chats.length === 0) {
+    return `No chats found for project "${project.projectName}".`;
+  }
+
+  // Pinned first, then most recently updated
+  const sorted = [...chats].sort(
+    (a, b) => Number(!!b.pinned) - Number(!!a.pinned) || (b.updated_at ?? 0) - (a.updated_at ?? 0),
+  );
+  const limit = input.limit ?? 20;
+  const shown = sorted.slice(0, limit);
+
+  const lines: string[] = [
+    `## Project Chats (${chats.length})`,
+    ``,
+    `Project: ${project.projectName}`,
+    ``,
+  ];
+
+  for (const chat of shown) {
+    const tags: string[] = [];
+    if (chat.pinned) tags.push("pinned");
+    if (chat.chat) {
+      const messages = client.extractMessages(chat);
+      if (messages.some((m) => isPlanMessage(m.content))) tags.push("plan");
+      const docKind = messages.map((m) => detectDocKind(m.content)).find(Boolean);
+      if (docKind) tags.push(docKind);
+    }
+    const suffix = tags.length > 0 ? ` [${tags.join(", ")}]` : "";
+    lines.push(`- **${chat.title}**${suffix}`);
+    lines.push(`  - Chat ID: ${chat.id}`);
+    if (chat.updated_at !== undefined) {
+      lines.push(`  - Updated: ${new Date(chat.updated_at * 1000).toISOString()}`);
+    }
+  }
+
+  if (chats.length > shown.length) {
+    lines.push(``);
+    lines.push(`Showing ${shown.length} of ${chats.length}. Pass a higher limit to see more.`);
+  }
+
+  lines.push(``);
+  lines.push(`Use chats_read with a chat ID to read a conversation.`);
+
+  return lines.join("\n");
+}
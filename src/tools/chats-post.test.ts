@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CoChatClient, type CoChatChatResponse, type CoChatMessage } from "../cochat-client.js";
+
+vi.mock("./projects-add.js", () => ({
+  resolveCurrentProjectFolder: vi.fn().mockResolvedValue({
+    folderId: "folder-1",
+    projectName: "myorg/myrepo",
+    projectPath: "/repo",
+    folderUrl: "https://cochat.example.com/f/folder-1",
+    created: false,
+  }),
+}));
+
+import { chatsPost } from "./chats-post.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function message(overrides: Partial<CoChatMessage>): CoChatMessage {
+  return { id: "msg", parentId: null, childrenIds: [], role: "user", content: "", timestamp: 1, ...overrides };
+}
+
+// root -> (a1 | a2); a2 is newer, but the user switched back to a1
+function branchedMessages(): Record<string, CoChatMessage> {
+  return {
+    root: message({ id: "root", content: "Which index?", childrenIds: ["a1", "a2"] }),
+    a1: message({ id: "a1", parentId: "root", role: "assistant", content: "B-tree", timestamp: 2 }),
+    a2: message({ id: "a2", parentId: "root", role: "assistant", content: "GIN", timestamp: 3 }),
+  };
+}
+
+function makeClient(currentId: string | null) {
+  const client = new CoChatClient({ cochatUrl: "https://cochat.example.com", apiKey: "key" });
+  const getChat = vi.spyOn(client, "getChat").mockImplementation(async (chatId) => ({
+    id: chatId,
+    title: "Index choice",
+    chat: { models: ["gpt"], history: { messages: branchedMessages(), currentId }, messages: [] },
+  }) as unknown as CoChatChatResponse);
+  const updateChat = vi.spyOn(client, "updateChat").mockResolvedValue({ id: "chat-1" } as CoChatChatResponse);
+  const createChat = vi.spyOn(client, "createChat").mockResolvedValue({ id: "chat-new" } as CoChatChatResponse);
+  vi.spyOn(client, "getDefaultModel").mockResolvedValue("gpt");
+  const moveChatToFolder = vi.spyOn(client, "moveChatToFolder").mockResolvedValue({} as CoChatChatResponse);
+  return { client, getChat, updateChat, createChat, moveChatToFolder };
+}
+
+/** The history the tool wrote back with updateChat */
+function writtenHistory(updateChat: ReturnType<typeof makeClient>["updateChat"]) {
+  const [, data] = updateChat.mock.calls[0];
+  return (data as { history: { messages: Record<string, CoChatMessage>; currentId: string } }).history;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("chatsPost", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("posts into the given chat without creating one", async () => {
+    const { client, getChat, updateChat, createChat } = makeClient("a2");
+
+    const result = await chatsPost(client, { chat_id: "chat-7", message: "Going with GIN." });
+
+    expect(createChat).not.toHaveBeenCalled();
+    expect(getChat).toHaveBeenCalledWith("chat-7");
+    expect(updateChat.mock.calls[0][0]).toBe("chat-7");
+    const history = writtenHistory(updateChat);
+    const posted = history.messages[history.currentId];
+    expect(posted).toMatchObject({ role: "assistant", content: "Going with GIN.", modelName: "Coding Agent" });
+    expect(result).toContain("Message posted.");
+    expect(result).toContain("Chat ID: chat-7");
+    expect(result).toContain(`Message ID: ${posted.id}`);
+  });
+
+  it("links the message under the last message of the current branch", async () => {
+    const { client, updateChat } = makeClient("a1");
+
+    await chatsPost(client, { chat_id: "chat-1", message: "Noted." });
+
+    const history = writtenHistory(updateChat);
+    const posted = history.messages[history.currentId];
+    expect(posted.parentId).toBe("a1");
+    expect(history.messages.a1.childrenIds).toEqual([posted.id]);
+    expect(history.messages.a2.childrenIds).toEqual([]);
+  });
+
+  it("links under the newest message when the chat has no currentId", async () => {
+    const { client, updateChat } = makeClient(null);
+
+    await chatsPost(client, { chat_id: "chat-1", message: "Noted." });
+
+    const history = writtenHistory(updateChat);
+    expect(history.messages[history.currentId].parentId).toBe("a2");
+  });
+
+  it("starts a new chat in the project folder when no chat_id is given", async () => {
+    const { client, createChat, moveChatToFolder, updateChat } = makeClient(null);
+
+    const result = await chatsPost(client, { title: "Release notes", message: "Draft" });
+
+    expect(createChat).toHaveBeenCalledWith(expect.objectContaining({ title: "Release notes", models: ["gpt"] }));
+    expect(moveChatToFolder).toHaveBeenCalledWith("chat-new", "folder-1");
+    expect(updateChat.mock.calls[0][0]).toBe("chat-new");
+    expect(result).toContain('Chat "Release notes" created.');
+    expect(result).toContain("Chat URL: https://cochat.example.com/c/chat-new");
+  });
+
+  it("asks for a title when neither chat_id nor title is given", async () => {
+    const { client, createChat } = makeClient(null);
+
+    const result = await chatsPost(client, { message: "Orphan" });
+
+    expect(result).toContain("Provide either 'chat_id'");
+    expect(createChat).not.toHaveBeenCalled();
+  });
+});
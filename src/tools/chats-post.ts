@@ -0,0 +1,59 @@
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import { log } from "../logger.js";
+import { resolveCurrentProjectFolder } from "./projects-add.js";
+
+export const ChatsPostSchema = z.object({
+  chat_id: z
+    .string()
+    .optional()
+    .describe("Chat ID to post into. Omit to start a new chat in the current project."),
+  title: z.string().optional().describe("Title for a new chat (required when chat_id is omitted)"),
+  message: z.string().describe("Message to post, in markdown"),
+});
+
+export type ChatsPostInput = z.infer<typeof ChatsPostSchema>;
+
+export async function chatsPost(
+  client: CoChatClient,
+  input: ChatsPostInput,
+): Promise<string> {
+  let chatId = input.chat_id;
+
+  if (!chatId) {
+    if (!input.title) {
+      return "Provide either 'chat_id' to post into an existing chat or 'title' to start a new one.";
+    }
+
+    const project = await resolveCurrentProjectFolder(client);
+    const chat = await client.createChat({
+      title: input.title,
+      models: [await client.getDefaultModel()],
+      history: { messages: {}, currentId: null },
+      messages: [],
+      tags: [],
+      timestamp: Date.now(),
+    });
+    chatId = chat.id;
+    log.info(`chats_post: created chat ${chatId}`);
+
+    if (project.folderId) {
+      await client.moveChatToFolder(chatId, project.folderId);
+    }
+  }
+
+  const posted = await client.appendMessage(chatId, {
+    role: "assistant",
+    content: input.message,
+    modelName: "Coding Agent",
+  });
+  log.info(`chats_post: posted message ${posted.id} to chat ${chatId}`);
+
+  return [
+    input.chat_id ? `Message posted.` : `Chat "${input.title}" created.`,
+    ``,
+    `Chat ID: ${chatId}`,
+    `Message ID: ${posted.id}`,
+    `Chat URL: ${client.chatUrl(chatId)}`,
+  ].join("\n");
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from "vitest";
+import { CoChatClient, type CoChatChatResponse, type CoChatMessage } from "../cochat-client.js";
+import { chatsRead } from "./chats-read.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function message(overrides: Partial<CoChatMessage>): CoChatMessage {
+  return { id: "msg", parentId: null, childrenIds: [], role: "user", content: "", timestamp: 1, ...overrides };
+}
+
+// root -> q -> (a1 | a2), with a2 the regenerated answer CoChat shows
+const messages: Record<string, CoChatMessage> = {
+  root: message({
+    id: "root",
+    content: "Should we shard by tenant?",
+    childrenIds: ["a1", "a2"],
+    author: { id: "u1", name: "Alice", email: "alice@example.com", timestamp: 1 },
+  }),
+  a1: message({ id: "a1", parentId: "root", role: "assistant", content: "Old answer", timestamp: 2, modelName: "GPT" }),
+  a2: message({ id: "a2", parentId: "root", role: "assistant", content: "New answer", timestamp: 3, modelName: "GPT" }),
+};
+
+function makeClient(currentId: string | null): CoChatClient {
+  const client = new CoChatClient({ cochatUrl: "https://cochat.example.com", apiKey: "key" });
+  vi.spyOn(client, "getChat").mockResolvedValue({
+    id: "chat-1",
+    title: "Sharding discussion",
+    chat: { history: { messages, currentId } },
+  } as unknown as CoChatChatResponse);
+  return client;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("chatsRead", () => {
+  it("renders only the active branch with authors", async () => {
+    const result = await chatsRead(makeClient("a2"), { chat_id: "chat-1" });
+
+    expect(result).toContain("## Sharding discussion");
+    expect(result).toContain("### Alice (1970-01-01T00:00:01.000Z, id: root)");
+    expect(result).toContain("### GPT");
+    expect(result).toContain("New answer");
+    expect(result).not.toContain("Old answer");
+    expect(result).toContain("Chat URL: https://cochat.example.com/c/chat-1");
+  });
+
+  it("falls back to every message when there is no currentId", async () => {
+    const result = await chatsRead(makeClient(null), { chat_id: "chat-1" });
+
+    expect(result).toContain("Old answer");
+    expect(result).toContain("New answer");
+  });
+
+  it("limits output to the most recent messages", async () => {
+    const result = await chatsRead(makeClient("a2"), { chat_id: "chat-1", limit: 1 });
+
+    expect(result).toContain("*Showing the last 1 of 2 messages.*");
+    expect(result).not.toContain("Should we shard by tenant?");
+  });
+});
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import type { CoChatClient, CoChatMessage } from "../cochat-client.js";
+
+export const ChatsReadSchema = z.object({
+  chat_id: z.string().describe("Chat ID to read (see chats_list)"),
+  limit: z
+    .number()
+    .optional()
+    .describe("Only show the most recent N messages (default: 50)"),
+});
+
+export type ChatsReadInput = z.infer<typeof ChatsReadSchema>;
+
+function formatAuthor(msg: CoChatMessage): string {
+  if (msg.author?.name) return msg.author.name;
+  if (msg.role === "assistant") return msg.modelName ?? msg.model ?? "Assistant";
+  return msg.role;
+}
+
+export async function chatsRead(
+  client: CoChatClient,
+  input: ChatsReadInput,
+): Promise<string> {
+  const chat = await client.getChat(input.chat_id);
+  const messages = client.extractActiveBranch(chat);
+
+  if (messages.length === 0) {
+    return `Chat ${input.chat_id} has no messages.`;
+  }
+
+  const limit = input.limit ?? 50;
+  const shown = messages.slice(-limit);
+
+  const lines: string[] = [`## ${chat.title}`, ``];
+
+  if (shown.length < messages.length) {
+    lines.push(`*Showing the last ${shown.length} of ${messages.length} messages.*`);
+    lines.push(``);
+  }
+
+  for (const msg of shown) {
+    const time = new Date(msg.timestamp * 1000).toISOString();
+    lines.push(`### ${formatAuthor(msg)} (${time}, id: ${msg.id})`);
+    lines.push(``);
+    lines.push(msg.content);
+    lines.push(``);
+  }
+
+  lines.push(`Chat URL: ${client.chatUrl(input.chat_id)}`);
+
+  return lines.join("\n");
+}
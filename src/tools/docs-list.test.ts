@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { CoChatClient, CoChatChatResponse, CoChatMessage } from "../cochat-client.js";
+import type { CoChatStore, TrackedDoc } from "../config.js";
+import { docMarker } from "../doc-format.js";
+
+// Mock the local store
+vi.mock("../config.js", () => ({
+  loadStore: vi.fn(),
+}));
+
+import { docsList } from "./docs-list.js";
+import { loadStore } from "../config.js";
+
+function trackedDoc(chatId: string, kind: TrackedDoc["kind"], title: string, updatedAt: string): TrackedDoc {
+  return {
+    chatId,
+    messageId: "doc-msg",
+    kind,
+    title,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt,
+    url: `https://cochat.example.com/c/${chatId}`,
+  };
+}
+
+function message(id: string, content: string): CoChatMessage {
+  return { id, parentId: null, childrenIds: [], role: "user", content, timestamp: 1 };
+}
+
+function makeClient(): CoChatClient {
+  return {
+    getChat: vi.fn(async (chatId: string) => {
+      if (chatId === "gone") throw new Error("CoChat API failed (404)");
+      return { id: chatId } as CoChatChatResponse;
+    }),
+    extractMessages: vi.fn(() => [
+      message("doc-msg", `${docMarker("adr")}\n# ADR`),
+      message("r1", "Agreed"),
+      message("r2", "What about MySQL?"),
+    ]),
+  } as unknown as CoChatClient;
+}
+
+function store(docs: TrackedDoc[]): CoChatStore {
+  return {
+    projects: {},
+    plans: {},
+    askAutomations: {},
+    revisions: {},
+    docs: Object.fromEntries(docs.map((d) => [d.chatId, d])),
+    templates: {},
+    pendingShares: {},
+  };
+}
+
+describe("docsList", () => {
+  beforeEach(() => {
+    vi.mocked(loadStore).mockReturnValue(
+      store([
+        trackedDoc("adr-1", "adr", "Use Postgres", "2026-01-02T00:00:00.000Z"),
+        trackedDoc("gone", "report", "Flaky tests", "2026-01-03T00:00:00.000Z"),
+      ]),
+    );
+  });
+
+  it("lists documents newest first with their reply counts", async () => {
+    const result = await docsList(makeClient(), {});
+
+    expect(result).toContain("## Shared Documents (2)");
+    expect(result.indexOf("Report: Flaky tests")).toBeLessThan(result.indexOf("ADR: Use Postgres"));
+    expect(result).toContain("- **ADR: Use Postgres**\n  - Chat ID: adr-1");
+    // The document itself is not a reply; an unreachable chat shows zero
+    expect(result).toMatch(/Chat ID: adr-1[\s\S]*Replies: 2 message\(s\)/);
+    expect(result).toMatch(/Chat ID: gone[\s\S]*Replies: 0 message\(s\)/);
+  });
+
+  it("filters by kind", async () => {
+    const result = await docsList(makeClient(), { kind: "adr" });
+
+    expect(result).toContain("## Shared Documents (1)");
+    expect(result).not.toContain("Flaky tests");
+    expect(await docsList(makeClient(), { kind: "diff" })).toBe("No shared diff documents tracked.");
+  });
+
+  it("points to docs_share when nothing is tracked", async () => {
+    vi.mocked(loadStore).mockReturnValue(store([]));
+
+    expect(await docsList(makeClient(), {})).toBe(
+      "No shared documents tracked. Use docs_share to share one first.",
+    );
+  });
+});
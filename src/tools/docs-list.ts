@@ -0,0 +1,50 @@
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import { loadStore } from "../config.js";
+import { docKindLabel, isDocMessage } from "../doc-format.js";
+
+export const DocsListSchema = z.object({
+  kind: z
+    .enum(["adr", "diff", "review", "report"])
+    .optional()
+    .describe("Only list documents of this kind"),
+});
+
+export type DocsListInput = z.infer<typeof DocsListSchema>;
+
+export async function docsList(
+  client: CoChatClient,
+  input: DocsListInput,
+): Promise<string> {
+  const store = loadStore();
+  const docs = Object.values(store.docs)
+    .filter((d) => !input.kind || d.kind === input.kind)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+
+  if (docs.length === 0) {
+    return input.kind
+      ? `No shared ${input.kind} documents tracked.`
+      : "No shared documents tracked. Use docs_share to share one first.";
+  }
+
+  const lines: string[] = [`## Shared Documents (${docs.length})`, ``];
+
+  for (const doc of docs) {
+    let replyCount = 0;
+    try {
+      const chat = await client.getChat(doc.chatId);
+      replyCount = client.extractMessages(chat).filter((m) => !isDocMessage(m.content)).length;
+    } catch {
+      // ignore fetch errors
+    }
+
+    lines.push(`- **${docKindLabel(doc.kind)}: ${doc.title}**`);
+    lines.push(`  - Chat ID: ${doc.chatId}`);
+    lines.push(`  - URL: ${doc.url}`);
+    lines.push(`  - Updated: ${doc.updatedAt}`);
+    lines.push(`  - Replies: ${replyCount} message(s)`);
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
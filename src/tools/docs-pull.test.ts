@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { CoChatClient, CoChatChatResponse, CoChatMessage } from "../cochat-client.js";
+import type { TrackedDoc } from "../config.js";
+import { docMarker } from "../doc-format.js";
+
+// Mock the local store
+vi.mock("../config.js", () => ({
+  getMostRecentDoc: vi.fn(),
+}));
+
+import { docsPull } from "./docs-pull.js";
+import { getMostRecentDoc } from "../config.js";
+
+const recent: TrackedDoc = {
+  chatId: "chat-recent",
+  messageId: "doc-msg",
+  kind: "review",
+  title: "PR 12",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  url: "https://cochat.example.com/c/chat-recent",
+};
+
+function message(overrides: Partial<CoChatMessage>): CoChatMessage {
+  return { id: "msg", parentId: null, childrenIds: [], role: "user", content: "", timestamp: 1, ...overrides };
+}
+
+function makeClient(messages: CoChatMessage[]): CoChatClient {
+  return {
+    getChat: vi.fn().mockResolvedValue({ id: "chat-1" } as CoChatChatResponse),
+    extractMessages: vi.fn().mockReturnValue(messages),
+    chatUrl: vi.fn((id: string) => `https://cochat.example.com/c/${id}`),
+  } as unknown as CoChatClient;
+}
+
+const doc = message({
+  id: "doc-msg",
+  role: "assistant",
+  content: `${docMarker("review")}\n# Review: PR 12\n\nLooks fine.`,
+});
+
+describe("docsPull", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getMostRecentDoc).mockReturnValue(recent);
+  });
+
+  it("returns the document without its marker, followed by replies", async () => {
+    const client = makeClient([
+      doc,
+      message({ id: "r1", content: "Ship it", timestamp: 60, author: { id: "u1", name: "Alice", email: "a@x.com", timestamp: 60 } }),
+    ]);
+
+    const result = await docsPull(client, { chat_id: "chat-1" });
+
+    expect(result.startsWith("# Review: PR 12")).toBe(true);
+    expect(result).not.toContain("cochat-doc");
+    expect(result).toContain("### Replies (1 message(s))");
+    expect(result).toContain("**Alice** (1970-01-01T00:01:00.000Z, id: r1):\nShip it");
+    expect(result).toContain("Chat URL: https://cochat.example.com/c/chat-1");
+  });
+
+  it("pulls the most recent document by default", async () => {
+    const client = makeClient([doc]);
+
+    const result = await docsPull(client, {});
+
+    expect(client.getChat).toHaveBeenCalledWith("chat-recent");
+    expect(result).toContain("### Replies\nNo replies yet.");
+  });
+
+  it("rejects chats without a shared document", async () => {
+    const result = await docsPull(makeClient([message({ content: "hello" })]), { chat_id: "chat-9" });
+
+    expect(result).toBe("Chat chat-9 does not contain a document created by this tool.");
+  });
+
+  it("points to docs_share when nothing is tracked", async () => {
+    vi.mocked(getMostRecentDoc).mockReturnValue(undefined);
+
+    expect(await docsPull(makeClient([]), {})).toBe(
+      "No shared documents found. Use docs_share to share one first.",
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import { getMostRecentDoc } from "../config.js";
+import { detectDocKind, stripDocMarker } from "../doc-format.js";
+
+export const DocsPullSchema = z.object({
+  chat_id: z
+    .string()
+    .optional()
+    .describe("Chat ID of the document. If not provided, pulls the most recently shared document."),
+});
+
+export type DocsPullInput = z.infer<typeof DocsPullSchema>;
+
+export async function docsPull(
+  client: CoChatClient,
+  input: DocsPullInput,
+): Promise<string> {
+  const chatId = input.chat_id ?? getMostRecentDoc()?.chatId;
+
+  if (!chatId) {
+    return "No shared documents found. Use docs_share to share one first.";
+  }
+
+  const chat = await client.getChat(chatId);
+  const messages = client.extractMessages(chat);
+  const docMessage = messages.find((m) => detectDocKind(m.content));
+
+  if (!docMessage) {
+    return `Chat ${chatId} does not contain a document created by this tool.`;
+  }
+
+  const replies = messages.filter((m) => m.id !== docMessage.id);
+  const parts: string[] = [stripDocMarker(docMessage.content), ""];
+
+  if (replies.length > 0) {
+    parts.push(`### Replies (${replies.length} message(s))`);
+    parts.push("");
+    for (const msg of replies) {
+      const authorName = msg.author?.name ?? msg.role;
+      const time = new Date(msg.timestamp * 1000).toISOString();
+      parts.push(`**${authorName}** (${time}, id: ${msg.id}):`);
+      parts.push(msg.content);
+      parts.push("");
+    }
+  } else {
+    parts.push("### Replies");
+    parts.push("No replies yet.");
+    parts.push("");
+  }
+
+  parts.push(`Chat URL: ${client.chatUrl(chatId)}`);
+
+  return parts.join("\n");
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CoChatUnsupportedError, type CoChatClient, type CoChatChatResponse } from "../cochat-client.js";
+
+vi.mock("../config.js", () => ({
+  trackDoc: vi.fn(),
+}));
+
+vi.mock("./projects-add.js", () => ({
+  resolveCurrentProjectFolder: vi.fn().mockResolvedValue({
+    folderId: "folder-1",
+    projectName: "myorg/myrepo",
+    projectPath: "/repo",
+    folderUrl: "https://cochat.example.com/f/folder-1",
+    created: false,
+  }),
+}));
+
+import { docsShare } from "./docs-share.js";
+import { trackDoc } from "../config.js";
+
+function makeMockClient(): CoChatClient {
+  return {
+    getDefaultModel: vi.fn().mockResolvedValue("test-model"),
+    capabilities: vi.fn().mockResolvedValue({ unsupported: new Set() }),
+    createChat: vi.fn().mockResolvedValue({ id: "chat-1" } as CoChatChatResponse),
+    appendMessage: vi.fn().mockResolvedValue({ id: "doc-msg" }),
+    moveChatToFolder: vi.fn().mockResolvedValue({}),
+    enableCollaboration: vi.fn().mockResolvedValue({}),
+    setLinkAccess: vi.fn().mockResolvedValue({}),
+    inviteUsers: vi.fn().mockResolvedValue({}),
+    deleteChat: vi.fn().mockResolvedValue(undefined),
+    chatUrl: vi.fn((id: string) => `https://cochat.example.com/c/${id}`),
+  } as unknown as CoChatClient;
+}
+
+describe("docsShare", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("shares an ADR into the project folder and tracks it", async () => {
+    const client = makeMockClient();
+
+    const result = await docsShare(client, {
+      kind: "adr",
+      title: "Use Postgres",
+      context: "Need transactions",
+      decision: "Adopt Postgres",
+      consequences: "Ops must run it",
+    });
+
+    expect(result).toContain('ADR "Use Postgres" shared successfully.');
+    expect(vi.mocked(client.createChat).mock.calls[0][0].title).toBe("ADR: Use Postgres");
+    expect(vi.mocked(client.appendMessage).mock.calls[0][1].content).toContain("<!-- cochat-doc:adr -->");
+    expect(client.moveChatToFolder).toHaveBeenCalledWith("chat-1", "folder-1");
+    expect(client.setLinkAccess).toHaveBeenCalledWith("chat-1", "write");
+    expect(trackDoc).toHaveBeenCalledWith(
+      expect.objectContaining({ chatId: "chat-1", messageId: "doc-msg", kind: "adr" }),
+    );
+  });
+
+  it("reports the fields a kind needs before creating anything", async () => {
+    const client = makeMockClient();
+
+    const result = await docsShare(client, { kind: "diff", title: "Change", summary: "Why" });
+
+    expect(result).toBe("A diff document needs: diff.");
+    expect(client.createChat).not.toHaveBeenCalled();
+  });
+
+  it.each(["appendMessage", "moveChatToFolder", "inviteUsers"] as const)(
+    "deletes the new chat and does not track it when %s fails",
+    async (step) => {
+      const client = makeMockClient();
+      vi.mocked(client[step]).mockRejectedValue(new Error("CoChat API failed (500)"));
+
+      await expect(
+        docsShare(client, {
+          kind: "report",
+          title: "Flaky tests",
+          summary: "Two suites fail",
+          invite_emails: ["bob@example.com"],
+        }),
+      ).rejects.toThrow("CoChat API failed (500)");
+
+      expect(client.deleteChat).toHaveBeenCalledWith("chat-1");
+      expect(trackDoc).not.toHaveBeenCalled();
+    },
+  );
+
+  it("shares a private chat when collaboration turns out to be missing", async () => {
+    const client = makeMockClient();
+    vi.mocked(client.setLinkAccess).mockRejectedValue(new CoChatUnsupportedError("collaboration"));
+
+    const result = await docsShare(client, {
+      kind: "report",
+      title: "Flaky tests",
+      summary: "Two suites fail",
+      invite_emails: ["bob@example.com"],
+    });
+
+    expect(client.inviteUsers).not.toHaveBeenCalled();
+    expect(client.deleteChat).not.toHaveBeenCalled();
+    expect(trackDoc).toHaveBeenCalled();
+    expect(result).toContain("does not support collaboration: documents are shared as private chats");
+    expect(result).not.toContain("Invited:");
+  });
+
+  it("reports the original error when cleanup fails too", async () => {
+    const client = makeMockClient();
+    vi.mocked(client.appendMessage).mockRejectedValue(new Error("append failed"));
+    vi.mocked(client.deleteChat).mockRejectedValue(new Error("delete failed"));
+
+    await expect(
+      docsShare(client, { kind: "review", title: "PR 12", summary: "Looks fine" }),
+    ).rejects.toThrow("append failed");
+    expect(trackDoc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,229 @@
+import { z } from "zod";
+import { supports, TOOL_DEGRADATIONS } from "../capabilities.js";
+import { CoChatUnsupportedError, type CoChatClient, type CoChatMessage } from "../cochat-client.js";
+import { trackDoc } from "../config.js";
+import { log } from "../logger.js";
+import { docKindLabel, docToMarkdown, type DocKind, type SharedDoc } from "../doc-format.js";
+import { resolveCurrentProjectFolder } from "./projects-add.js";
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+export const DocsShareSchema = z.object({
+  kind: z
+    .enum(["adr", "diff", "review", "report"])
+    .describe(
+      "Document kind: 'adr' (architecture decision record), 'diff' (working-tree diff with an " +
+      "explanation), 'review' (code review / PR summary), 'report' (test failures or investigation)"
+    ),
+  title: z.string().describe("Title of the document"),
+  summary: z
+    .string()
+    .optional()
+    .describe("Markdown summary. Required for diff (what the change does and why), review and report."),
+  status: z
+    .enum(["proposed", "accepted", "deprecated", "superseded"])
+    .optional()
+    .describe("ADR status (default: proposed)"),
+  context: z.string().optional().describe("ADR: the problem and forces at play"),
+  decision: z.string().optional().describe("ADR: the decision taken"),
+  consequences: z.string().optional().describe("ADR: resulting trade-offs and follow-ups"),
+  alternatives: z.string().optional().describe("ADR: alternatives considered and why they were rejected"),
+  diff: z.string().optional().describe("Diff: unified diff text, e.g. the output of `git diff`"),
+  verdict: z
+    .enum(["approve", "comment", "request_changes"])
+    .optional()
+    .describe("Review: overall verdict"),
+  findings: z
+    .array(
+      z.object({
+        severity: z.enum(["blocker", "major", "minor", "nit"]).describe("How serious the finding is"),
+        file: z.string().optional().describe("File path the finding refers to"),
+        line: z.number().optional().describe("Line number in the file"),
+        comment: z.string().describe("The finding"),
+      }),
+    )
+    .optional()
+    .describe("Review: individual findings"),
+  failures: z
+    .array(
+      z.object({
+        name: z.string().describe("Failing test or check name"),
+        message: z.string().describe("Failure output"),
+      }),
+    )
+    .optional()
+    .describe("Report: failing tests or checks"),
+  body: z.string().optional().describe("Report: additional details in markdown"),
+  invite_emails: z
+    .array(z.string())
+    .optional()
+    .describe("Email addresses of engineers to invite to collaborate"),
+  model: z
+    .string()
+    .optional()
+    .describe("The model that wrote this document, so engineers know which AI produced it"),
+});
+
+export type DocsShareInput = z.infer<typeof DocsShareSchema>;
+
+const REQUIRED_FIELDS: Record<DocKind, (keyof DocsShareInput)[]> = {
+  adr: ["context", "decision", "consequences"],
+  diff: ["summary", "diff"],
+  review: ["summary"],
+  report: ["summary"],
+};
+
+function buildDoc(input: DocsShareInput, now: string): SharedDoc {
+  const base = {
+    title: input.title,
+    metadata: { source: "coding-agent", model: input.model, createdAt: now, updatedAt: now },
+  };
+
+  switch (input.kind) {
+    case "adr":
+      return {
+        ...base,
+        kind: "adr",
+        status: input.status ?? "proposed",
+        context: input.context!,
+        decision: input.decision!,
+        consequences: input.consequences!,
+        alternatives: input.alternatives,
+      };
+    case "diff":
+      return { ...base, kind: "diff", summary: input.summary!, diff: input.diff! };
+    case "review":
+      return {
+        ...base,
+        kind: "review",
+        summary: input.summary!,
+        verdict: input.verdict,
+        findings: input.findings ?? [],
+      };
+    case "report":
+      return {
+        ...base,
+        kind: "report",
+        summary: input.summary!,
+        body: input.body,
+        failures: input.failures ?? [],
+      };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tool implementation
+// ---------------------------------------------------------------------------
+
+export async function docsShare(
+  client: CoChatClient,
+  input: DocsShareInput,
+): Promise<string> {
+  const missing = REQUIRED_FIELDS[input.kind].filter((field) => !input[field]);
+  if (missing.length > 0) {
+    return `A ${input.kind} document needs: ${missing.join(", ")}.`;
+  }
+
+  const now = new Date().toISOString();
+  const label = docKindLabel(input.kind);
+  log.info(`docs_share: sharing ${input.kind} "${input.title}"`);
+
+  const project = await resolveCurrentProjectFolder(client);
+  const markdown = docToMarkdown(buildDoc(input, now));
+
+  const chat = await client.createChat({
+    title: `${label}: ${input.title}`,
+    models: [await client.getDefaultModel()],
+    history: { messages: {}, currentId: null },
+    messages: [],
+    tags: [],
+    timestamp: Date.now(),
+  });
+  log.info(`docs_share: chat created (id: ${chat.id})`);
+
+  // Anything that fails from here on would leave an untracked chat behind
+  // that no tool can find again, so remove it before reporting the error.
+  let message: CoChatMessage;
+  let collaborative: boolean;
+  let invitedCount = 0;
+  try {
+    message = await client.appendMessage(chat.id, {
+      role: "assistant",
+      content: markdown,
+      modelName: "CoChat Docs",
+    });
+
+    if (project.folderId) {
+      await client.moveChatToFolder(chat.id, project.folderId);
+    }
+    collaborative = supports(await client.capabilities(), "collaboration");
+    if (collaborative) {
+      collaborative = await shareWithCollaborators(client, chat.id, input.invite_emails);
+      if (collaborative) invitedCount = input.invite_emails?.length ?? 0;
+    }
+  } catch (err) {
+    await client.deleteChat(chat.id).then(
+      () => log.info(`docs_share: deleted unfinished chat ${chat.id}`),
+      (cleanupErr: unknown) =>
+        log.warn(`docs_share: could not delete unfinished chat ${chat.id}`, {
+          error: cleanupErr instanceof Error ? cleanupErr.message : String(cleanupErr),
+        }),
+    );
+    throw err;
+  }
+
+  const url = client.chatUrl(chat.id);
+  trackDoc({
+    chatId: chat.id,
+    messageId: message.id,
+    kind: input.kind,
+    title: input.title,
+    createdAt: now,
+    updatedAt: now,
+    url,
+    folderId: project.folderId,
+  });
+
+  const parts: string[] = [
+    `${label} "${input.title}" shared successfully.`,
+    ``,
+    `Chat URL: ${url}`,
+    `Chat ID: ${chat.id}`,
+    `Project: ${project.projectName}`,
+  ];
+  if (invitedCount > 0) {
+    parts.push(`Invited: ${invitedCount} engineer(s)`);
+  }
+  if (!collaborative) parts.push(``, TOOL_DEGRADATIONS.docs_share.note);
+  parts.push(``, `Use docs_pull to retrieve replies.`);
+
+  return parts.join("\n");
+}
+
+/**
+ * Open the chat to collaborators. Servers that don't report the feature flag
+ * only show it with a 404 here; the document then stays a private chat and
+ * this returns false.
+ */
+async function shareWithCollaborators(
+  client: CoChatClient,
+  chatId: string,
+  inviteEmails: string[] | undefined,
+): Promise<boolean> {
+  try {
+    await client.enableCollaboration(chatId);
+    await client.setLinkAccess(chatId, "write");
+    if (inviteEmails && inviteEmails.length > 0) {
+      await client.inviteUsers(chatId, inviteEmails, "write");
+    }
+    return true;
+  } catch (err) {
+    if (err instanceof CoChatUnsupportedError && err.capability === "collaboration") {
+      log.warn(`docs_share: collaboration unsupported, sharing chat ${chatId} privately`);
+      return false;
+    }
+    throw err;
+  }
+}
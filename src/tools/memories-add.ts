@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { supports, TOOL_DEGRADATIONS } from "../capabilities.js";
 import type { CoChatClient } from "../cochat-client.js";
 import { resolveCurrentProjectFolder } from "./projects-add.js";
 
@@ -18,7 +19,8 @@ export async function memoryAdd(
   input: MemoryAddInput,
 ): Promise<string> {
   const project = await resolveCurrentProjectFolder(client);
-  const result = await client.addMemory(input.content, project.folderId);
+  const scoped = supports(await client.capabilities(), "folder_memories");
+  const result = await client.addMemory(input.content, scoped ? project.folderId : undefined);
 
   return [
     `Memory added successfully.`,
@@ -27,6 +29,8 @@ export async function memoryAdd(
     `Project: ${project.projectName}`,
     `Content: ${input.content.length > 100 ? input.content.slice(0, 100) + "..." : input.content}`,
     ``,
-    `This memory is now available in all CoChat conversations for this project.`,
+    scoped
+      ? `This memory is now available in all CoChat conversations for this project.`
+      : TOOL_DEGRADATIONS.memories_add.note,
   ].join("\n");
 }
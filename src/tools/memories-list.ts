@@ -1,9 +1,11 @@
+import { supports, TOOL_DEGRADATIONS } from "../capabilities.js";
 import type { CoChatClient } from "../cochat-client.js";
 import { resolveCurrentProjectFolder } from "./projects-add.js";
 
 export async function memoryList(client: CoChatClient): Promise<string> {
   const project = await resolveCurrentProjectFolder(client);
-  const memories = await client.listMemories(project.folderId);
+  const scoped = supports(await client.capabilities(), "folder_memories");
+  const memories = await client.listMemories(scoped ? project.folderId : undefined);
 
   if (!memories || memories.length === 0) {
     return `No memories found for project "${project.projectName}".`;
@@ -26,6 +28,7 @@ export async function memoryList(client: CoChatClient): Promise<string> {
         : mem.content;
     lines.push(`- **${mem.id}** (${date}): ${preview}`);
   }
+  if (!scoped) lines.push(``, TOOL_DEGRADATIONS.memories_list.note);
 
   return lines.join("\n");
 }
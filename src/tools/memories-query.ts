@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { supports, TOOL_DEGRADATIONS } from "../capabilities.js";
 import type { CoChatClient } from "../cochat-client.js";
 import { resolveCurrentProjectFolder } from "./projects-add.js";
 
@@ -17,10 +18,11 @@ export async function memoryQuery(
   input: MemoryQueryInput,
 ): Promise<string> {
   const project = await resolveCurrentProjectFolder(client);
+  const scoped = supports(await client.capabilities(), "folder_memories");
   const results = await client.queryMemories(
     input.query,
     input.count ?? 5,
-    project.folderId,
+    scoped ? project.folderId : undefined,
   );
 
   if (!results || results.length === 0) {
@@ -43,6 +45,7 @@ export async function memoryQuery(
     lines.push(mem.content);
     lines.push(``);
   }
+  if (!scoped) lines.push(TOOL_DEGRADATIONS.memories_query.note);
 
   return lines.join("\n");
 }
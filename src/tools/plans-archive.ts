@@ -0,0 +1,24 @@
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import { plansClose } from "./plans-close.js";
+
+export const PlansArchiveSchema = z.object({
+  chat_id: z
+    .string()
+    .optional()
+    .describe("Chat ID of the plan. If not provided, uses the most recently updated open plan."),
+  untrack: z
+    .boolean()
+    .optional()
+    .describe("Forget the plan locally, including its revision history"),
+});
+
+export type PlansArchiveInput = z.infer<typeof PlansArchiveSchema>;
+
+/** plans_close that also archives the chat in CoChat. */
+export async function plansArchive(
+  client: CoChatClient,
+  input: PlansArchiveInput,
+): Promise<string> {
+  return plansClose(client, { ...input, archive: true });
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { CoChatClient, CoChatChatResponse, CoChatMessage } from "../cochat-client.js";
+import type { TrackedPlan } from "../config.js";
+import { markdownToPlan, planToMarkdown } from "../plan-format.js";
+
+// Mock the local store
+vi.mock("../config.js", () => ({
+  getTrackedPlan: vi.fn(),
+  getMostRecentPlan: vi.fn(),
+  trackPlan: vi.fn(),
+  untrackPlan: vi.fn(),
+  addPlanRevision: vi.fn(),
+  getPlanRevisions: vi.fn(() => []),
+}));
+
+import { plansClose } from "./plans-close.js";
+import { plansArchive } from "./plans-archive.js";
+import { getTrackedPlan, trackPlan, untrackPlan } from "../config.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const tracked: TrackedPlan = {
+  chatId: "chat-1",
+  planMessageId: "plan-msg",
+  title: "Close Plan",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  url: "https://cochat.example.com/c/chat-1",
+};
+
+function makeMockClient(archived = false, approved = true): CoChatClient {
+  const planMessage: CoChatMessage = {
+    id: "plan-msg",
+    parentId: null,
+    childrenIds: [],
+    role: "assistant",
+    content: planToMarkdown({
+      title: "Close Plan",
+      items: [
+        { id: "a", content: "Done", status: "completed", priority: "high" },
+        { id: "b", content: "Never started", status: "pending", priority: "low" },
+      ],
+      metadata: {
+        source: "coding-agent",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+        status: "in_review",
+      },
+    }),
+    timestamp: 1,
+  };
+  const approval: CoChatMessage = {
+    id: "vote",
+    parentId: "plan-msg",
+    childrenIds: [],
+    role: "user",
+    content: "/approve",
+    timestamp: 2,
+    author: { id: "u1", name: "Alice", email: "alice@example.com", timestamp: 2 },
+  };
+  return {
+    getChat: vi.fn().mockResolvedValue({ id: "chat-1", archived } as CoChatChatResponse),
+    extractMessages: vi.fn().mockReturnValue(approved ? [planMessage, approval] : [planMessage]),
+    updateMessage: vi.fn().mockResolvedValue({}),
+    toggleChatArchive: vi.fn().mockResolvedValue({}),
+  } as unknown as CoChatClient;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("plansClose", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getTrackedPlan).mockReturnValue(tracked);
+  });
+
+  it("marks the plan done and moves it to the closed list", async () => {
+    const client = makeMockClient();
+
+    const result = await plansClose(client, { chat_id: "chat-1" });
+
+    const pushed = markdownToPlan(vi.mocked(client.updateMessage).mock.calls[0][2])!;
+    expect(pushed.metadata.status).toBe("done");
+    expect(result).toContain("Status: done (was approved)");
+    expect(result).toContain("1 task(s) were still pending or in progress");
+    expect(client.toggleChatArchive).not.toHaveBeenCalled();
+    expect(trackPlan).toHaveBeenCalledWith(
+      expect.objectContaining({ chatId: "chat-1", closedAt: expect.any(String), archived: false }),
+    );
+  });
+
+  it("closes an unapproved plan without marking it done", async () => {
+    const client = makeMockClient(false, false);
+
+    const result = await plansClose(client, { chat_id: "chat-1" });
+
+    expect(client.updateMessage).not.toHaveBeenCalled();
+    expect(result).toContain("Status: left at in_review; only approved plans are marked done");
+    expect(trackPlan).toHaveBeenCalledWith(expect.objectContaining({ closedAt: expect.any(String) }));
+  });
+
+  it("forgets the plan with untrack", async () => {
+    await plansClose(makeMockClient(), { chat_id: "chat-1", untrack: true });
+
+    expect(untrackPlan).toHaveBeenCalledWith("chat-1");
+    expect(trackPlan).not.toHaveBeenCalled();
+  });
+
+  it("reports when there is no open plan", async () => {
+    const result = await plansClose(makeMockClient(), {});
+    expect(result).toContain("No open plans found");
+  });
+});
+
+describe("plansArchive", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getTrackedPlan).mockReturnValue(tracked);
+  });
+
+  it("archives the chat in CoChat", async () => {
+    const client = makeMockClient();
+
+    const result = await plansArchive(client, { chat_id: "chat-1" });
+
+    expect(client.toggleChatArchive).toHaveBeenCalledWith("chat-1");
+    expect(result).toContain("Chat archived in CoChat.");
+    expect(trackPlan).toHaveBeenCalledWith(expect.objectContaining({ archived: true }));
+  });
+
+  it("does not unarchive a chat that is already archived", async () => {
+    const client = makeMockClient(true);
+
+    await plansArchive(client, { chat_id: "chat-1" });
+
+    expect(client.toggleChatArchive).not.toHaveBeenCalled();
+  });
+});
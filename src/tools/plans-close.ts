@@ -0,0 +1,112 @@
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import {
+  addPlanRevision,
+  getMostRecentPlan,
+  getTrackedPlan,
+  trackPlan,
+  untrackPlan,
+} from "../config.js";
+import { hashPlanContent, planBase } from "../plan-diff.js";
+import { isPlanMessage, markdownToPlan, planToMarkdown } from "../plan-format.js";
+import { computeReviewState, isImplementationAllowed } from "../plan-review.js";
+import { countStatuses } from "../plan-stats.js";
+import { captureRemoteRevision } from "./plans-history.js";
+
+export const PlansCloseSchema = z.object({
+  chat_id: z
+    .string()
+    .optional()
+    .describe("Chat ID of the plan. If not provided, uses the most recently updated open plan."),
+  archive: z
+    .boolean()
+    .optional()
+    .describe("Also archive the chat in CoChat (see plans_archive)"),
+  untrack: z
+    .boolean()
+    .optional()
+    .describe(
+      "Forget the plan locally, including its revision history, instead of keeping it in " +
+      "plans_list's closed list",
+    ),
+});
+
+export type PlansCloseInput = z.infer<typeof PlansCloseSchema>;
+
+/**
+ * Mark a plan done in its markdown, optionally archive its chat, and take it
+ * off the active list (or forget it entirely with `untrack`). As in
+ * plans_status, only approved plans are marked done; an abandoned plan is
+ * closed with its review status left as it is.
+ */
+export async function plansClose(
+  client: CoChatClient,
+  input: PlansCloseInput,
+): Promise<string> {
+  const tracked = input.chat_id ? getTrackedPlan(input.chat_id) : getMostRecentPlan();
+
+  if (!tracked) {
+    return input.chat_id
+      ? `Plan with chat ID ${input.chat_id} is not tracked locally. Use plans_list to see tracked plans.`
+      : "No open plans found. Use plans_list with status 'closed' to see closed plans.";
+  }
+
+  const now = new Date().toISOString();
+  const chat = await client.getChat(tracked.chatId);
+  const messages = client.extractMessages(chat);
+  const planMessage = messages.find((m) => isPlanMessage(m.content));
+  const current = planMessage ? markdownToPlan(planMessage.content) : null;
+  const parts = [`Plan "${tracked.title}" closed.`, ""];
+
+  let base = tracked.base;
+  if (planMessage && current) {
+    const counts = countStatuses(current.items);
+    const open = counts.pending + counts.in_progress;
+    const state = computeReviewState(current, messages);
+    if (!isImplementationAllowed(state)) {
+      parts.push(
+        `Status: left at ${state.status}; only approved plans are marked done (see plans_status).`,
+      );
+    } else if (current.metadata.status !== "done") {
+      const previous = state.status;
+      const markdown = planToMarkdown({
+        ...current,
+        metadata: { ...current.metadata, status: "done", updatedAt: now },
+      });
+      captureRemoteRevision(tracked.chatId, planMessage.content);
+      await client.updateMessage(tracked.chatId, tracked.planMessageId, markdown);
+      addPlanRevision(tracked.chatId, {
+        createdAt: now,
+        source: "update",
+        model: current.metadata.model,
+        markdown,
+        note: "Closed",
+      });
+      // As in plans_status, a stale base stays stale
+      if (tracked.base?.hash === hashPlanContent(planMessage.content)) base = planBase(markdown, now);
+      parts.push(`Status: done (was ${previous})`);
+    } else {
+      parts.push("Status: done");
+    }
+    if (open > 0) parts.push(`Note: ${open} task(s) were still pending or in progress.`);
+  } else {
+    parts.push("The chat has no readable plan message, so only the local tracking changed.");
+  }
+
+  let archived = tracked.archived ?? false;
+  if (input.archive) {
+    if (!chat.archived) await client.toggleChatArchive(tracked.chatId);
+    archived = true;
+    parts.push("Chat archived in CoChat.");
+  }
+
+  if (input.untrack) {
+    untrackPlan(tracked.chatId);
+    parts.push("No longer tracked locally; its revision history was removed.");
+  } else {
+    trackPlan({ ...tracked, updatedAt: now, base, closedAt: now, archived });
+    parts.push("Removed from the active plan list (plans_list status: 'closed' still shows it).");
+  }
+
+  return parts.join("\n");
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { CoChatClient, CoChatChatResponse, CoChatMessage } from "../cochat-client.js";
+import type { TrackedPlan } from "../config.js";
+import { planToMarkdown } from "../plan-format.js";
+
+// Mock the local store
+vi.mock("../config.js", () => ({
+  getTrackedPlan: vi.fn(),
+  trackPlan: vi.fn(),
+  addPlanRevision: vi.fn(),
+  getPlanRevisions: vi.fn(() => []),
+}));
+
+vi.mock("./projects-add.js", () => ({
+  resolveCurrentProjectFolder: vi.fn().mockResolvedValue({
+    folderId: "folder-1",
+    projectName: "Demo",
+  }),
+}));
+
+import { plansDiscover } from "./plans-discover.js";
+import { addPlanRevision, getTrackedPlan, trackPlan } from "../config.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function planChat(id: string, title: string, folderId = "folder-1"): CoChatChatResponse {
+  const message: CoChatMessage = {
+    id: `${id}-msg`,
+    parentId: null,
+    childrenIds: [],
+    role: "assistant",
+    content: planToMarkdown({
+      title,
+      items: [{ id: "a", content: "Task", status: "pending", priority: "high" }],
+      metadata: {
+        source: "coding-agent",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-02T00:00:00.000Z",
+      },
+    }),
+    timestamp: 1,
+  };
+  return {
+    id,
+    folder_id: folderId,
+    chat: { history: { messages: { [message.id]: message } } },
+  } as unknown as CoChatChatResponse;
+}
+
+const otherChat = {
+  id: "chat-talk",
+  folder_id: "folder-1",
+  chat: { history: { messages: { m: { id: "m", content: "Just chatting", timestamp: 1 } } } },
+} as unknown as CoChatChatResponse;
+
+function makeMockClient(): CoChatClient {
+  return {
+    listFolderChats: vi.fn().mockResolvedValue([planChat("chat-mine", "My Plan"), otherChat]),
+    // A teammate's plan only shows up in the chat list; chats in other folders are ignored
+    listChats: vi.fn().mockResolvedValue([
+      planChat("chat-mine", "My Plan"),
+      planChat("chat-theirs", "Their Plan"),
+      planChat("chat-elsewhere", "Elsewhere", "folder-2"),
+    ]),
+    getChat: vi.fn(),
+    extractMessages: vi.fn((chat: CoChatChatResponse) =>
+      Object.values((chat.chat as { history: { messages: Record<string, CoChatMessage> } }).history.messages),
+    ),
+    chatUrl: vi.fn((id: string) => `https://cochat.example.com/c/${id}`),
+  } as unknown as CoChatClient;
+}
+
+const mine: TrackedPlan = {
+  chatId: "chat-mine",
+  planMessageId: "chat-mine-msg",
+  title: "My Plan",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  url: "https://cochat.example.com/c/chat-mine",
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("plansDiscover", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getTrackedPlan).mockImplementation((id) => (id === "chat-mine" ? mine : undefined));
+  });
+
+  it("lists plans in the project folder, tracked or not", async () => {
+    const result = await plansDiscover(makeMockClient(), {});
+
+    expect(result).toContain("## Plans in Demo (2)");
+    expect(result).toContain("- **My Plan** (tracked)");
+    expect(result).toContain("- **Their Plan** (not tracked)");
+    expect(result).not.toContain("Elsewhere");
+    expect(result).toContain("track the 1 untracked plan(s)");
+    expect(trackPlan).not.toHaveBeenCalled();
+  });
+
+  it("adopts a plan into the local store", async () => {
+    const result = await plansDiscover(makeMockClient(), { adopt: ["chat-theirs", "chat-missing"] });
+
+    expect(trackPlan).toHaveBeenCalledWith(
+      expect.objectContaining({
+        chatId: "chat-theirs",
+        planMessageId: "chat-theirs-msg",
+        title: "Their Plan",
+        folderId: "folder-1",
+        base: expect.objectContaining({ items: [expect.objectContaining({ id: "a" })] }),
+      }),
+    );
+    expect(addPlanRevision).toHaveBeenCalledWith("chat-theirs", expect.objectContaining({ source: "remote" }));
+    expect(result).toContain("- **Their Plan** (adopted)");
+    expect(result).toContain("Adopted 1 plan(s): Their Plan");
+    expect(result).toContain("Not found in this project: chat-missing");
+  });
+
+  it("does not re-adopt tracked plans with adopt_all", async () => {
+    await plansDiscover(makeMockClient(), { adopt_all: true });
+
+    expect(trackPlan).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(trackPlan).mock.calls[0][0].chatId).toBe("chat-theirs");
+  });
+});
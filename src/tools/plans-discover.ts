@@ -0,0 +1,141 @@
+import { z } from "zod";
+import type { CoChatChatListItem, CoChatClient, CoChatMessage } from "../cochat-client.js";
+import { getTrackedPlan, trackPlan } from "../config.js";
+import { log } from "../logger.js";
+import { planBase } from "../plan-diff.js";
+import { isPlanMessage, markdownToPlan, type Plan } from "../plan-format.js";
+import { computeReviewState, formatReviewStatus } from "../plan-review.js";
+import { planProgress } from "../plan-stats.js";
+import { captureRemoteRevision } from "./plans-history.js";
+import { resolveCurrentProjectFolder } from "./projects-add.js";
+
+export const PlansDiscoverSchema = z.object({
+  adopt: z
+    .array(z.string())
+    .optional()
+    .describe("Chat IDs of discovered plans to track locally, so plans_pull, plans_update and the other plan tools work on them"),
+  adopt_all: z
+    .boolean()
+    .optional()
+    .describe("Track every discovered plan that isn't tracked yet"),
+});
+
+export type PlansDiscoverInput = z.infer<typeof PlansDiscoverSchema>;
+
+/** A chat in a project folder that holds a plan. */
+export interface FolderPlan {
+  chat: CoChatChatListItem;
+  messages: CoChatMessage[];
+  planMessage: CoChatMessage;
+  plan: Plan;
+}
+
+/**
+ * Every plan in a project folder, whoever shared it. Chats come from both the
+ * folder listing and the chat list (filtered to the folder), since chats
+ * owned by teammates are not always in both. Listings may omit message
+ * content; those chats are fetched one by one.
+ */
+export async function findFolderPlans(client: CoChatClient, folderId: string): Promise<FolderPlan[]> {
+  const inFolder = await client.listFolderChats(folderId);
+  // Only a fallback; the folder listing is authoritative
+  const all = await client.listChats().catch((err: unknown) => {
+    log.warn("findFolderPlans: could not list chats, using the folder listing only", {
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return [] as CoChatChatListItem[];
+  });
+  const chats = new Map<string, CoChatChatListItem>();
+  for (const chat of [...(inFolder ?? []), ...(all ?? []).filter((c) => c.folder_id === folderId)]) {
+    if (!chats.has(chat.id)) chats.set(chat.id, chat);
+  }
+
+  const plans: FolderPlan[] = [];
+  for (const listed of chats.values()) {
+    let chat: CoChatChatListItem = listed;
+    let messages = chat.chat ? client.extractMessages(chat) : [];
+    if (messages.length === 0) {
+      try {
+        chat = await client.getChat(listed.id);
+        messages = client.extractMessages(chat);
+      } catch {
+        continue;
+      }
+    }
+    const planMessage = messages.find((m) => isPlanMessage(m.content));
+    const plan = planMessage ? markdownToPlan(planMessage.content) : null;
+    if (planMessage && plan) plans.push({ chat, messages, planMessage, plan });
+  }
+  return plans;
+}
+
+function adopt(client: CoChatClient, found: FolderPlan, folderId: string): void {
+  const now = new Date().toISOString();
+  const { chat, planMessage, plan } = found;
+  trackPlan({
+    chatId: chat.id,
+    planMessageId: planMessage.id,
+    title: plan.title,
+    createdAt: plan.metadata.createdAt,
+    updatedAt: now,
+    url: client.chatUrl(chat.id),
+    folderId,
+    base: planBase(planMessage.content, now, planMessage),
+  });
+  // Start the local history at the version we adopted
+  captureRemoteRevision(chat.id, planMessage.content);
+}
+
+export async function plansDiscover(
+  client: CoChatClient,
+  input: PlansDiscoverInput,
+): Promise<string> {
+  const project = await resolveCurrentProjectFolder(client);
+  const found = await findFolderPlans(client, project.folderId);
+
+  const requested = new Set(input.adopt ?? []);
+  const adopted: string[] = [];
+  let untracked = 0;
+  const lines = [`## Plans in ${project.projectName} (${found.length})`, ""];
+
+  for (const entry of found) {
+    const { chat, messages, plan } = entry;
+    const tracked = getTrackedPlan(chat.id);
+    let state = tracked?.closedAt ? "closed" : tracked ? "tracked" : "not tracked";
+    if (!tracked && (input.adopt_all || requested.has(chat.id))) {
+      adopt(client, entry, project.folderId);
+      adopted.push(plan.title);
+      state = "adopted";
+    } else if (!tracked) {
+      untracked++;
+    }
+    requested.delete(chat.id);
+
+    const { percent, counts } = planProgress(plan.items);
+    lines.push(
+      `- **${plan.title}** (${state})`,
+      `  - Chat ID: ${chat.id}`,
+      `  - URL: ${client.chatUrl(chat.id)}`,
+      `  - Shared from: ${plan.metadata.source}${plan.metadata.model ? ` (${plan.metadata.model})` : ""}`,
+      `  - Updated: ${plan.metadata.updatedAt}`,
+      `  - Status: ${formatReviewStatus(computeReviewState(plan, messages))}`,
+      `  - Progress: ${percent}% (${counts.completed}/${counts.total - counts.cancelled} done)`,
+      "",
+    );
+  }
+
+  if (found.length === 0) {
+    lines.push("No plans found in this project's CoChat folder.", "");
+  }
+  if (adopted.length > 0) {
+    lines.push(`Adopted ${adopted.length} plan(s): ${adopted.join(", ")}. Use plans_pull to read them.`);
+  }
+  if (requested.size > 0) {
+    lines.push(`Not found in this project: ${[...requested].join(", ")}`);
+  }
+  if (untracked > 0) {
+    lines.push(`Pass adopt (chat IDs) or adopt_all: true to track the ${untracked} untracked plan(s).`);
+  }
+
+  return lines.join("\n").trimEnd();
+}
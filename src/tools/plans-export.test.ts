@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CoChatClient, CoChatChatResponse, CoChatMessage } from "../cochat-client.js";
+import type { TrackedPlan } from "../config.js";
+import { markdownToPlan, planToMarkdown, type PlanItem } from "../plan-format.js";
+import type { PlanExportJson } from "../plan-export.js";
+
+vi.mock("../config.js", () => ({
+  getTrackedPlan: vi.fn(),
+  getMostRecentPlan: vi.fn(),
+}));
+
+import { plansExport } from "./plans-export.js";
+import { getTrackedPlan } from "../config.js";
+import { setProjectRoot } from "../project.js";
+
+const tracked: TrackedPlan = {
+  chatId: "chat-1",
+  planMessageId: "plan-msg",
+  title: "Search Revamp",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  url: "https://cochat.example.com/c/chat-1",
+};
+
+function message(overrides: Partial<CoChatMessage>): CoChatMessage {
+  return { id: "msg", parentId: null, childrenIds: [], role: "user", content: "", timestamp: 1, ...overrides };
+}
+
+const defaultItems: PlanItem[] = [
+  { id: "idx", content: "Add index", status: "completed", priority: "high" },
+  { id: "qry", content: "Migrate queries", status: "pending", priority: "medium" },
+];
+
+function makeMockClient(items = defaultItems, description = "Replace the backend."): CoChatClient {
+  const plan = message({
+    id: "plan-msg",
+    role: "assistant",
+    content: planToMarkdown({
+      title: "Search Revamp",
+      description,
+      items,
+      metadata: {
+        source: "coding-agent",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-02T00:00:00.000Z",
+        status: "in_review",
+      },
+    }),
+  });
+  const feedback = [
+    message({ id: "fb-1", content: "re #2: batch them", timestamp: 100, author: { id: "u", name: "Alice", email: "a@x.com", timestamp: 100 } }),
+    message({ id: "fb-2", content: "/approve", timestamp: 200, author: { id: "u2", name: "Bob", email: "b@x.com", timestamp: 200 } }),
+  ];
+  return {
+    getChat: vi.fn().mockResolvedValue({ id: "chat-1" } as CoChatChatResponse),
+    extractMessages: vi.fn().mockReturnValue([plan, ...feedback]),
+    chatUrl: vi.fn((id: string) => `https://cochat.example.com/c/${id}`),
+  } as unknown as CoChatClient;
+}
+
+describe("plansExport", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getTrackedPlan).mockReturnValue(tracked);
+    dir = mkdtempSync(join(tmpdir(), "plans-export-"));
+    setProjectRoot(dir);
+  });
+
+  afterEach(() => {
+    setProjectRoot(null);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("writes a stable markdown file under docs/plans by default", async () => {
+    const result = await plansExport(makeMockClient(), { chat_id: "chat-1" });
+
+    expect(result).toContain("Wrote: docs/plans/search-revamp.md");
+    const md = readFileSync(join(dir, "docs/plans/search-revamp.md"), "utf-8");
+    expect(md).toContain("# Plan: Search Revamp");
+    expect(md).toContain("- Status: approved (1/1 approvals)");
+    expect(md).toContain("- [x] **[HIGH]** Add index `#1` <!-- id:idx -->");
+    expect(md).toContain("### On #2: Migrate queries\n\n**Alice** (1970-01-01T00:01:40.000Z):\n\n> re #2: batch them");
+    expect(md).toContain("### General");
+
+    // Exporting again produces identical output
+    await plansExport(makeMockClient(), { chat_id: "chat-1" });
+    expect(readFileSync(join(dir, "docs/plans/search-revamp.md"), "utf-8")).toBe(md);
+
+    // ...which plans_import can read back
+    const reimported = markdownToPlan(md, { lenient: true })!;
+    expect(reimported.items.map((i) => i.id)).toEqual(["idx", "qry"]);
+  });
+
+  it("reads back through plans_import with details, without header or feedback", async () => {
+    const items: PlanItem[] = [
+      { id: "idx", content: "Add index", status: "in_progress", priority: "high", assignee: "al@x.com", estimate: "2d" },
+      {
+        id: "qry",
+        content: "Migrate queries",
+        status: "pending",
+        priority: "low",
+        dependsOn: ["idx"],
+        children: [{ id: "cln", content: "Drop old tables", status: "cancelled", priority: "medium", due: "2026-12-01" }],
+      },
+    ];
+    const description = "Replace the backend.\n\n```sql\nCREATE INDEX;\n```";
+    await plansExport(makeMockClient(items, description), { chat_id: "chat-1" });
+
+    const md = readFileSync(join(dir, "docs/plans/search-revamp.md"), "utf-8");
+    const reimported = markdownToPlan(md, { lenient: true })!;
+
+    expect(reimported.title).toBe("Search Revamp");
+    expect(reimported.description).toBe(description);
+    expect(reimported.items).toEqual(items);
+  });
+
+  it("writes JSON next to a custom path", async () => {
+    await plansExport(makeMockClient(), { chat_id: "chat-1", path: "plans/search.md", json: true });
+
+    const json = JSON.parse(readFileSync(join(dir, "plans/search.json"), "utf-8")) as PlanExportJson;
+    expect(json.status).toBe("approved");
+    expect(json.items.map((i) => i.id)).toEqual(["idx", "qry"]);
+    expect(json.feedback[0]).toMatchObject({ id: "fb-1", author: "Alice", tasks: ["qry"] });
+  });
+
+  it("refuses paths outside the project root", async () => {
+    const result = await plansExport(makeMockClient(), { chat_id: "chat-1", path: "../escape.md" });
+
+    expect(result).toContain("outside the project root");
+    expect(existsSync(join(dir, "..", "escape.md"))).toBe(false);
+  });
+
+  it("refuses a JSON path that a symlink leads outside the project root", async () => {
+    const outside = mkdtempSync(join(tmpdir(), "plans-export-outside-"));
+    try {
+      writeFileSync(join(outside, "search.json"), "{}\n");
+      symlinkSync(join(outside, "search.json"), join(dir, "search.json"));
+
+      const result = await plansExport(makeMockClient(), { chat_id: "chat-1", path: "search.md", json: true });
+
+      expect(result).toContain("Refusing to write search.json: it is outside the project root");
+      expect(readFileSync(join(outside, "search.json"), "utf-8")).toBe("{}\n");
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
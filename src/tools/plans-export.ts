@@ -0,0 +1,94 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, extname } from "node:path";
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import { getMostRecentPlan, getTrackedPlan } from "../config.js";
+import { log } from "../logger.js";
+import { planToExportJson, planToExportMarkdown, slugify } from "../plan-export.js";
+import { isPlanMessage, isPlanReply, markdownToPlan } from "../plan-format.js";
+import { computeReviewState } from "../plan-review.js";
+import { resolveProjectFile, resolveProjectPath } from "../project.js";
+
+export const PlansExportSchema = z.object({
+  chat_id: z
+    .string()
+    .optional()
+    .describe("Chat ID of the plan to export. If not provided, exports the most recently shared plan."),
+  path: z
+    .string()
+    .optional()
+    .describe("Output path relative to the project root (default: docs/plans/<slug>.md)"),
+  json: z
+    .boolean()
+    .optional()
+    .describe("Also write a JSON version next to the markdown file (same name, .json extension)"),
+});
+
+export type PlansExportInput = z.infer<typeof PlansExportSchema>;
+
+function writeProjectFile(path: string, content: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, content, "utf-8");
+}
+
+export async function plansExport(
+  client: CoChatClient,
+  input: PlansExportInput,
+): Promise<string> {
+  const tracked = input.chat_id ? getTrackedPlan(input.chat_id) : getMostRecentPlan();
+  const chatId = input.chat_id ?? tracked?.chatId;
+
+  if (!chatId) {
+    return "No shared plans found. Use plans_share to share a plan first.";
+  }
+
+  const chat = await client.getChat(chatId);
+  const messages = client.extractMessages(chat);
+  const planMessage = messages.find((m) => isPlanMessage(m.content));
+  const plan = planMessage ? markdownToPlan(planMessage.content) : null;
+
+  if (!planMessage || !plan) {
+    return `Chat ${chatId} does not contain a readable plan message.`;
+  }
+
+  const feedback = messages.filter(
+    (m) => m.id !== planMessage.id && !isPlanReply(m.content),
+  );
+  const source = {
+    chatId,
+    url: tracked?.url ?? client.chatUrl(chatId),
+    plan,
+    review: computeReviewState(plan, messages),
+    feedback,
+  };
+
+  const relativePath = input.path ?? `docs/plans/${slugify(plan.title)}.md`;
+  const mdPath = resolveProjectFile(relativePath);
+  if (!mdPath) {
+    return `Refusing to write ${relativePath}: it is outside the project root (${resolveProjectPath()}).`;
+  }
+
+  writeProjectFile(mdPath, planToExportMarkdown(source));
+  const written = [relativePath];
+
+  if (input.json) {
+    const jsonRelative = relativePath.slice(0, relativePath.length - extname(relativePath).length) + ".json";
+    const jsonPath = resolveProjectFile(jsonRelative);
+    if (!jsonPath) {
+      return `Refusing to write ${jsonRelative}: it is outside the project root (${resolveProjectPath()}).`;
+    }
+    writeProjectFile(jsonPath, JSON.stringify(planToExportJson(source), null, 2) + "\n");
+    written.push(jsonRelative);
+  }
+
+  log.info(`plans_export: wrote ${written.join(", ")} for chat ${chatId}`);
+
+  return [
+    `Plan "${plan.title}" exported.`,
+    ``,
+    ...written.map((p) => `Wrote: ${p}`),
+    `Feedback: ${feedback.length} message(s)`,
+    ``,
+    `Commit the file(s) to version the plan with the code.`,
+  ].join("\n");
+}
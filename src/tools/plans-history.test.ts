@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { CoChatClient, CoChatChatResponse, CoChatMessage } from "../cochat-client.js";
+import type { PlanRevision, TrackedPlan } from "../config.js";
+import { planToMarkdown, markdownToPlan, type PlanItem } from "../plan-format.js";
+
+// In-memory revision store
+const revisions: PlanRevision[] = [];
+
+vi.mock("../config.js", () => ({
+  getTrackedPlan: vi.fn(),
+  trackPlan: vi.fn(),
+  getPlanRevisions: vi.fn(() => revisions),
+  addPlanRevision: vi.fn((_chatId: string, rev: Omit<PlanRevision, "revision">) => {
+    const entry = { revision: revisions.length + 1, ...rev };
+    revisions.push(entry);
+    return entry;
+  }),
+}));
+
+import { captureRemoteRevision, plansHistory } from "./plans-history.js";
+import { plansRevert } from "./plans-revert.js";
+import { getTrackedPlan } from "../config.js";
+
+const mockGetTrackedPlan = vi.mocked(getTrackedPlan);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const tracked: TrackedPlan = {
+  chatId: "chat-1",
+  planMessageId: "plan-msg",
+  title: "History Plan",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  url: "https://cochat.example.com/c/chat-1",
+};
+
+function markdown(items: PlanItem[]): string {
+  return planToMarkdown({
+    title: "History Plan",
+    items,
+    metadata: {
+      source: "coding-agent",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    },
+  });
+}
+
+const v1 = markdown([{ id: "a", content: "Task A", status: "pending", priority: "high" }]);
+const v2 = markdown([
+  { id: "a", content: "Task A", status: "completed", priority: "high" },
+  { id: "b", content: "Task B", status: "pending", priority: "low" },
+]);
+
+function makeMockClient(content: string): CoChatClient {
+  const planMessage: CoChatMessage = {
+    id: "plan-msg",
+    parentId: null,
+    childrenIds: [],
+    role: "assistant",
+    content,
+    timestamp: 1,
+  };
+  return {
+    getChat: vi.fn().mockResolvedValue({ id: "chat-1" } as CoChatChatResponse),
+    extractMessages: vi.fn().mockReturnValue([planMessage]),
+    updateMessage: vi.fn().mockResolvedValue({}),
+  } as unknown as CoChatClient;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("plan revisions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    revisions.length = 0;
+    mockGetTrackedPlan.mockReturnValue(tracked);
+  });
+
+  it("captureRemoteRevision only records content that differs from the last revision", () => {
+    captureRemoteRevision("chat-1", v1);
+    captureRemoteRevision("chat-1", v1);
+    captureRemoteRevision("chat-1", v2);
+
+    expect(revisions.map((r) => r.source)).toEqual(["remote", "remote"]);
+    expect(revisions[1].note).toBe("Edited in CoChat");
+  });
+
+  it("lists revisions newest first with task counts", async () => {
+    revisions.push(
+      { revision: 1, createdAt: "2026-01-01T00:00:00.000Z", source: "share", model: "m1", markdown: v1 },
+      { revision: 2, createdAt: "2026-01-02T00:00:00.000Z", source: "update", markdown: v2 },
+    );
+
+    const result = await plansHistory({ chat_id: "chat-1" });
+
+    expect(result).toContain("## Revision History: History Plan (2)");
+    expect(result.indexOf("**r2**")).toBeLessThan(result.indexOf("**r1**"));
+    expect(result).toContain("model: m1");
+    expect(result).toContain("2 task(s), 1 done");
+  });
+
+  it("diffs two revisions", async () => {
+    revisions.push(
+      { revision: 1, createdAt: "2026-01-01T00:00:00.000Z", source: "share", markdown: v1 },
+      { revision: 2, createdAt: "2026-01-02T00:00:00.000Z", source: "update", markdown: v2 },
+    );
+
+    const result = await plansHistory({ chat_id: "chat-1", compare_from: 1, compare_to: 2 });
+
+    expect(result).toContain("### Diff r1 -> r2");
+    expect(result).toContain("Task A (status: pending -> completed)");
+    expect(result).toContain("#### Added Tasks (1)");
+  });
+
+  it("reports unknown revisions", async () => {
+    const result = await plansHistory({ chat_id: "chat-1", compare_from: 9 });
+    expect(result).toContain("No revisions recorded");
+  });
+
+  it("reverts to an earlier revision and records both states", async () => {
+    revisions.push(
+      { revision: 1, createdAt: "2026-01-01T00:00:00.000Z", source: "share", markdown: v1 },
+      { revision: 2, createdAt: "2026-01-02T00:00:00.000Z", source: "update", markdown: v2 },
+    );
+    const edited = markdown([{ id: "a", content: "Edited by engineer", status: "pending", priority: "high" }]);
+    const client = makeMockClient(edited);
+
+    const result = await plansRevert(client, { chat_id: "chat-1", revision: 1 });
+
+    expect(result).toContain("reverted to revision 1");
+    const pushed = markdownToPlan(vi.mocked(client.updateMessage).mock.calls[0][2])!;
+    expect(pushed.items).toHaveLength(1);
+    expect(pushed.items[0].content).toBe("Task A");
+    // Remote edit captured, then the revert itself
+    expect(revisions.map((r) => r.source)).toEqual(["share", "update", "remote", "revert"]);
+    expect(revisions[3].note).toBe("Reverted to revision 1");
+  });
+
+  it("refuses to revert to a missing revision", async () => {
+    const client = makeMockClient(v1);
+    const result = await plansRevert(client, { chat_id: "chat-1", revision: 3 });
+
+    expect(result).toContain("Revision 3 not found");
+    expect(client.updateMessage).not.toHaveBeenCalled();
+  });
+});
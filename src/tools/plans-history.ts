@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { addPlanRevision, getPlanRevisions, getTrackedPlan, type PlanRevision } from "../config.js";
+import { markdownToPlan } from "../plan-format.js";
+import { diffPlanItems, formatPlanItemDiff, isEmptyDiff, snapshotItems } from "../plan-diff.js";
+
+export const PlansHistorySchema = z.object({
+  chat_id: z.string().describe("Chat ID of the plan"),
+  compare_from: z
+    .number()
+    .optional()
+    .describe("Revision number to diff from. Shows a diff instead of the revision list."),
+  compare_to: z
+    .number()
+    .optional()
+    .describe("Revision number to diff to (defaults to the latest revision)"),
+});
+
+export type PlansHistoryInput = z.infer<typeof PlansHistorySchema>;
+
+/**
+ * Record the current remote plan content as a revision if it differs from the
+ * last one we know about (i.e. an engineer edited the plan in CoChat, or the
+ * plan predates revision tracking). Call before overwriting the plan message.
+ */
+export function captureRemoteRevision(chatId: string, markdown: string): void {
+  const history = getPlanRevisions(chatId);
+  const last = history[history.length - 1];
+  if (last && last.markdown === markdown) return;
+
+  addPlanRevision(chatId, {
+    createdAt: new Date().toISOString(),
+    source: "remote",
+    markdown,
+    note: last ? "Edited in CoChat" : "Captured before first tracked update",
+  });
+}
+
+function describeRevision(rev: PlanRevision): string {
+  const plan = markdownToPlan(rev.markdown);
+  const parts = [`**r${rev.revision}** ${rev.createdAt} -- ${rev.source}`];
+  if (rev.model) parts.push(`model: ${rev.model}`);
+  if (plan) {
+    const items = snapshotItems(plan.items);
+    const done = items.filter((i) => i.status === "completed").length;
+    parts.push(`${items.length} task(s), ${done} done`);
+  }
+  if (rev.note) parts.push(rev.note);
+  return `- ${parts.join(" | ")}`;
+}
+
+function diffRevisions(from: PlanRevision, to: PlanRevision): string {
+  const before = markdownToPlan(from.markdown);
+  const after = markdownToPlan(to.markdown);
+
+  const lines: string[] = [`### Diff r${from.revision} -> r${to.revision}`, ""];
+
+  if (!before || !after) {
+    lines.push("One of the revisions could not be parsed as a plan; showing no task diff.");
+    return lines.join("\n");
+  }
+
+  if (before.title !== after.title) {
+    lines.push(`Title: "${before.title}" -> "${after.title}"`);
+    lines.push("");
+  }
+  lines.push(
+    before.description === after.description ? "Overview: unchanged" : "Overview: changed",
+  );
+  lines.push("");
+
+  const diff = diffPlanItems(snapshotItems(before.items), snapshotItems(after.items));
+  if (isEmptyDiff(diff)) {
+    lines.push("No task changes.");
+  } else {
+    lines.push(...formatPlanItemDiff(diff));
+  }
+
+  return lines.join("\n").trimEnd();
+}
+
+export async function plansHistory(input: PlansHistoryInput): Promise<string> {
+  const tracked = getTrackedPlan(input.chat_id);
+  if (!tracked) {
+    return `Plan with chat ID ${input.chat_id} is not tracked locally. Use plans_list to see tracked plans.`;
+  }
+
+  const history = getPlanRevisions(input.chat_id);
+  if (history.length === 0) {
+    return `No revisions recorded for plan "${tracked.title}" yet.`;
+  }
+
+  if (input.compare_from !== undefined || input.compare_to !== undefined) {
+    const latest = history[history.length - 1];
+    const fromRev = input.compare_from ?? history[0].revision;
+    const toRev = input.compare_to ?? latest.revision;
+    const from = history.find((r) => r.revision === fromRev);
+    const to = history.find((r) => r.revision === toRev);
+    if (!from || !to) {
+      const missing = !from ? fromRev : toRev;
+      return `Revision ${missing} not found for plan "${tracked.title}".`;
+    }
+    return diffRevisions(from, to);
+  }
+
+  const lines: string[] = [
+    `## Revision History: ${tracked.title} (${history.length})`,
+    ``,
+  ];
+  for (const rev of [...history].reverse()) {
+    lines.push(describeRevision(rev));
+  }
+  lines.push(``);
+  lines.push(`Use compare_from/compare_to to diff revisions, or plans_revert to restore one.`);
+
+  return lines.join("\n");
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CoChatClient } from "../cochat-client.js";
+
+vi.mock("./plans-share.js", () => ({
+  plansShare: vi.fn().mockResolvedValue('Plan "x" shared successfully.'),
+}));
+
+import { plansImport } from "./plans-import.js";
+import { plansShare } from "./plans-share.js";
+import { setProjectRoot } from "../project.js";
+
+const client = {} as CoChatClient;
+
+describe("plansImport", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = mkdtempSync(join(tmpdir(), "plans-import-"));
+    mkdirSync(join(dir, "project"));
+    setProjectRoot(join(dir, "project"));
+  });
+
+  afterEach(() => {
+    setProjectRoot(null);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("shares a checklist file as a plan", async () => {
+    writeFileSync(join(dir, "project", "PLAN.md"), "# Launch\n\nContext here.\n\n- [ ] Step one\n- [x] Step two\n");
+
+    const result = await plansImport(client, { path: "PLAN.md", invite_emails: ["a@example.com"] });
+
+    expect(result).toContain("Imported PLAN.md.");
+    const input = vi.mocked(plansShare).mock.calls[0][1];
+    expect(input.title).toBe("Launch");
+    expect(input.description).toBe("Context here.");
+    expect(input.items.map((i) => i.status)).toEqual(["pending", "completed"]);
+    expect(input.invite_emails).toEqual(["a@example.com"]);
+  });
+
+  it("refuses files outside the project root", async () => {
+    writeFileSync(join(dir, "secret.md"), "- [ ] nope\n");
+
+    const result = await plansImport(client, { path: "../secret.md" });
+
+    expect(result).toContain("outside the project root");
+    expect(plansShare).not.toHaveBeenCalled();
+  });
+
+  it("reports missing files and files without tasks", async () => {
+    expect(await plansImport(client, { path: "missing.md" })).toContain("File not found");
+
+    writeFileSync(join(dir, "project", "README.md"), "# Readme\n\nNo tasks.\n");
+    expect(await plansImport(client, { path: "README.md" })).toContain("No tasks found");
+  });
+});
@@ -0,0 +1,84 @@
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { basename, extname } from "node:path";
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import { log } from "../logger.js";
+import { markdownToPlan } from "../plan-format.js";
+import { resolveProjectFile, resolveProjectPath } from "../project.js";
+import { plansShare } from "./plans-share.js";
+
+export const PlansImportSchema = z.object({
+  path: z
+    .string()
+    .describe("Path of the markdown file to import, relative to the project root (e.g. 'PLAN.md')"),
+  title: z
+    .string()
+    .optional()
+    .describe("Plan title. Defaults to the file's first '#' heading, then the file name."),
+  infer_priority: z
+    .boolean()
+    .optional()
+    .describe(
+      "Infer task priority from wording (e.g. 'urgent' -> high, 'nice to have' -> low) " +
+      "when a task has no explicit [HIGH]/(low)/P0-P3 tag"
+    ),
+  invite_emails: z
+    .array(z.string())
+    .optional()
+    .describe("Email addresses of engineers to invite to collaborate"),
+  model: z
+    .string()
+    .optional()
+    .describe("Your model identifier, so engineers know which AI shared the plan"),
+});
+
+export type PlansImportInput = z.infer<typeof PlansImportSchema>;
+
+/** Imported files are capped so an accidental binary or log file isn't shared. */
+const MAX_IMPORT_BYTES = 512 * 1024;
+
+export async function plansImport(
+  client: CoChatClient,
+  input: PlansImportInput,
+): Promise<string> {
+  const root = resolveProjectPath();
+  const filePath = resolveProjectFile(input.path);
+
+  if (!filePath) {
+    return `Refusing to import ${input.path}: it is outside the project root (${root}).`;
+  }
+  if (!existsSync(filePath)) {
+    return `File not found: ${input.path} (project root: ${root})`;
+  }
+
+  const stats = statSync(filePath);
+  if (!stats.isFile()) {
+    return `${input.path} is not a file.`;
+  }
+  if (stats.size > MAX_IMPORT_BYTES) {
+    return `${input.path} is too large to import (${stats.size} bytes, limit ${MAX_IMPORT_BYTES}).`;
+  }
+
+  const markdown = readFileSync(filePath, "utf-8");
+  const plan = markdownToPlan(markdown, {
+    lenient: true,
+    inferPriority: input.infer_priority,
+    fallbackTitle: basename(filePath, extname(filePath)),
+  });
+
+  if (!plan) {
+    return `No tasks found in ${input.path}. Expected a markdown checklist (e.g. "- [ ] Task") or bullet list.`;
+  }
+
+  log.info(`plans_import: importing ${plan.items.length} top-level item(s) from ${filePath}`);
+
+  const result = await plansShare(client, {
+    title: input.title ?? plan.title,
+    description: plan.description,
+    items: plan.items,
+    invite_emails: input.invite_emails,
+    model: input.model,
+  });
+
+  return `Imported ${input.path}.\n\n${result}`;
+}
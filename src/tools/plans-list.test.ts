@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { CoChatClient } from "../cochat-client.js";
+import type { CoChatStore, TrackedPlan } from "../config.js";
+
+// Mock the local store
+vi.mock("../config.js", () => ({
+  loadStore: vi.fn(),
+}));
+
+import { plansList } from "./plans-list.js";
+import { loadStore } from "../config.js";
+
+function trackedPlan(chatId: string, title: string, closedAt?: string): TrackedPlan {
+  return {
+    chatId,
+    planMessageId: "plan-msg",
+    title,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    url: `https://cochat.example.com/c/${chatId}`,
+    closedAt,
+    archived: closedAt ? true : undefined,
+  };
+}
+
+const client = {
+  getChat: vi.fn().mockRejectedValue(new Error("offline")),
+} as unknown as CoChatClient;
+
+describe("plansList", () => {
+  beforeEach(() => {
+    vi.mocked(loadStore).mockReturnValue({
+      projects: {},
+      plans: {
+        open: trackedPlan("open", "Open Plan"),
+        closed: trackedPlan("closed", "Closed Plan", "2026-02-01T00:00:00.000Z"),
+      },
+      askAutomations: {},
+      revisions: {},
+      docs: {},
+      templates: {},
+      pendingShares: {},
+    } satisfies CoChatStore);
+  });
+
+  it("lists only open plans by default", async () => {
+    const result = await plansList(client);
+
+    expect(result).toContain("## Active Plans (1)");
+    expect(result).toContain("Open Plan");
+    expect(result).not.toContain("Closed Plan");
+  });
+
+  it("lists closed plans on request", async () => {
+    const result = await plansList(client, { status: "closed" });
+
+    expect(result).toContain("## Closed Plans (1)");
+    expect(result).toContain("Closed: 2026-02-01T00:00:00.000Z (chat archived)");
+    expect(result).not.toContain("Open Plan");
+  });
+
+  it("lists everything with status all", async () => {
+    const result = await plansList(client, { status: "all" });
+    expect(result).toContain("## Shared Plans (2)");
+  });
+});
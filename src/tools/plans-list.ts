@@ -1,13 +1,40 @@
+import { z } from "zod";
 import type { CoChatClient } from "../cochat-client.js";
 import { loadStore } from "../config.js";
-import { isPlanMessage } from "../plan-format.js";
+import { isPlanMessage, isPlanReply, markdownToPlan } from "../plan-format.js";
+import { computeReviewState, formatReviewStatus } from "../plan-review.js";
+import { burndown, formatBurndownTrend, planProgress, type PlanProgress } from "../plan-stats.js";
 
-export async function plansList(client: CoChatClient): Promise<string> {
+export const PlansListSchema = z.object({
+  status: z
+    .enum(["active", "closed", "all"])
+    .optional()
+    .describe("Which plans to list: 'active' (default), 'closed' (see plans_close) or 'all'"),
+});
+
+export type PlansListInput = z.infer<typeof PlansListSchema>;
+
+export async function plansList(
+  client: CoChatClient,
+  input: PlansListInput = {},
+): Promise<string> {
   const store = loadStore();
-  const entries = Object.values(store.plans);
+  const filter = input.status ?? "active";
+  const tracked = Object.values(store.plans);
+  const entries = tracked.filter((plan) =>
+    filter === "all" ? true : filter === "closed" ? !!plan.closedAt : !plan.closedAt,
+  );
 
+  if (tracked.length === 0) {
+    return (
+      "No shared plans tracked. Use plans_share to share a plan, or plans_discover to " +
+      "find plans teammates shared in this project."
+    );
+  }
   if (entries.length === 0) {
-    return "No shared plans tracked. Use plans_share to share a plan first.";
+    return filter === "closed"
+      ? "No closed plans. Use plans_close to close a finished plan."
+      : `No open plans (${tracked.length} closed). Pass status: "closed" to list them.`;
   }
 
   // Group plans by project
@@ -21,7 +48,8 @@ export async function plansList(client: CoChatClient): Promise<string> {
     byProject.set(projectName, group);
   }
 
-  const lines: string[] = [`## Shared Plans (${entries.length})\n`];
+  const heading = filter === "all" ? "Shared Plans" : filter === "closed" ? "Closed Plans" : "Active Plans";
+  const lines: string[] = [`## ${heading} (${entries.length})\n`];
 
   for (const [projectName, plans] of byProject) {
     lines.push(`### ${projectName}\n`);
@@ -32,12 +60,20 @@ export async function plansList(client: CoChatClient): Promise<string> {
 
     for (const plan of sorted) {
       let feedbackCount = 0;
+      let reviewStatus: string | undefined;
+      let progress: PlanProgress | undefined;
       try {
         const chat = await client.getChat(plan.chatId);
         const messages = client.extractMessages(chat);
         feedbackCount = messages.filter(
-          (m) => !isPlanMessage(m.content),
+          (m) => !isPlanMessage(m.content) && !isPlanReply(m.content),
         ).length;
+        const planMessage = messages.find((m) => isPlanMessage(m.content));
+        const parsed = planMessage ? markdownToPlan(planMessage.content) : null;
+        if (parsed) {
+          reviewStatus = formatReviewStatus(computeReviewState(parsed, messages));
+          progress = planProgress(parsed.items);
+        }
       } catch {
         // ignore fetch errors
       }
@@ -46,6 +82,19 @@ export async function plansList(client: CoChatClient): Promise<string> {
       lines.push(`  - Chat ID: ${plan.chatId}`);
       lines.push(`  - URL: ${plan.url}`);
       lines.push(`  - Updated: ${plan.updatedAt}`);
+      if (plan.closedAt) {
+        lines.push(`  - Closed: ${plan.closedAt}${plan.archived ? " (chat archived)" : ""}`);
+      }
+      if (reviewStatus) lines.push(`  - Status: ${reviewStatus}`);
+      if (progress) {
+        const { counts } = progress;
+        lines.push(
+          `  - Progress: ${progress.percent}% (${counts.completed}/${counts.total - counts.cancelled} done, ` +
+          `${counts.in_progress} in progress)`,
+        );
+      }
+      const points = burndown(store.revisions[plan.chatId] ?? []);
+      if (points.length > 1) lines.push(`  - Burndown: ${formatBurndownTrend(points)}`);
       lines.push(`  - Feedback: ${feedbackCount} message(s)`);
       lines.push("");
     }
@@ -0,0 +1,297 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { CoChatClient, CoChatChatResponse, CoChatMessage } from "../cochat-client.js";
+import type { TrackedPlan } from "../config.js";
+import { PLAN_REPLY_MARKER, markdownToPlan, planToMarkdown, type PlanItem } from "../plan-format.js";
+import { computeReviewState, formatReviewStatus } from "../plan-review.js";
+
+// Mock the local store
+vi.mock("../config.js", () => ({
+  getTrackedPlan: vi.fn(),
+  getMostRecentPlan: vi.fn(),
+  trackPlan: vi.fn(),
+}));
+
+import { plansPull } from "./plans-pull.js";
+import { getTrackedPlan, trackPlan } from "../config.js";
+
+const mockGetTrackedPlan = vi.mocked(getTrackedPlan);
+const mockTrackPlan = vi.mocked(trackPlan);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function planMarkdown(items: PlanItem[]): string {
+  return planToMarkdown({
+    title: "Pull Plan",
+    description: "Overview text",
+    items,
+    metadata: {
+      source: "coding-agent",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    },
+  });
+}
+
+function message(overrides: Partial<CoChatMessage>): CoChatMessage {
+  return {
+    id: "msg",
+    parentId: null,
+    childrenIds: [],
+    role: "user",
+    content: "",
+    timestamp: 100,
+    ...overrides,
+  };
+}
+
+function makeMockClient(messages: CoChatMessage[]): CoChatClient {
+  return {
+    getChat: vi.fn().mockResolvedValue({ id: "chat-1" } as CoChatChatResponse),
+    extractMessages: vi.fn().mockReturnValue(messages),
+    chatUrl: vi.fn((id: string) => `https://cochat.example.com/c/${id}`),
+  } as unknown as CoChatClient;
+}
+
+const baseTracked: TrackedPlan = {
+  chatId: "chat-1",
+  planMessageId: "plan-msg",
+  title: "Pull Plan",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  url: "https://cochat.example.com/c/chat-1",
+};
+
+const items: PlanItem[] = [
+  { id: "a", content: "Write schema", status: "pending", priority: "high" },
+  { id: "b", content: "Add endpoint", status: "pending", priority: "medium" },
+];
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("plansPull", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns the full view on the first pull and records a cursor", async () => {
+    mockGetTrackedPlan.mockReturnValue(baseTracked);
+    const client = makeMockClient([
+      message({ id: "plan-msg", content: planMarkdown(items), timestamp: 50 }),
+      message({ id: "fb-1", content: "Looks good", timestamp: 100 }),
+    ]);
+
+    const result = await plansPull(client, { chat_id: "chat-1" });
+
+    expect(result).toContain("### Current Tasks");
+    expect(result).toContain("### Feedback (1 message(s))");
+    expect(result).not.toContain("Since Last Pull");
+
+    const saved = mockTrackPlan.mock.calls[0][0];
+    expect(saved.lastPull?.lastMessageId).toBe("fb-1");
+    expect(saved.lastPull?.lastMessageTimestamp).toBe(100);
+    expect(saved.lastPull?.items.map((i) => i.content)).toEqual([
+      "Write schema",
+      "Add endpoint",
+    ]);
+  });
+
+  it("returns only changes since the last pull", async () => {
+    mockGetTrackedPlan.mockReturnValue({
+      ...baseTracked,
+      lastPull: {
+        pulledAt: "2026-01-02T00:00:00.000Z",
+        lastMessageId: "fb-1",
+        lastMessageTimestamp: 100,
+        items: [
+          { id: "a", content: "Write schema", status: "pending", priority: "high" },
+          { id: "b", content: "Add endpoint", status: "pending", priority: "medium" },
+          { id: "c", content: "Old task", status: "pending", priority: "low" },
+        ],
+      },
+    });
+
+    const updated: PlanItem[] = [
+      { id: "a", content: "Write schema", status: "completed", priority: "high" },
+      { id: "b", content: "Add endpoint", status: "pending", priority: "medium" },
+      { id: "d", content: "New task", status: "pending", priority: "low" },
+    ];
+    const client = makeMockClient([
+      message({ id: "plan-msg", content: planMarkdown(updated), timestamp: 50 }),
+      message({ id: "fb-1", content: "Old feedback", timestamp: 100 }),
+      message({ id: "fb-2", content: "Please add tests", timestamp: 200 }),
+    ]);
+
+    const result = await plansPull(client, { chat_id: "chat-1" });
+
+    expect(result).toContain("### Since Last Pull (2026-01-02T00:00:00.000Z)");
+    expect(result).toContain("#### Changed Tasks (1)");
+    expect(result).toContain("Write schema (status: pending -> completed)");
+    expect(result).toContain("#### Added Tasks (1)");
+    expect(result).toContain("New task");
+    expect(result).toContain("#### Removed Tasks (1)");
+    expect(result).toContain("Old task");
+    expect(result).toContain("#### New Feedback (1 message(s))");
+    expect(result).toContain("Please add tests");
+    expect(result).not.toContain("Old feedback");
+    expect(result).not.toContain("### Current Tasks");
+
+    const saved = mockTrackPlan.mock.calls[0][0];
+    expect(saved.lastPull?.lastMessageId).toBe("fb-2");
+  });
+
+  it("reports when nothing changed", async () => {
+    mockGetTrackedPlan.mockReturnValue({
+      ...baseTracked,
+      lastPull: {
+        pulledAt: "2026-01-02T00:00:00.000Z",
+        lastMessageId: "fb-1",
+        lastMessageTimestamp: 100,
+        items: items.map(({ id, content, status, priority }) => ({ id, content, status, priority })),
+      },
+    });
+    const client = makeMockClient([
+      message({ id: "plan-msg", content: planMarkdown(items), timestamp: 50 }),
+      message({ id: "fb-1", content: "Old feedback", timestamp: 100 }),
+    ]);
+
+    const result = await plansPull(client, { chat_id: "chat-1" });
+
+    expect(result).toContain("No changes since last pull.");
+  });
+
+  it("renders every nesting level with its real status", async () => {
+    mockGetTrackedPlan.mockReturnValue(baseTracked);
+    const nested: PlanItem[] = [
+      {
+        id: "epic",
+        content: "Epic",
+        status: "in_progress",
+        priority: "high",
+        children: [
+          {
+            id: "task",
+            content: "Task",
+            status: "in_progress",
+            priority: "medium",
+            children: [{ id: "sub", content: "Subtask", status: "cancelled", priority: "low" }],
+          },
+        ],
+      },
+    ];
+    const client = makeMockClient([
+      message({ id: "plan-msg", content: planMarkdown(nested), timestamp: 50 }),
+    ]);
+
+    const result = await plansPull(client, { chat_id: "chat-1" });
+
+    expect(result).toContain("  - #1.1 [IN PROGRESS] (medium) Task (id: task)");
+    expect(result).toContain("    - #1.1.1 [CANCELLED] (low) Subtask (id: sub)");
+  });
+
+  it("includes the complete plan when full is requested", async () => {
+    mockGetTrackedPlan.mockReturnValue({
+      ...baseTracked,
+      lastPull: {
+        pulledAt: "2026-01-02T00:00:00.000Z",
+        lastMessageId: "fb-1",
+        lastMessageTimestamp: 100,
+        items: [],
+      },
+    });
+    const client = makeMockClient([
+      message({ id: "plan-msg", content: planMarkdown(items), timestamp: 50 }),
+      message({ id: "fb-1", content: "Old feedback", timestamp: 100 }),
+    ]);
+
+    const result = await plansPull(client, { chat_id: "chat-1", full: true });
+
+    expect(result).toContain("### Since Last Pull");
+    expect(result).toContain("### Current Tasks");
+    expect(result).toContain("Old feedback");
+  });
+
+  it("groups feedback under the tasks it references", async () => {
+    mockGetTrackedPlan.mockReturnValue(baseTracked);
+    const client = makeMockClient([
+      message({ id: "plan-msg", content: planMarkdown(items), timestamp: 50 }),
+      message({ id: "fb-1", content: "Overall this looks fine", timestamp: 100 }),
+      message({ id: "fb-2", content: "re #2: needs auth", timestamp: 200 }),
+      message({ id: "fb-3", content: "> Write schema\nAdd an index", timestamp: 300 }),
+    ]);
+
+    const result = await plansPull(client, { chat_id: "chat-1" });
+
+    const schemaThread = result.indexOf("#### On #1: Write schema (id: a)");
+    const endpointThread = result.indexOf("#### On #2: Add endpoint (id: b)");
+    const general = result.indexOf("#### General");
+    expect(schemaThread).toBeGreaterThan(-1);
+    expect(endpointThread).toBeGreaterThan(schemaThread);
+    expect(general).toBeGreaterThan(endpointThread);
+    expect(result.indexOf("Add an index")).toBeLessThan(endpointThread);
+    expect(result.indexOf("needs auth")).toBeLessThan(general);
+    expect(result.indexOf("Overall this looks fine")).toBeGreaterThan(general);
+  });
+
+  it("does not count the agent's own replies as feedback", async () => {
+    mockGetTrackedPlan.mockReturnValue(baseTracked);
+    const client = makeMockClient([
+      message({ id: "plan-msg", content: planMarkdown(items), timestamp: 50 }),
+      message({ id: "fb-1", content: "Why?", timestamp: 100 }),
+      message({ id: "re-1", role: "assistant", content: `${PLAN_REPLY_MARKER}\nBecause.`, timestamp: 200 }),
+    ]);
+
+    const result = await plansPull(client, { chat_id: "chat-1" });
+
+    expect(result).toContain("### Feedback (1 message(s))");
+    expect(result).toContain("id: fb-1");
+    expect(result).not.toContain("Because.");
+  });
+
+  it("reports the same review status as plans_status", async () => {
+    mockGetTrackedPlan.mockReturnValue(baseTracked);
+    const messages = [
+      message({ id: "plan-msg", role: "assistant", content: planMarkdown(items), timestamp: 50 }),
+      // An approval that quotes the agent's reply still counts as a vote
+      message({
+        id: "fb-1",
+        content: `/approve\n\n> ${PLAN_REPLY_MARKER}\n> Because.`,
+        timestamp: 100,
+        author: { id: "u1", name: "Alice", email: "a@x.com", timestamp: 100 },
+      }),
+    ];
+    const expected = formatReviewStatus(computeReviewState(markdownToPlan(planMarkdown(items))!, messages));
+
+    const result = await plansPull(makeMockClient(messages), { chat_id: "chat-1" });
+
+    expect(expected).toBe("approved (1/1 approvals)");
+    expect(result).toContain(`**Review status:** ${expected}`);
+  });
+
+  it("flags blocked and overdue tasks", async () => {
+    mockGetTrackedPlan.mockReturnValue(baseTracked);
+    const client = makeMockClient([
+      message({
+        id: "plan-msg",
+        timestamp: 50,
+        content: planMarkdown([
+          { ...items[0], due: "2020-01-01", assignee: "alice@example.com" },
+          { ...items[1], dependsOn: ["a"] },
+        ]),
+      }),
+    ]);
+
+    const result = await plansPull(client, { chat_id: "chat-1" });
+
+    expect(result).toContain("### Needs Attention (2)");
+    expect(result).toContain("- #1 Write schema (id: a, assignee: alice@example.com): overdue (due 2020-01-01)");
+    expect(result).toContain("- #2 Add endpoint (id: b): blocked by #1 Write schema");
+    expect(result).toContain(
+      "- #1 [PENDING] (high) Write schema [assignee: alice@example.com; due: 2020-01-01] (id: a) **OVERDUE**",
+    );
+    expect(result).toContain("Add endpoint [depends on: #1] (id: b) **BLOCKED**");
+  });
+});
@@ -1,7 +1,18 @@
 import { z } from "zod";
-import type { CoChatClient } from "../cochat-client.js";
-import { getTrackedPlan, getMostRecentPlan, trackPlan } from "../config.js";
-import { markdownToPlan, isPlanMessage } from "../plan-format.js";
+import type { CoChatClient, CoChatMessage } from "../cochat-client.js";
+import { getTrackedPlan, getMostRecentPlan, trackPlan, type PlanPullCursor } from "../config.js";
+import { markdownToPlan, isPlanMessage, isPlanReply, statusIcon, type Plan } from "../plan-format.js";
+import { groupFeedbackByTask, numberItems } from "../feedback-threads.js";
+import { computeReviewState, formatReviewSummary } from "../plan-review.js";
+import { findTasksNeedingAttention, type TaskAttention } from "../plan-schedule.js";
+import {
+  diffPlanItems,
+  formatPlanItemDiff,
+  isEmptyDiff,
+  messagesSince,
+  planBase,
+  snapshotItems,
+} from "../plan-diff.js";
 
 export const PlansPullSchema = z.object({
   chat_id: z
@@ -10,10 +21,107 @@ export const PlansPullSchema = z.object({
     .describe(
       "Chat ID of the plan to pull. If not provided, pulls the most recently shared plan."
     ),
+  full: z
+    .boolean()
+    .optional()
+    .describe(
+      "Return the complete plan and all feedback. By default, after the first pull only " +
+      "changes since the last pull are returned."
+    ),
 });
 
 export type PlansPullInput = z.infer<typeof PlansPullSchema>;
 
+function formatTaskLines(plan: Plan, attention: TaskAttention[]): string[] {
+  const numbered = numberItems(plan.items);
+  const numbers = new Map(numbered.map(({ number, item }) => [item.id, number]));
+  const flags = new Map(attention.map((a) => [a.task.item.id, a]));
+
+  return numbered.map(({ number, item }) => {
+    const depth = number.split(".").length - 1;
+    const details: string[] = [];
+    if (item.assignee) details.push(`assignee: ${item.assignee}`);
+    if (item.estimate) details.push(`estimate: ${item.estimate}`);
+    if (item.due) details.push(`due: ${item.due}`);
+    if (item.dependsOn && item.dependsOn.length > 0) {
+      details.push(`depends on: ${item.dependsOn.map((id) => `#${numbers.get(id) ?? id}`).join(", ")}`);
+    }
+
+    let line = `${"  ".repeat(depth)}- #${number} ${statusIcon(item.status)} (${item.priority}) ${item.content}`;
+    if (details.length > 0) line += ` [${details.join("; ")}]`;
+    line += ` (id: ${item.id})`;
+
+    const flag = flags.get(item.id);
+    if (flag && flag.blockedBy.length > 0) line += " **BLOCKED**";
+    if (flag?.overdue) line += " **OVERDUE**";
+    return line;
+  });
+}
+
+/** Blocked and overdue tasks, listed before anything else in a pull. */
+function formatAttention(attention: TaskAttention[]): string[] {
+  if (attention.length === 0) return [];
+
+  const parts = [`### Needs Attention (${attention.length})`, ""];
+  for (const { task, blockedBy, overdue } of attention) {
+    const reasons: string[] = [];
+    if (blockedBy.length > 0) {
+      reasons.push(`blocked by ${blockedBy.map((d) => `#${d.number} ${d.item.content}`).join(", ")}`);
+    }
+    if (overdue) reasons.push(`overdue (due ${task.item.due})`);
+    const owner = task.item.assignee ? `, assignee: ${task.item.assignee}` : "";
+    parts.push(`- #${task.number} ${task.item.content} (id: ${task.item.id}${owner}): ${reasons.join("; ")}`);
+  }
+  parts.push("");
+  return parts;
+}
+
+function formatFeedback(msg: CoChatMessage): string[] {
+  const authorName = msg.author?.name ?? msg.role;
+  const time = new Date(msg.timestamp * 1000).toISOString();
+  const content =
+    msg.content.length > 500
+      ? msg.content.slice(0, 500) + "..."
+      : msg.content;
+  return [`**${authorName}** (${time}, id: ${msg.id}):`, content, ""];
+}
+
+/**
+ * Render feedback grouped under the task each message refers to, with
+ * general comments last. Falls back to a flat list when the plan could not
+ * be parsed.
+ */
+function formatFeedbackThreads(
+  plan: Plan | null,
+  messages: CoChatMessage[],
+  heading: string,
+): string[] {
+  if (!plan) return messages.flatMap(formatFeedback);
+
+  const { threads, unattached } = groupFeedbackByTask(plan.items, messages);
+  const parts: string[] = [];
+
+  for (const { task, messages: threadMessages } of threads) {
+    parts.push(`${heading} On #${task.number}: ${task.item.content} (id: ${task.item.id})`);
+    parts.push("");
+    for (const msg of threadMessages) {
+      parts.push(...formatFeedback(msg));
+    }
+  }
+
+  if (unattached.length > 0) {
+    if (threads.length > 0) {
+      parts.push(`${heading} General`);
+      parts.push("");
+    }
+    for (const msg of unattached) {
+      parts.push(...formatFeedback(msg));
+    }
+  }
+
+  return parts;
+}
+
 export async function plansPull(
   client: CoChatClient,
   input: PlansPullInput,
@@ -44,18 +152,77 @@ export async function plansPull(
 
   const plan = markdownToPlan(planMessage.content);
 
-  const feedbackMessages = messages.filter((m) => m.id !== planMessage.id);
+  // The agent's own plans_reply messages are not feedback
+  const feedbackMessages = messages.filter(
+    (m) => m.id !== planMessage.id && !isPlanReply(m.content),
+  );
+
+  const now = new Date().toISOString();
+  const cursor = tracked?.lastPull;
+  const snapshot = plan ? snapshotItems(plan.items) : cursor?.items ?? [];
 
   if (tracked) {
-    trackPlan({ ...tracked, updatedAt: new Date().toISOString() });
+    const last = feedbackMessages[feedbackMessages.length - 1];
+    const nextCursor: PlanPullCursor = {
+      pulledAt: now,
+      lastMessageId: last?.id ?? cursor?.lastMessageId,
+      lastMessageTimestamp: last?.timestamp ?? cursor?.lastMessageTimestamp,
+      items: snapshot,
+    };
+    trackPlan({
+      ...tracked,
+      updatedAt: now,
+      lastPull: nextCursor,
+      base: planBase(planMessage.content, now, planMessage),
+    });
   }
 
+  const showFull = input.full || !cursor || !plan;
+  const attention = plan ? findTasksNeedingAttention(plan.items) : [];
+
   const parts: string[] = [];
 
   if (plan) {
     parts.push(`## Plan: ${plan.title}`);
     parts.push("");
+    parts.push(...formatReviewSummary(computeReviewState(plan, messages)));
+    parts.push("");
+    parts.push(...formatAttention(attention));
+  }
+
+  // "Since last pull" section – only available for tracked plans that have
+  // been pulled before
+  if (cursor && plan) {
+    const diff = diffPlanItems(cursor.items, snapshot);
+    const newMessages = messagesSince(feedbackMessages, cursor);
+
+    parts.push(`### Since Last Pull (${cursor.pulledAt})`);
+    parts.push("");
+
+    if (isEmptyDiff(diff) && newMessages.length === 0) {
+      parts.push("No changes since last pull.");
+      parts.push("");
+    }
+
+    parts.push(...formatPlanItemDiff(diff));
 
+    if (newMessages.length > 0) {
+      parts.push(`#### New Feedback (${newMessages.length} message(s))`);
+      parts.push("");
+      parts.push(...formatFeedbackThreads(plan, newMessages, "#####"));
+    }
+
+    if (!showFull) {
+      parts.push(
+        `Pass full: true to see the complete plan and all ${feedbackMessages.length} feedback message(s).`,
+      );
+      parts.push("");
+      parts.push(`Chat URL: ${client.chatUrl(targetChatId)}`);
+      return parts.join("\n");
+    }
+  }
+
+  if (plan) {
     if (plan.description) {
       parts.push(plan.description);
       parts.push("");
@@ -64,23 +231,7 @@ export async function plansPull(
     parts.push("### Current Tasks");
     parts.push("");
 
-    for (const item of plan.items) {
-      const statusIcon =
-        item.status === "completed"
-          ? "[DONE]"
-          : item.status === "in_progress"
-            ? "[IN PROGRESS]"
-            : item.status === "cancelled"
-              ? "[CANCELLED]"
-              : "[PENDING]";
-      parts.push(`- ${statusIcon} (${item.priority}) ${item.content}`);
-      if (item.children) {
-        for (const child of item.children) {
-          const childIcon = child.status === "completed" ? "[DONE]" : "[PENDING]";
-          parts.push(`  - ${childIcon} (${child.priority}) ${child.content}`);
-        }
-      }
-    }
+    parts.push(...formatTaskLines(plan, attention));
   } else {
     parts.push("Could not parse the plan from the chat message.");
     parts.push("Raw plan message content:");
@@ -92,17 +243,7 @@ export async function plansPull(
     parts.push(`### Feedback (${feedbackMessages.length} message(s))`);
     parts.push("");
 
-    for (const msg of feedbackMessages) {
-      const authorName = msg.author?.name ?? msg.role;
-      const time = new Date(msg.timestamp * 1000).toISOString();
-      parts.push(`**${authorName}** (${time}):`);
-      const content =
-        msg.content.length > 500
-          ? msg.content.slice(0, 500) + "..."
-          : msg.content;
-      parts.push(content);
-      parts.push("");
-    }
+    parts.push(...formatFeedbackThreads(plan, feedbackMessages, "####"));
   } else {
     parts.push("");
     parts.push("### Feedback");
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CoChatClient, type CoChatChatResponse, type CoChatMessage } from "../cochat-client.js";
+import type { TrackedPlan } from "../config.js";
+import { PLAN_REPLY_MARKER, planToMarkdown } from "../plan-format.js";
+
+// Mock the local store
+vi.mock("../config.js", () => ({
+  getTrackedPlan: vi.fn(),
+  getMostRecentPlan: vi.fn(),
+}));
+
+import { plansReply } from "./plans-reply.js";
+import { getTrackedPlan } from "../config.js";
+
+const mockGetTrackedPlan = vi.mocked(getTrackedPlan);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const tracked: TrackedPlan = {
+  chatId: "chat-1",
+  planMessageId: "plan-msg",
+  title: "Reply Plan",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  url: "https://cochat.example.com/c/chat-1",
+};
+
+function message(overrides: Partial<CoChatMessage>): CoChatMessage {
+  return { id: "msg", parentId: null, childrenIds: [], role: "user", content: "", timestamp: 1, ...overrides };
+}
+
+function makeChat(): CoChatChatResponse {
+  const plan = message({
+    id: "plan-msg",
+    role: "assistant",
+    childrenIds: ["fb-1"],
+    content: planToMarkdown({
+      title: "Reply Plan",
+      items: [],
+      metadata: {
+        source: "coding-agent",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+    }),
+  });
+  const feedback = message({
+    id: "fb-1",
+    parentId: "plan-msg",
+    content: "Why not use a queue here?",
+    timestamp: 2,
+    author: { id: "u1", name: "Alice", email: "alice@example.com", timestamp: 2 },
+  });
+  return {
+    id: "chat-1",
+    chat: {
+      models: ["test-model"],
+      history: { messages: { "plan-msg": plan, "fb-1": feedback }, currentId: "fb-1" },
+      messages: [{ id: "plan-msg" }, { id: "fb-1" }],
+    },
+  } as unknown as CoChatChatResponse;
+}
+
+function makeClient(): CoChatClient {
+  const client = new CoChatClient({ cochatUrl: "https://cochat.example.com", apiKey: "key" });
+  vi.spyOn(client, "getChat").mockResolvedValue(makeChat());
+  vi.spyOn(client, "updateChat").mockResolvedValue({} as CoChatChatResponse);
+  return client;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("plansReply", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetTrackedPlan.mockReturnValue(tracked);
+  });
+
+  it("appends a reply linked to the end of the thread", async () => {
+    const client = makeClient();
+
+    const result = await plansReply(client, { chat_id: "chat-1", message: "Good point, switching to a queue." });
+
+    expect(result).toContain('Reply posted to plan "Reply Plan"');
+    const sent = vi.mocked(client.updateChat).mock.calls[0][1] as {
+      history: { messages: Record<string, CoChatMessage>; currentId: string };
+      messages: { id: string }[];
+    };
+    const reply = sent.history.messages[sent.history.currentId];
+
+    expect(reply.parentId).toBe("fb-1");
+    expect(reply.role).toBe("assistant");
+    expect(reply.model).toBe("test-model");
+    expect(reply.content).toContain(PLAN_REPLY_MARKER);
+    expect(sent.history.messages["fb-1"].childrenIds).toEqual([reply.id]);
+    expect(sent.messages.map((m) => m.id)).toEqual(["plan-msg", "fb-1", reply.id]);
+    expect(result).toContain(`Message ID: ${reply.id}`);
+  });
+
+  it("quotes the message being answered", async () => {
+    const client = makeClient();
+
+    await plansReply(client, { chat_id: "chat-1", message: "We need ordering.", reply_to: "fb-1" });
+
+    const sent = vi.mocked(client.updateChat).mock.calls[0][1] as {
+      history: { messages: Record<string, CoChatMessage>; currentId: string };
+    };
+    const content = sent.history.messages[sent.history.currentId].content;
+    expect(content).toContain("> **Alice** wrote:\n> Why not use a queue here?\n\nWe need ordering.");
+  });
+
+  it("reports an unknown reply_to message", async () => {
+    const client = makeClient();
+
+    const result = await plansReply(client, { chat_id: "chat-1", message: "Hi", reply_to: "nope" });
+
+    expect(result).toContain("No message found with ID nope");
+    expect(client.updateChat).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+import { z } from "zod";
+import type { CoChatClient, CoChatMessage } from "../cochat-client.js";
+import { getMostRecentPlan, getTrackedPlan } from "../config.js";
+import { log } from "../logger.js";
+import { PLAN_REPLY_MARKER, isPlanMessage } from "../plan-format.js";
+
+export const PlansReplySchema = z.object({
+  chat_id: z
+    .string()
+    .optional()
+    .describe("Chat ID of the plan. If not provided, replies on the most recently shared plan."),
+  message: z.string().describe("The reply to post, in markdown"),
+  reply_to: z
+    .string()
+    .optional()
+    .describe(
+      "ID of the feedback message being answered (shown by plans_pull). " +
+      "Its text is quoted above the reply."
+    ),
+});
+
+export type PlansReplyInput = z.infer<typeof PlansReplySchema>;
+
+const MAX_QUOTE_LENGTH = 300;
+
+function quoteMessage(msg: CoChatMessage): string {
+  const author = msg.author?.name ?? msg.role;
+  const text =
+    msg.content.length > MAX_QUOTE_LENGTH
+      ? msg.content.slice(0, MAX_QUOTE_LENGTH) + "..."
+      : msg.content;
+  const quoted = text
+    .trim()
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
+  return `> **${author}** wrote:\n${quoted}`;
+}
+
+export async function plansReply(
+  client: CoChatClient,
+  input: PlansReplyInput,
+): Promise<string> {
+  const tracked = input.chat_id ? getTrackedPlan(input.chat_id) : getMostRecentPlan();
+  const chatId = input.chat_id ?? tracked?.chatId;
+
+  if (!chatId) {
+    return "No shared plans found. Use plans_share to share a plan first.";
+  }
+
+  const chat = await client.getChat(chatId);
+  const messages = client.extractMessages(chat);
+
+  if (!messages.some((m) => isPlanMessage(m.content))) {
+    return `Chat ${chatId} does not contain a plan created by this tool.`;
+  }
+
+  const parts: string[] = [PLAN_REPLY_MARKER];
+
+  if (input.reply_to) {
+    const target = messages.find((m) => m.id === input.reply_to);
+    if (!target) {
+      return `No message found with ID ${input.reply_to}. Use plans_pull to see message IDs.`;
+    }
+    parts.push(quoteMessage(target), "");
+  }
+  parts.push(input.message);
+
+  // Replies always go at the end of the active thread rather than branching
+  // off the quoted message, so CoChat shows them inline after the feedback
+  const reply = await client.appendMessage(chatId, {
+    role: "assistant",
+    content: parts.join("\n"),
+    modelName: "CoChat Plans",
+  });
+  log.info(`plans_reply: posted reply ${reply.id} to chat ${chatId}`);
+
+  return [
+    `Reply posted to plan${tracked ? ` "${tracked.title}"` : ""}.`,
+    ``,
+    `Message ID: ${reply.id}`,
+    `Chat URL: ${client.chatUrl(chatId)}`,
+  ].join("\n");
+}
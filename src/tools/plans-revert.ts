@@ -0,0 +1,78 @@
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import { addPlanRevision, getPlanRevisions, getTrackedPlan, trackPlan } from "../config.js";
+import { markdownToPlan, planToMarkdown, isPlanMessage } from "../plan-format.js";
+import { planBase } from "../plan-diff.js";
+import { captureRemoteRevision } from "./plans-history.js";
+
+export const PlansRevertSchema = z.object({
+  chat_id: z.string().describe("Chat ID of the plan to revert"),
+  revision: z.number().describe("Revision number to restore (see plans_history)"),
+});
+
+export type PlansRevertInput = z.infer<typeof PlansRevertSchema>;
+
+export async function plansRevert(
+  client: CoChatClient,
+  input: PlansRevertInput,
+): Promise<string> {
+  const tracked = getTrackedPlan(input.chat_id);
+
+  if (!tracked) {
+    return `Plan with chat ID ${input.chat_id} is not tracked locally. Use plans_list to see tracked plans.`;
+  }
+
+  const target = getPlanRevisions(input.chat_id).find((r) => r.revision === input.revision);
+  if (!target) {
+    return `Revision ${input.revision} not found for plan "${tracked.title}". Use plans_history to list revisions.`;
+  }
+
+  const chat = await client.getChat(input.chat_id);
+  const messages = client.extractMessages(chat);
+  const planMessage = messages.find((m) => isPlanMessage(m.content));
+
+  if (!planMessage) {
+    return `Chat ${input.chat_id} does not contain a plan message.`;
+  }
+
+  captureRemoteRevision(input.chat_id, planMessage.content);
+
+  // Re-render so the "Updated" timestamp reflects the revert; fall back to the
+  // stored markdown verbatim if it can't be parsed. Reverting restores content
+  // only -- the current review state is kept.
+  const now = new Date().toISOString();
+  const restored = markdownToPlan(target.markdown);
+  const review = markdownToPlan(planMessage.content)?.metadata;
+  const markdown = restored
+    ? planToMarkdown({
+        ...restored,
+        metadata: {
+          ...restored.metadata,
+          status: review?.status,
+          requiredApprovals: review?.requiredApprovals,
+          reviewers: review?.reviewers,
+          reviewRequestedAt: review?.reviewRequestedAt,
+          updatedAt: now,
+        },
+      })
+    : target.markdown;
+
+  await client.updateMessage(input.chat_id, tracked.planMessageId, markdown);
+
+  const entry = addPlanRevision(input.chat_id, {
+    createdAt: now,
+    source: "revert",
+    model: restored?.metadata.model,
+    markdown,
+    note: `Reverted to revision ${input.revision}`,
+  });
+
+  trackPlan({ ...tracked, updatedAt: now, base: planBase(markdown, now) });
+
+  return [
+    `Plan "${tracked.title}" reverted to revision ${input.revision}.`,
+    ``,
+    `Chat URL: ${tracked.url}`,
+    `New revision: ${entry.revision}`,
+  ].join("\n");
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from "vitest";
+import type { CoChatClient, CoChatChatResponse, CoChatMessage } from "../cochat-client.js";
+import { planToMarkdown } from "../plan-format.js";
+
+// Mock the local store
+vi.mock("../config.js", () => ({
+  loadStore: vi.fn(() => ({
+    plans: {
+      "chat-tracked": { chatId: "chat-tracked", folderId: "folder-1" },
+      "chat-other-project": { chatId: "chat-other-project", folderId: "folder-2" },
+    },
+  })),
+}));
+
+vi.mock("./projects-add.js", () => ({
+  resolveCurrentProjectFolder: vi.fn().mockResolvedValue({
+    folderId: "folder-1",
+    projectName: "Demo",
+  }),
+}));
+
+import { plansSearch } from "./plans-search.js";
+
+function planMessage(title: string, task: string): CoChatMessage {
+  return {
+    id: "plan-msg",
+    parentId: null,
+    childrenIds: [],
+    role: "assistant",
+    content: planToMarkdown({
+      title,
+      items: [{ id: "a", content: task, status: "pending", priority: "high" }],
+      metadata: { source: "test", createdAt: "2026-01-01T00:00:00.000Z", updatedAt: "2026-01-01T00:00:00.000Z" },
+    }),
+    timestamp: 1,
+  };
+}
+
+const messagesByChat: Record<string, CoChatMessage[]> = {
+  "chat-folder": [
+    planMessage("Gateway", "Add the rate limiter"),
+    {
+      id: "m1",
+      parentId: null,
+      childrenIds: [],
+      role: "user",
+      content: "Rate limiter should be per token",
+      timestamp: 2,
+      author: { id: "u", name: "Bob", email: "bob@example.com", timestamp: 2 },
+    },
+  ],
+  "chat-tracked": [planMessage("Billing", "Retry failed charges")],
+};
+
+function makeMockClient(): CoChatClient {
+  return {
+    listFolderChats: vi.fn().mockResolvedValue([{ id: "chat-folder", chat: { id: "chat-folder" } }]),
+    listChats: vi.fn().mockResolvedValue([]),
+    getChat: vi.fn(async (id: string) => ({ id, chat: { id } }) as unknown as CoChatChatResponse),
+    extractMessages: vi.fn((chat: { chat: { id: string } }) => messagesByChat[chat.chat.id] ?? []),
+  } as unknown as CoChatClient;
+}
+
+describe("plansSearch", () => {
+  it("returns ranked snippets with chat IDs, task numbers and authors", async () => {
+    const result = await plansSearch(makeMockClient(), { query: "rate limiter" });
+
+    expect(result).toContain('## Search: "rate limiter" (2 result(s) across 2 plan(s))');
+    expect(result).toContain("1. **Gateway** -- Task #1 (chat chat-folder)");
+    expect(result).toContain("2. **Gateway** -- Feedback from Bob (chat chat-folder)");
+    expect(result).toContain("**Rate limiter** should be per token");
+  });
+
+  it("searches tracked plans of the project that the folder listing missed", async () => {
+    const client = makeMockClient();
+    const result = await plansSearch(client, { query: "charges" });
+
+    expect(result).toContain("**Billing** -- Task #1 (chat chat-tracked)");
+    expect(client.getChat).not.toHaveBeenCalledWith("chat-other-project");
+  });
+
+  it("says when nothing matches", async () => {
+    const result = await plansSearch(makeMockClient(), { query: "kubernetes" });
+    expect(result).toBe('No matches for "kubernetes" in 2 plan(s) of project "Demo".');
+  });
+});
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import { loadStore } from "../config.js";
+import { isPlanMessage, markdownToPlan } from "../plan-format.js";
+import { planSearchDocuments, searchDocuments, type SearchDocument, type SearchHit } from "../plan-search.js";
+import { findFolderPlans } from "./plans-discover.js";
+import { resolveCurrentProjectFolder } from "./projects-add.js";
+
+export const PlansSearchSchema = z.object({
+  query: z.string().describe("Words to search for, e.g. 'rate limiter'. Every word must match."),
+  limit: z.number().optional().describe("Maximum number of results (default 10)"),
+});
+
+export type PlansSearchInput = z.infer<typeof PlansSearchSchema>;
+
+const KIND_LABELS: Record<SearchDocument["kind"], string> = {
+  title: "Title",
+  description: "Description",
+  task: "Task",
+  feedback: "Feedback",
+};
+
+function formatHit(hit: SearchHit, rank: number): string[] {
+  const { doc } = hit;
+  const where = doc.kind === "task"
+    ? `Task ${doc.label}`
+    : doc.kind === "feedback"
+      ? `Feedback from ${doc.label}`
+      : KIND_LABELS[doc.kind];
+  return [`${rank}. **${doc.planTitle}** -- ${where} (chat ${doc.chatId})`, `   ${hit.snippet}`, ""];
+}
+
+/**
+ * Search plan titles, descriptions, tasks and feedback across every plan in
+ * the current project: the ones in its CoChat folder (whoever shared them)
+ * plus any tracked plans of this project the folder listing missed.
+ */
+export async function plansSearch(
+  client: CoChatClient,
+  input: PlansSearchInput,
+): Promise<string> {
+  const project = await resolveCurrentProjectFolder(client);
+  const found = await findFolderPlans(client, project.folderId);
+
+  const docs: SearchDocument[] = [];
+  const seen = new Set<string>();
+  for (const { chat, plan, messages } of found) {
+    seen.add(chat.id);
+    docs.push(...planSearchDocuments(chat.id, plan, messages));
+  }
+  const tracked = Object.values(loadStore().plans).filter(
+    (p) => p.folderId === project.folderId && !seen.has(p.chatId),
+  );
+  for (const plan of tracked) {
+    try {
+      const messages = client.extractMessages(await client.getChat(plan.chatId));
+      const planMessage = messages.find((m) => isPlanMessage(m.content));
+      const parsed = planMessage ? markdownToPlan(planMessage.content) : null;
+      if (parsed) docs.push(...planSearchDocuments(plan.chatId, parsed, messages));
+    } catch {
+      // ignore fetch errors
+    }
+  }
+
+  const planCount = new Set(docs.map((d) => d.chatId)).size;
+  const hits = searchDocuments(docs, input.query, input.limit ?? 10);
+  if (hits.length === 0) {
+    return `No matches for "${input.query}" in ${planCount} plan(s) of project "${project.projectName}".`;
+  }
+
+  return [
+    `## Search: "${input.query}" (${hits.length} result(s) across ${planCount} plan(s))`,
+    "",
+    ...hits.flatMap((hit, idx) => formatHit(hit, idx + 1)),
+    "Use plans_pull with the chat ID to read a plan and its feedback (plans_discover adopts untracked ones).",
+  ].join("\n");
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import type { CoChatClient, CoChatChatResponse } from "../cochat-client.js";
+import { CoChatClientError, CoChatUnsupportedError, type CoChatClient, type CoChatChatResponse } from "../cochat-client.js";
+import type { PendingShare } from "../config.js";
 import type { ResolvedProject } from "./projects-add.js";
 
 // Mock resolveCurrentProjectFolder
@@ -10,6 +11,11 @@ vi.mock("./projects-add.js", () => ({
 // Mock trackPlan
 vi.mock("../config.js", () => ({
   trackPlan: vi.fn(),
+  addPlanRevision: vi.fn(),
+  getLocalTemplates: vi.fn(() => []),
+  findPendingShare: vi.fn(),
+  savePendingShare: vi.fn(),
+  clearPendingShare: vi.fn(),
 }));
 
 // Mock planToMarkdown – let it run the real implementation
@@ -18,7 +24,7 @@ vi.mock("../config.js", () => ({
 
 import { plansShare } from "./plans-share.js";
 import { resolveCurrentProjectFolder } from "./projects-add.js";
-import { trackPlan } from "../config.js";
+import { clearPendingShare, findPendingShare, savePendingShare, trackPlan } from "../config.js";
 
 const mockResolveProject = vi.mocked(resolveCurrentProjectFolder);
 const mockTrackPlan = vi.mocked(trackPlan);
@@ -52,9 +58,11 @@ function makeMockClient(overrides: Partial<CoChatClient> = {}): CoChatClient {
     setLinkAccess: vi.fn().mockResolvedValue({}),
     inviteUsers: vi.fn().mockResolvedValue({}),
     moveChatToFolder: vi.fn().mockResolvedValue({}),
+    deleteChat: vi.fn().mockResolvedValue(undefined),
     listChats: vi.fn(),
     getConfig: vi.fn(),
     getDefaultModel: vi.fn().mockResolvedValue("openrouter_manifold.anthropic/claude-sonnet-4"),
+    capabilities: vi.fn().mockResolvedValue({ unsupported: new Set() }),
     addMemory: vi.fn(),
     queryMemories: vi.fn(),
     listMemories: vi.fn(),
@@ -154,6 +162,45 @@ describe("plansShare", () => {
     expect(result).not.toContain("Invited:");
   });
 
+  it("shares a private chat when the server has no collaboration", async () => {
+    const client = makeMockClient({
+      capabilities: vi.fn().mockResolvedValue({ unsupported: new Set(["collaboration"]) }),
+    });
+    const result = await plansShare(client, {
+      title: "Legacy Plan",
+      items: [],
+      invite_emails: ["alice@example.com"],
+    });
+
+    expect(client.moveChatToFolder).toHaveBeenCalled();
+    expect(client.enableCollaboration).not.toHaveBeenCalled();
+    expect(client.setLinkAccess).not.toHaveBeenCalled();
+    expect(client.inviteUsers).not.toHaveBeenCalled();
+    expect(mockTrackPlan).toHaveBeenCalled();
+    expect(result).toContain("does not support collaboration: plans are shared as private chats");
+    expect(result).not.toContain("Invited:");
+  });
+
+  it("finishes as a private chat when collaboration turns out to be missing", async () => {
+    // No feature flag, so the capability check passes and only the 404 tells
+    const client = makeMockClient({
+      enableCollaboration: vi.fn().mockRejectedValue(new CoChatUnsupportedError("collaboration")),
+    });
+    const result = await plansShare(client, {
+      title: "Legacy Plan",
+      items: [],
+      invite_emails: ["alice@example.com"],
+    });
+
+    expect(client.setLinkAccess).not.toHaveBeenCalled();
+    expect(client.inviteUsers).not.toHaveBeenCalled();
+    expect(mockTrackPlan).toHaveBeenCalled();
+    expect(clearPendingShare).toHaveBeenCalledWith("chat-123");
+    expect(result).toContain('Plan "Legacy Plan" shared successfully.');
+    expect(result).toContain("does not support collaboration: plans are shared as private chats");
+    expect(result).not.toContain("Invited:");
+  });
+
   it("tracks plan locally with folderId", async () => {
     const client = makeMockClient();
     await plansShare(client, {
@@ -197,4 +244,147 @@ describe("plansShare", () => {
     expect(messages[0].content).toContain("## Overview");
     expect(messages[0].content).toContain("full migration strategy");
   });
+
+  it("starts from a template", async () => {
+    const client = makeMockClient({
+      getFolder: vi.fn().mockResolvedValue({ id: "folder-abc", data: null }),
+    });
+    const result = await plansShare(client, {
+      title: "Login v2",
+      description: "## Goal\n\nFaster logins.",
+      items: [{ id: "1", content: "Build the login page", status: "pending", priority: "high" }],
+      template: "Feature-Rollout",
+    });
+
+    expect(result).toContain("Template: feature-rollout (5 task(s) added from the template)");
+    const content = (vi.mocked(client.createChat).mock.calls[0][0].messages as Array<{ content: string }>)[0].content;
+    expect(content).toContain("## Goal\n\nFaster logins.\n\n## Rollout");
+    expect(content).toContain("Add the feature flag (off by default)");
+    expect(content.indexOf("Build the login page")).toBeGreaterThan(content.indexOf("Remove the flag"));
+  });
+
+  it("names the available templates when the template is unknown", async () => {
+    const client = makeMockClient({
+      getFolder: vi.fn().mockResolvedValue({ id: "folder-abc", data: null }),
+    });
+    const result = await plansShare(client, { title: "X", items: [], template: "nope" });
+
+    expect(result).toContain('Template "nope" not found. Available: feature-rollout');
+    expect(client.createChat).not.toHaveBeenCalled();
+  });
+
+  it("records a pending share and reports the steps when one fails", async () => {
+    const client = makeMockClient({
+      enableCollaboration: vi.fn().mockRejectedValue(new Error("CoChat API failed (500)")),
+    });
+    const result = await plansShare(client, {
+      title: "Rollout",
+      items: [],
+      invite_emails: ["alice@example.com"],
+    });
+
+    expect(result).toContain('Plan "Rollout" was only partially shared: enable collaboration failed.');
+    expect(result).toContain("Completed: create chat, move to project folder");
+    expect(result).toContain("Not done: enable collaboration, set link access, invite reviewers");
+    expect(result).toContain("Chat ID: chat-123");
+    expect(client.setLinkAccess).not.toHaveBeenCalled();
+    expect(mockTrackPlan).not.toHaveBeenCalled();
+    expect(vi.mocked(savePendingShare)).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        chatId: "chat-123",
+        title: "Rollout",
+        folderId: "folder-abc",
+        completed: ["create", "move"],
+        failedStep: "collaborate",
+      }),
+    );
+  });
+
+  const orphan: PendingShare = {
+    chatId: "chat-orphan",
+    planMessageId: "msg-orphan",
+    title: "Rollout",
+    folderId: "folder-abc",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    completed: ["create", "move"],
+    failedStep: "collaborate",
+  };
+
+  it("resumes a pending share without creating another chat", async () => {
+    vi.mocked(findPendingShare).mockReturnValueOnce(orphan);
+    const client = makeMockClient();
+    const result = await plansShare(client, {
+      title: "Rollout",
+      items: [{ id: "1", content: "Ship it", status: "pending", priority: "high" }],
+    });
+
+    expect(client.createChat).not.toHaveBeenCalled();
+    expect(client.moveChatToFolder).not.toHaveBeenCalled();
+    expect(client.updateMessage).toHaveBeenCalledWith("chat-orphan", "msg-orphan", expect.stringContaining("Ship it"));
+    expect(client.enableCollaboration).toHaveBeenCalledWith("chat-orphan");
+    expect(client.setLinkAccess).toHaveBeenCalledWith("chat-orphan", "write");
+    expect(mockTrackPlan).toHaveBeenCalledWith(
+      expect.objectContaining({
+        chatId: "chat-orphan",
+        planMessageId: "msg-orphan",
+        createdAt: "2026-01-01T00:00:00.000Z",
+      }),
+    );
+    expect(clearPendingShare).toHaveBeenCalledWith("chat-orphan");
+    expect(result).toContain("Resumed an interrupted share (already done: create chat, move to project folder)");
+  });
+
+  it("starts over when the pending chat was deleted in CoChat", async () => {
+    vi.mocked(findPendingShare).mockReturnValueOnce(orphan);
+    const client = makeMockClient({
+      updateMessage: vi.fn().mockRejectedValue(new CoChatClientError(404, "CoChat API failed (404)")),
+    });
+
+    const result = await plansShare(client, { title: "Rollout", items: [] });
+
+    expect(clearPendingShare).toHaveBeenCalledWith("chat-orphan");
+    expect(client.createChat).toHaveBeenCalledTimes(1);
+    expect(client.moveChatToFolder).toHaveBeenCalledWith("chat-123", "folder-abc");
+    expect(mockTrackPlan).toHaveBeenCalledWith(expect.objectContaining({ chatId: "chat-123" }));
+    expect(result).toContain('Plan "Rollout" shared successfully.');
+    expect(result).not.toContain("Resumed");
+  });
+
+  it("keeps the share pending when refreshing the plan fails otherwise", async () => {
+    vi.mocked(findPendingShare).mockReturnValueOnce(orphan);
+    const client = makeMockClient({
+      updateMessage: vi.fn().mockRejectedValue(new CoChatClientError(502, "CoChat API failed (502)")),
+    });
+
+    const result = await plansShare(client, { title: "Rollout", items: [] });
+
+    expect(result).toContain("only partially shared: update plan content failed.");
+    expect(result).toContain("Not done: update plan content, enable collaboration, set link access");
+    expect(client.enableCollaboration).not.toHaveBeenCalled();
+    expect(vi.mocked(savePendingShare)).toHaveBeenLastCalledWith(
+      expect.objectContaining({ chatId: "chat-orphan", completed: ["create", "move"], failedStep: "refresh" }),
+    );
+  });
+
+  it("discards a pending share on request", async () => {
+    vi.mocked(findPendingShare).mockReturnValueOnce(orphan);
+    const client = makeMockClient();
+
+    const result = await plansShare(client, { title: "Rollout", items: [], discard_pending: true });
+
+    expect(clearPendingShare).toHaveBeenCalledWith("chat-orphan");
+    expect(client.deleteChat).toHaveBeenCalledWith("chat-orphan");
+    expect(client.updateMessage).not.toHaveBeenCalled();
+    expect(client.createChat).toHaveBeenCalledTimes(1);
+    expect(result).toContain("Discarded an interrupted share and deleted its chat (chat-orphan)");
+  });
+
+  it("leaves nothing pending when the chat cannot be created", async () => {
+    const client = makeMockClient({
+      createChat: vi.fn().mockRejectedValue(new Error("network down")),
+    });
+
+    await expect(plansShare(client, { title: "X", items: [] })).rejects.toThrow("network down");
+    expect(savePendingShare).not.toHaveBeenCalled();
+  });
 });
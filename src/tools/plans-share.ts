@@ -1,9 +1,23 @@
 import { z } from "zod";
-import type { CoChatClient } from "../cochat-client.js";
-import { trackPlan } from "../config.js";
+import { supports, TOOL_DEGRADATIONS } from "../capabilities.js";
+import { CoChatClientError, CoChatUnsupportedError, type CoChatClient } from "../cochat-client.js";
+import {
+  addPlanRevision,
+  clearPendingShare,
+  findPendingShare,
+  savePendingShare,
+  trackPlan,
+  type PendingShare,
+  type ShareStep,
+} from "../config.js";
 import { log } from "../logger.js";
-import { planToMarkdown } from "../plan-format.js";
-import { PlanItemSchema } from "../schemas.js";
+import { planBase } from "../plan-diff.js";
+import { planToMarkdown, type Plan } from "../plan-format.js";
+import { DEFAULT_REQUIRED_APPROVALS } from "../plan-review.js";
+import { uninvitedAssignees } from "../plan-schedule.js";
+import { mergeTemplateDescription, mergeTemplateItems, templateKey } from "../plan-templates.js";
+import { PlanItemSchema, PlanRenderSchema } from "../schemas.js";
+import { loadPlanTemplates } from "./plans-templates.js";
 import { resolveCurrentProjectFolder } from "./projects-add.js";
 
 // ---------------------------------------------------------------------------
@@ -36,14 +50,62 @@ export const PlansShareSchema = z.object({
       "The model that created this plan (e.g., 'anthropic/claude-opus-4.6'). " +
       "Pass your own model identifier so engineers know which AI generated the plan."
     ),
+  required_approvals: z
+    .number()
+    .optional()
+    .describe(
+      "Number of reviewer approvals (/approve replies) needed before the plan counts as approved. Defaults to 1."
+    ),
+  draft: z
+    .boolean()
+    .optional()
+    .describe("Share as a draft that is not yet open for review. Submit it later with plans_status."),
+  render: PlanRenderSchema.optional(),
+  template: z
+    .string()
+    .optional()
+    .describe(
+      "Start from a plan template (see plans_templates). Your description sections fill in the " +
+      "template's sections and your items replace matching template tasks; the rest are added.",
+    ),
+  discard_pending: z
+    .boolean()
+    .optional()
+    .describe(
+      "Discard an interrupted share with the same title (deleting its chat) and start over " +
+      "with a new chat instead of resuming it.",
+    ),
 });
 
 export type PlansShareInput = z.infer<typeof PlansShareSchema>;
 
+const STEP_LABELS: Record<ShareStep, string> = {
+  refresh: "update plan content",
+  create: "create chat",
+  move: "move to project folder",
+  collaborate: "enable collaboration",
+  link_access: "set link access",
+  invite: "invite reviewers",
+};
+
+/** Steps that need collaboration; the share skips them on servers without it */
+const COLLABORATION_STEPS: ShareStep[] = ["collaborate", "link_access", "invite"];
+
+function stepList(steps: ShareStep[]): string {
+  return steps.length > 0 ? steps.map((s) => STEP_LABELS[s]).join(", ") : "none";
+}
+
 // ---------------------------------------------------------------------------
 // Tool implementation
 // ---------------------------------------------------------------------------
 
+/**
+ * Share a plan as a new collaborative chat. Sharing takes several API calls;
+ * progress is recorded as a pending share after each one, so when a call
+ * fails the next plans_share with the same title resumes the existing chat
+ * instead of leaving it orphaned and creating another. A pending chat that
+ * no longer exists is forgotten and the share starts over.
+ */
 export async function plansShare(
   client: CoChatClient,
   input: PlansShareInput,
@@ -56,31 +118,218 @@ export async function plansShare(
   const project = await resolveCurrentProjectFolder(client);
   log.info(`plans_share: resolved project "${project.projectName}" (folder: ${project.folderId})`);
 
+  let pending = findPendingShare(input.title, project.folderId);
+  let discardNote: string | undefined;
+  if (pending && input.discard_pending) {
+    log.info(`plans_share: discarding pending share (chat: ${pending.chatId})`);
+    clearPendingShare(pending.chatId);
+    const discarded = pending.chatId;
+    discardNote = await client.deleteChat(discarded).then(
+      () => `Discarded an interrupted share and deleted its chat (${discarded})`,
+      (err: unknown) => {
+        log.warn(`plans_share: could not delete discarded chat ${discarded}`, {
+          error: err instanceof Error ? err.message : String(err),
+        });
+        return `Discarded an interrupted share; its chat could not be deleted: ${client.chatUrl(discarded)}`;
+      },
+    );
+    pending = undefined;
+  } else if (pending) {
+    log.info(`plans_share: resuming pending share (chat: ${pending.chatId})`);
+  }
+  const createdAt = pending?.createdAt ?? now;
+
+  let description = input.description;
+  let items = input.items;
+  let templateNote: string | undefined;
+  if (input.template) {
+    const templates = await loadPlanTemplates(client, project.folderId);
+    const template = templates.find((t) => t.name === templateKey(input.template!));
+    if (!template) {
+      return (
+        `Template "${input.template}" not found. Available: ` +
+        `${templates.map((t) => t.name).join(", ")}. Use plans_templates to create one.`
+      );
+    }
+    description = mergeTemplateDescription(template.description, input.description);
+    const merged = mergeTemplateItems(template.items, input.items);
+    items = merged.items;
+    templateNote = `Template: ${template.name} (${merged.fromTemplate} task(s) added from the template)`;
+  }
 
   // Build the plan markdown
-  const plan = {
+  const plan: Plan = {
     title: input.title,
-    description: input.description,
-    items: input.items,
+    description,
+    items,
     metadata: {
       source: "coding-agent",
       model: input.model,
-      createdAt: now,
+      createdAt,
       updatedAt: now,
+      status: input.draft ? "draft" : "in_review",
+      requiredApprovals: input.required_approvals ?? DEFAULT_REQUIRED_APPROVALS,
+      reviewers: input.invite_emails,
+      render: input.render,
     },
   };
 
   const markdown = planToMarkdown(plan);
+  const messageId = pending?.planMessageId ?? crypto.randomUUID();
+
+  const share: PendingShare = pending ? { ...pending, completed: [...pending.completed] } : {
+    chatId: "",
+    planMessageId: messageId,
+    title: input.title,
+    folderId: project.folderId,
+    createdAt,
+    completed: [],
+  };
+
+  // Older CoChat versions have no collaboration: the chat stays private
+  let collaborative = supports(await client.capabilities(), "collaboration");
+  const steps: Record<ShareStep, (() => Promise<unknown>) | null> = {
+    // A resumed chat gets the plan as passed to this call
+    refresh: pending ? () => client.updateMessage(share.chatId, messageId, markdown) : null,
+    create: async () => {
+      const chat = await client.createChat(await buildChatData(client, input.title, messageId, markdown));
+      share.chatId = chat.id;
+      log.info(`plans_share: chat created (id: ${chat.id})`);
+    },
+    move: project.folderId
+      ? () => client.moveChatToFolder(share.chatId, project.folderId)
+      : null,
+    collaborate: collaborative ? () => client.enableCollaboration(share.chatId) : null,
+    // Write access so anyone with the link can collaborate
+    link_access: collaborative ? () => client.setLinkAccess(share.chatId, "write") : null,
+    invite: collaborative && input.invite_emails && input.invite_emails.length > 0
+      ? () => client.inviteUsers(share.chatId, input.invite_emails!, "write")
+      : null,
+  };
+  const todo = (Object.keys(steps) as ShareStep[]).filter(
+    (step) => steps[step] && !share.completed.includes(step),
+  );
+
+  for (const [idx, step] of todo.entries()) {
+    if (!collaborative && COLLABORATION_STEPS.includes(step)) continue;
+    log.debug(`plans_share: ${STEP_LABELS[step]}`);
+    try {
+      await steps[step]!();
+    } catch (err) {
+      // Nothing exists yet, so there is nothing to resume
+      if (step === "create") throw err;
+      // Servers that don't report the feature flag only show it here: keep
+      // the chat private and finish the share
+      if (err instanceof CoChatUnsupportedError && err.capability === "collaboration") {
+        log.warn(`plans_share: ${STEP_LABELS[step]} unsupported, sharing without collaboration`);
+        collaborative = false;
+        continue;
+      }
+      // The pending chat was deleted in CoChat: forget it and share afresh
+      if (step === "refresh" && err instanceof CoChatClientError && err.statusCode === 404) {
+        log.warn(`plans_share: pending chat ${share.chatId} no longer exists, starting over`);
+        clearPendingShare(share.chatId);
+        return plansShare(client, input);
+      }
+
+      const msg = err instanceof Error ? err.message : String(err);
+      log.error(`plans_share: ${STEP_LABELS[step]} failed for chat ${share.chatId}: ${msg}`);
+      savePendingShare({ ...share, failedStep: step, error: msg });
+      return [
+        `Plan "${input.title}" was only partially shared: ${STEP_LABELS[step]} failed.`,
+        `Error: ${msg}`,
+        ``,
+        `Completed: ${stepList(share.completed)}`,
+        `Not done: ${stepList(todo.slice(idx))}`,
+        ``,
+        `Chat URL: ${client.chatUrl(share.chatId)}`,
+        `Chat ID: ${share.chatId}`,
+        ``,
+        `The chat is recorded as a pending share. Call plans_share again with the same title ` +
+          `to resume from the failed step; it reuses this chat rather than creating another. ` +
+          `Pass discard_pending: true to delete it and start over instead.`,
+      ].join("\n");
+    }
+    // The refresh runs again on every resume, so it is never recorded as done
+    if (step !== "refresh") share.completed.push(step);
+    savePendingShare({ ...share, failedStep: undefined, error: undefined });
+  }
+
+  // Track this plan locally
+  const url = client.chatUrl(share.chatId);
+  log.info(`plans_share: plan shared successfully at ${url}`);
+  trackPlan({
+    chatId: share.chatId,
+    planMessageId: messageId,
+    title: input.title,
+    createdAt,
+    updatedAt: now,
+    url,
+    folderId: project.folderId,
+    base: planBase(markdown, now),
+  });
+  addPlanRevision(share.chatId, {
+    createdAt: now,
+    source: "share",
+    model: input.model,
+    markdown,
+  });
+  clearPendingShare(share.chatId);
+
+  // Build response
+  const parts: string[] = [
+    `Plan "${input.title}" shared successfully.`,
+    ``,
+    `Chat URL: ${url}`,
+    `Chat ID: ${share.chatId}`,
+    `Project: ${project.projectName}`,
+  ];
 
+  if (pending) {
+    parts.push(`Resumed an interrupted share (already done: ${stepList(pending.completed)})`);
+  }
+  if (discardNote) parts.push(discardNote);
+  if (collaborative && steps.invite) {
+    parts.push(`Invited: ${input.invite_emails!.length} engineer(s)`);
+  }
+  if (templateNote) parts.push(templateNote);
+  const uninvited = uninvitedAssignees(items, input.invite_emails);
+  if (uninvited.length > 0) {
+    parts.push(`Assigned but not invited: ${uninvited.join(", ")} (add them to invite_emails)`);
+  }
+  parts.push(
+    input.draft
+      ? `Status: draft (submit for review with plans_status)`
+      : `Status: in_review (${plan.metadata.requiredApprovals} approval(s) required)`,
+  );
+
+  parts.push(
+    ``,
+    ...(collaborative
+      ? [
+        `Collaboration is enabled with write access via link.`,
+        `Engineers can open the URL to review and provide feedback.`,
+      ]
+      : [TOOL_DEGRADATIONS.plans_share.note]),
+    `Use plans_pull to retrieve updates and feedback.`,
+  );
+
+  return parts.join("\n");
+}
+
+/** The chat payload for a new plan chat holding a single assistant message. */
+async function buildChatData(
+  client: CoChatClient,
+  title: string,
+  messageId: string,
+  markdown: string,
+): Promise<Record<string, unknown>> {
   // Resolve the default model
   const defaultModel = await client.getDefaultModel();
-
-  // Build the chat message structure
-  const messageId = crypto.randomUUID();
   const timestamp = Math.floor(Date.now() / 1000);
 
-  const chatData: Record<string, unknown> = {
-    title: `Plan: ${input.title}`,
+  return {
+    title: `Plan: ${title}`,
     models: [defaultModel],
     history: {
       messages: {
@@ -112,66 +361,4 @@ export async function plansShare(
     tags: [],
     timestamp: Date.now(),
   };
-
-  // Create the chat
-  log.debug("plans_share: creating chat");
-  const chat = await client.createChat(chatData);
-  log.info(`plans_share: chat created (id: ${chat.id})`);
-
-  // Move into project folder
-  if (project.folderId) {
-    log.debug(`plans_share: moving chat to folder ${project.folderId}`);
-    await client.moveChatToFolder(chat.id, project.folderId);
-  }
-
-  // Enable collaboration
-  log.debug("plans_share: enabling collaboration");
-  await client.enableCollaboration(chat.id);
-
-  // Set link access to write so anyone with the link can collaborate
-  log.debug("plans_share: setting link access");
-  await client.setLinkAccess(chat.id, "write");
-
-  // Invite users if provided
-  let invitedCount = 0;
-  if (input.invite_emails && input.invite_emails.length > 0) {
-    log.debug(`plans_share: inviting ${input.invite_emails.length} users`);
-    await client.inviteUsers(chat.id, input.invite_emails, "write");
-    invitedCount = input.invite_emails.length;
-  }
-
-  // Track this plan locally
-  const url = client.chatUrl(chat.id);
-  log.info(`plans_share: plan shared successfully at ${url}`);
-  trackPlan({
-    chatId: chat.id,
-    planMessageId: messageId,
-    title: input.title,
-    createdAt: now,
-    updatedAt: now,
-    url,
-    folderId: project.folderId,
-  });
-
-  // Build response
-  const parts: string[] = [
-    `Plan "${input.title}" shared successfully.`,
-    ``,
-    `Chat URL: ${url}`,
-    `Chat ID: ${chat.id}`,
-    `Project: ${project.projectName}`,
-  ];
-
-  if (invitedCount > 0) {
-    parts.push(`Invited: ${invitedCount} engineer(s)`);
-  }
-
-  parts.push(
-    ``,
-    `Collaboration is enabled with write access via link.`,
-    `Engineers can open the URL to review and provide feedback.`,
-    `Use plans_pull to retrieve updates and feedback.`,
-  );
-
-  return parts.join("\n");
 }
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { CoChatClient, CoChatChatResponse, CoChatMessage } from "../cochat-client.js";
+import type { PlanRevision, TrackedPlan } from "../config.js";
+import { planToMarkdown, type PlanItem } from "../plan-format.js";
+
+// Mock the local store
+vi.mock("../config.js", () => ({
+  getTrackedPlan: vi.fn(),
+  getMostRecentPlan: vi.fn(),
+  getPlanRevisions: vi.fn(() => []),
+}));
+
+vi.mock("./projects-add.js", () => ({
+  resolveCurrentProjectFolder: vi.fn().mockResolvedValue({
+    folderId: "folder-1",
+    projectName: "Demo",
+  }),
+}));
+
+import { plansStats } from "./plans-stats.js";
+import { getMostRecentPlan, getPlanRevisions } from "../config.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const tracked: TrackedPlan = {
+  chatId: "chat-1",
+  planMessageId: "plan-msg",
+  title: "Stats Plan",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  url: "https://cochat.example.com/c/chat-1",
+};
+
+function planMarkdown(title: string, items: PlanItem[]): string {
+  return planToMarkdown({
+    title,
+    items,
+    metadata: {
+      source: "coding-agent",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    },
+  });
+}
+
+function planMessage(content: string): CoChatMessage {
+  return { id: "plan-msg", parentId: null, childrenIds: [], role: "assistant", content, timestamp: 1 };
+}
+
+const items: PlanItem[] = [
+  { id: "a", content: "Done", status: "completed", priority: "high" },
+  { id: "b", content: "Open", status: "pending", priority: "low" },
+];
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("plansStats", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getMostRecentPlan).mockReturnValue(tracked);
+  });
+
+  it("reports progress and a burndown for one plan", async () => {
+    vi.mocked(getPlanRevisions).mockReturnValue([
+      {
+        revision: 1,
+        createdAt: "2026-01-01T00:00:00.000Z",
+        source: "share",
+        markdown: planMarkdown("Stats Plan", items.map((i) => ({ ...i, status: "pending" }))),
+      } as PlanRevision,
+    ]);
+    const client = {
+      getChat: vi.fn().mockResolvedValue({ id: "chat-1" } as CoChatChatResponse),
+      extractMessages: vi.fn().mockReturnValue([planMessage(planMarkdown("Stats Plan", items))]),
+    } as unknown as CoChatClient;
+
+    const result = await plansStats(client, {});
+
+    expect(result).toContain("**Progress:** 75% complete");
+    expect(result).toContain("**Tasks:** 2 -- 1 completed, 0 in progress, 1 pending, 0 cancelled");
+    expect(result).toContain("| r1 | 2026-01-01T00:00:00.000Z | share | 2 | 0% |");
+  });
+
+  it("aggregates every plan in the project folder", async () => {
+    const chats = [
+      { id: "chat-1", chat: { plan: "Stats Plan" } },
+      { id: "chat-2", chat: { plan: "Other Plan" } },
+      { id: "chat-3", chat: { plan: "" } },
+    ] as unknown as CoChatChatResponse[];
+    const client = {
+      listFolderChats: vi.fn().mockResolvedValue(chats),
+      listChats: vi.fn().mockResolvedValue([]),
+      extractMessages: vi.fn((chat: { chat: { plan: string } }) =>
+        chat.chat.plan === "Stats Plan"
+          ? [planMessage(planMarkdown("Stats Plan", items))]
+          : chat.chat.plan === "Other Plan"
+            ? [planMessage(planMarkdown("Other Plan", [{ ...items[1], id: "c" }]))]
+            : [planMessage("just chatting")],
+      ),
+      getChat: vi.fn().mockResolvedValue({ chat: { plan: "" } }),
+    } as unknown as CoChatClient;
+
+    const result = await plansStats(client, { project: true });
+
+    expect(result).toContain("## Project Stats: Demo (2 plan(s))");
+    expect(result).toContain("**Progress:** 50% complete");
+    expect(result).toContain("| Stats Plan | 75% | 1 | 0 | 1 | 0 |");
+    expect(result).toContain("| Other Plan | 0% | 0 | 0 | 1 | 0 |");
+  });
+});
@@ -0,0 +1,126 @@
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import { getMostRecentPlan, getPlanRevisions, getTrackedPlan } from "../config.js";
+import { isPlanMessage, markdownToPlan } from "../plan-format.js";
+import {
+  burndown,
+  combineBurndowns,
+  formatStatusCounts,
+  planProgress,
+  type BurndownPoint,
+} from "../plan-stats.js";
+import { findFolderPlans } from "./plans-discover.js";
+import { resolveCurrentProjectFolder } from "./projects-add.js";
+
+export const PlansStatsSchema = z.object({
+  chat_id: z
+    .string()
+    .optional()
+    .describe("Chat ID of the plan. If not provided, uses the most recently shared plan."),
+  project: z
+    .boolean()
+    .optional()
+    .describe("Aggregate over every plan in the current project's CoChat folder instead of one plan."),
+});
+
+export type PlansStatsInput = z.infer<typeof PlansStatsSchema>;
+
+function formatBurndownTable(points: BurndownPoint[]): string[] {
+  const lines = ["| Revision | Date | Source | Open | Complete |", "|---|---|---|---|---|"];
+  for (const point of points) {
+    lines.push(`| r${point.revision} | ${point.at} | ${point.source} | ${point.open} | ${point.percent}% |`);
+  }
+  return lines;
+}
+
+async function singlePlanStats(client: CoChatClient, chatId?: string): Promise<string> {
+  const tracked = chatId ? getTrackedPlan(chatId) : getMostRecentPlan();
+  if (!tracked) {
+    return chatId
+      ? `Plan with chat ID ${chatId} is not tracked locally. Use plans_list to see tracked plans.`
+      : "No shared plans found. Use plans_share to share a plan first.";
+  }
+
+  const chat = await client.getChat(tracked.chatId);
+  const planMessage = client.extractMessages(chat).find((m) => isPlanMessage(m.content));
+  const plan = planMessage ? markdownToPlan(planMessage.content) : null;
+  if (!plan) {
+    return `Chat ${tracked.chatId} does not contain a readable plan message.`;
+  }
+
+  const progress = planProgress(plan.items);
+  const points = burndown(getPlanRevisions(tracked.chatId));
+
+  const parts = [
+    `## Plan Stats: ${tracked.title}`,
+    "",
+    `**Progress:** ${progress.percent}% complete (weighted by priority and subtasks)`,
+    `**Tasks:** ${progress.counts.total} -- ${formatStatusCounts(progress.counts)}`,
+    "",
+  ];
+
+  if (points.length > 0) {
+    parts.push(`### Burndown (${points.length} revision(s))`, "", ...formatBurndownTable(points));
+  } else {
+    parts.push("No revisions recorded yet, so there is no burndown.");
+  }
+
+  return parts.join("\n");
+}
+
+async function projectStats(client: CoChatClient): Promise<string> {
+  const project = await resolveCurrentProjectFolder(client);
+  const plans = (await findFolderPlans(client, project.folderId)).map(({ chat, plan }) => ({
+    chatId: chat.id,
+    plan,
+    progress: planProgress(plan.items),
+  }));
+
+  if (plans.length === 0) {
+    return `No plans found for project "${project.projectName}".`;
+  }
+
+  // Plans with more (non-cancelled) tasks weigh more in the overall figure
+  let weight = 0;
+  let weighted = 0;
+  const totals = { pending: 0, in_progress: 0, completed: 0, cancelled: 0, total: 0 };
+  for (const { progress } of plans) {
+    const active = progress.counts.total - progress.counts.cancelled;
+    weight += active;
+    weighted += active * progress.percent;
+    for (const key of Object.keys(totals) as Array<keyof typeof totals>) {
+      totals[key] += progress.counts[key];
+    }
+  }
+
+  const parts = [
+    `## Project Stats: ${project.projectName} (${plans.length} plan(s))`,
+    "",
+    `**Progress:** ${weight > 0 ? Math.round(weighted / weight) : 0}% complete`,
+    `**Tasks:** ${totals.total} -- ${formatStatusCounts(totals)}`,
+    "",
+    "| Plan | Complete | Done | In progress | Pending | Cancelled |",
+    "|---|---|---|---|---|---|",
+  ];
+  for (const { plan, progress } of plans) {
+    const c = progress.counts;
+    parts.push(
+      `| ${plan.title} | ${progress.percent}% | ${c.completed} | ${c.in_progress} | ${c.pending} | ${c.cancelled} |`,
+    );
+  }
+
+  const combined = combineBurndowns(plans.map(({ chatId }) => burndown(getPlanRevisions(chatId))));
+  if (combined.length > 0) {
+    parts.push("", "### Burndown (open tasks across tracked plans)", "", "| Date | Open |", "|---|---|");
+    for (const point of combined) parts.push(`| ${point.at} | ${point.open} |`);
+  }
+
+  return parts.join("\n");
+}
+
+export async function plansStats(
+  client: CoChatClient,
+  input: PlansStatsInput,
+): Promise<string> {
+  return input.project ? projectStats(client) : singlePlanStats(client, input.chat_id);
+}
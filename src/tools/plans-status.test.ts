@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { CoChatClient, CoChatChatResponse, CoChatMessage } from "../cochat-client.js";
+import type { TrackedPlan } from "../config.js";
+import { planToMarkdown, markdownToPlan, type PlanMetadata } from "../plan-format.js";
+
+// Mock the local store
+vi.mock("../config.js", () => ({
+  getTrackedPlan: vi.fn(),
+  getMostRecentPlan: vi.fn(),
+  trackPlan: vi.fn(),
+  addPlanRevision: vi.fn(),
+  getPlanRevisions: vi.fn(() => []),
+}));
+
+import { plansStatus } from "./plans-status.js";
+import { getTrackedPlan } from "../config.js";
+
+const mockGetTrackedPlan = vi.mocked(getTrackedPlan);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const tracked: TrackedPlan = {
+  chatId: "chat-1",
+  planMessageId: "plan-msg",
+  title: "Status Plan",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  url: "https://cochat.example.com/c/chat-1",
+};
+
+function makeMockClient(metadata: Partial<PlanMetadata>, replies: string[] = []): CoChatClient {
+  const planMessage: CoChatMessage = {
+    id: "plan-msg",
+    parentId: null,
+    childrenIds: [],
+    role: "assistant",
+    content: planToMarkdown({
+      title: "Status Plan",
+      items: [{ id: "a", content: "Task", status: "pending", priority: "high" }],
+      metadata: {
+        source: "coding-agent",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+        ...metadata,
+      },
+    }),
+    timestamp: 1,
+  };
+  const replyMessages: CoChatMessage[] = replies.map((content, idx) => ({
+    id: `reply-${idx}`,
+    parentId: null,
+    childrenIds: [],
+    role: "user",
+    content,
+    timestamp: 100 + idx,
+    author: { id: "u1", name: "Alice", email: "alice@example.com", timestamp: 100 + idx },
+  }));
+  return {
+    getChat: vi.fn().mockResolvedValue({ id: "chat-1" } as CoChatChatResponse),
+    extractMessages: vi.fn().mockReturnValue([planMessage, ...replyMessages]),
+    updateMessage: vi.fn().mockResolvedValue({}),
+  } as unknown as CoChatClient;
+}
+
+function pushedMetadata(client: CoChatClient): PlanMetadata {
+  return markdownToPlan(vi.mocked(client.updateMessage).mock.calls[0][2])!.metadata;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("plansStatus", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetTrackedPlan.mockReturnValue(tracked);
+  });
+
+  it("reports approval without touching the plan", async () => {
+    const client = makeMockClient({ status: "in_review" }, ["/approve looks good"]);
+
+    const result = await plansStatus(client, { chat_id: "chat-1" });
+
+    expect(result).toContain("**Review status:** approved (1/1 approvals)");
+    expect(result).toContain("- Approved by Alice: looks good");
+    expect(result).toContain("Implementation may proceed.");
+    expect(client.updateMessage).not.toHaveBeenCalled();
+  });
+
+  it("refuses to mark an unapproved plan done", async () => {
+    const client = makeMockClient({ status: "in_review" });
+
+    const result = await plansStatus(client, { chat_id: "chat-1", set_status: "done" });
+
+    expect(result).toContain("cannot be marked done before it is approved");
+    expect(client.updateMessage).not.toHaveBeenCalled();
+  });
+
+  it("resubmitting starts a new review round", async () => {
+    const client = makeMockClient({ status: "changes_requested" }, ["/request-changes add tests"]);
+
+    const result = await plansStatus(client, { chat_id: "chat-1", set_status: "in_review" });
+
+    expect(result).toContain("**Review status:** in_review (0/1 approvals)");
+    const metadata = pushedMetadata(client);
+    expect(metadata.status).toBe("in_review");
+    expect(metadata.reviewRequestedAt).toBeDefined();
+  });
+
+  it("applies a new approval requirement immediately", async () => {
+    const client = makeMockClient({ status: "in_review", requiredApprovals: 2 }, ["/approve"]);
+
+    const result = await plansStatus(client, { chat_id: "chat-1", required_approvals: 1 });
+
+    expect(result).toContain("approved (1/1 approvals)");
+    expect(pushedMetadata(client)).toMatchObject({ status: "approved", requiredApprovals: 1 });
+  });
+});
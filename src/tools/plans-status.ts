@@ -0,0 +1,111 @@
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import { addPlanRevision, getMostRecentPlan, getTrackedPlan, trackPlan } from "../config.js";
+import { markdownToPlan, planToMarkdown, isPlanMessage, type Plan } from "../plan-format.js";
+import {
+  computeReviewState,
+  formatReviewStatus,
+  formatReviewSummary,
+  isImplementationAllowed,
+} from "../plan-review.js";
+import { hashPlanContent, planBase } from "../plan-diff.js";
+import { captureRemoteRevision } from "./plans-history.js";
+
+export const PlansStatusSchema = z.object({
+  chat_id: z
+    .string()
+    .optional()
+    .describe("Chat ID of the plan. If not provided, uses the most recently shared plan."),
+  set_status: z
+    .enum(["draft", "in_review", "done"])
+    .optional()
+    .describe(
+      "Move the plan through its lifecycle: 'in_review' submits it (or resubmits it after " +
+      "changes, starting a new review round), 'draft' withdraws it, 'done' closes an approved " +
+      "plan. Approval and change requests come from reviewers replying /approve or /request-changes."
+    ),
+  required_approvals: z
+    .number()
+    .optional()
+    .describe("Number of reviewer approvals needed before the plan counts as approved"),
+});
+
+export type PlansStatusInput = z.infer<typeof PlansStatusSchema>;
+
+export async function plansStatus(
+  client: CoChatClient,
+  input: PlansStatusInput,
+): Promise<string> {
+  const tracked = input.chat_id ? getTrackedPlan(input.chat_id) : getMostRecentPlan();
+
+  if (!tracked) {
+    return input.chat_id
+      ? `Plan with chat ID ${input.chat_id} is not tracked locally. Use plans_list to see tracked plans.`
+      : "No shared plans found. Use plans_share to share a plan first.";
+  }
+
+  const chat = await client.getChat(tracked.chatId);
+  const messages = client.extractMessages(chat);
+  const planMessage = messages.find((m) => isPlanMessage(m.content));
+  const current = planMessage ? markdownToPlan(planMessage.content) : null;
+
+  if (!planMessage || !current) {
+    return `Chat ${tracked.chatId} does not contain a readable plan message.`;
+  }
+
+  let state = computeReviewState(current, messages);
+  const changing = input.set_status !== undefined || input.required_approvals !== undefined;
+
+  if (changing) {
+    if (input.required_approvals !== undefined && input.required_approvals < 0) {
+      return "required_approvals must be zero or more.";
+    }
+    if (input.set_status === "done" && !isImplementationAllowed(state)) {
+      return [
+        `Plan "${tracked.title}" cannot be marked done before it is approved.`,
+        "",
+        ...formatReviewSummary(state),
+      ].join("\n");
+    }
+
+    const now = new Date().toISOString();
+    const metadata = { ...current.metadata, updatedAt: now };
+    if (input.required_approvals !== undefined) {
+      metadata.requiredApprovals = input.required_approvals;
+    }
+    if (input.set_status === "in_review") {
+      metadata.status = "in_review";
+      metadata.reviewRequestedAt = now;
+    } else if (input.set_status) {
+      metadata.status = input.set_status;
+    }
+
+    const plan: Plan = { ...current, metadata };
+    // Re-derive so a new approval count takes effect immediately
+    state = computeReviewState(plan, messages);
+    plan.metadata.status = state.status;
+
+    const markdown = planToMarkdown(plan);
+    captureRemoteRevision(tracked.chatId, planMessage.content);
+    await client.updateMessage(tracked.chatId, tracked.planMessageId, markdown);
+    addPlanRevision(tracked.chatId, {
+      createdAt: now,
+      source: "update",
+      model: plan.metadata.model,
+      markdown,
+      note: `Status: ${formatReviewStatus(state)}`,
+    });
+    // Only the metadata changed; a stale base stays stale so plans_update
+    // still merges task edits the agent hasn't pulled yet
+    const fresh = tracked.base?.hash === hashPlanContent(planMessage.content);
+    trackPlan({ ...tracked, updatedAt: now, base: fresh ? planBase(markdown, now) : tracked.base });
+  }
+
+  return [
+    `## Plan Status: ${tracked.title}`,
+    "",
+    ...formatReviewSummary(state),
+    "",
+    `Chat URL: ${tracked.url}`,
+  ].join("\n");
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { CoChatClient, CoChatChatResponse, CoChatMessage } from "../cochat-client.js";
+import type { PlanRevision, TrackedPlan } from "../config.js";
+import { planToMarkdown, markdownToPlan, type PlanItem } from "../plan-format.js";
+
+// Mock the local store
+vi.mock("../config.js", () => ({
+  getTrackedPlan: vi.fn(),
+  getMostRecentPlan: vi.fn(),
+  trackPlan: vi.fn(),
+  addPlanRevision: vi.fn(),
+  getPlanRevisions: vi.fn(() => []),
+}));
+
+import { plansSync } from "./plans-sync.js";
+import { addPlanRevision, getMostRecentPlan, getPlanRevisions } from "../config.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const tracked: TrackedPlan = {
+  chatId: "chat-1",
+  planMessageId: "plan-msg",
+  title: "Sync Plan",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  url: "https://cochat.example.com/c/chat-1",
+};
+
+function planMarkdown(items: PlanItem[]): string {
+  return planToMarkdown({
+    title: "Sync Plan",
+    items,
+    metadata: {
+      source: "coding-agent",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      requiredApprovals: 1,
+    },
+  });
+}
+
+function makeMockClient(items: PlanItem[]): CoChatClient {
+  const planMessage: CoChatMessage = {
+    id: "plan-msg",
+    parentId: null,
+    childrenIds: [],
+    role: "assistant",
+    content: planMarkdown(items),
+    timestamp: 1,
+  };
+  return {
+    getChat: vi.fn().mockResolvedValue({ id: "chat-1" } as CoChatChatResponse),
+    extractMessages: vi.fn().mockReturnValue([planMessage]),
+    updateMessage: vi.fn().mockResolvedValue({}),
+  } as unknown as CoChatClient;
+}
+
+const shared: PlanItem[] = [
+  { id: "a", content: "Add the login endpoint", status: "pending", priority: "high" },
+  { id: "b", content: "Write tests", status: "pending", priority: "medium" },
+];
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("plansSync", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getMostRecentPlan).mockReturnValue(tracked);
+    vi.mocked(getPlanRevisions).mockReturnValue([
+      { revision: 1, createdAt: tracked.createdAt, source: "share", markdown: planMarkdown(shared) } as PlanRevision,
+    ]);
+  });
+
+  it("pushes local progress and returns the merged todo list", async () => {
+    const client = makeMockClient(shared);
+
+    const result = await plansSync(client, {
+      todos: [
+        { content: "Add login endpoint", status: "completed" },
+        { content: "Update the changelog", status: "pending" },
+      ],
+    });
+
+    const pushed = markdownToPlan(vi.mocked(client.updateMessage).mock.calls[0][2])!;
+    expect(pushed.items.map((i) => [i.content, i.status])).toEqual([
+      ["Add the login endpoint", "completed"],
+      ["Write tests", "pending"],
+      ["Update the changelog", "pending"],
+    ]);
+    expect(pushed.metadata.requiredApprovals).toBe(1);
+    expect(addPlanRevision).toHaveBeenCalledWith(
+      "chat-1",
+      expect.objectContaining({ source: "update", note: "Synced with agent todo list" }),
+    );
+
+    expect(result).toContain("### Changes Pushed");
+    expect(result).toContain("### Only in CoChat (1)");
+    expect(result).toContain("Write tests (id: b)");
+    expect(result).toContain("Add the login endpoint (id: a)");
+  });
+
+  it("reports an engineer's cancellation instead of overriding it", async () => {
+    const client = makeMockClient([{ ...shared[0], status: "cancelled" }, shared[1]]);
+
+    const result = await plansSync(client, {
+      todos: [
+        { id: "a", content: "Add the login endpoint", status: "in_progress" },
+        { id: "b", content: "Write tests", status: "pending" },
+      ],
+    });
+
+    expect(client.updateMessage).not.toHaveBeenCalled();
+    expect(result).toContain("nothing pushed");
+    expect(result).toContain("### Conflicts (1)");
+    expect(result).toContain("cancelled in CoChat but in_progress in your todo list");
+  });
+});
@@ -0,0 +1,131 @@
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import {
+  addPlanRevision,
+  getMostRecentPlan,
+  getPlanRevisions,
+  getTrackedPlan,
+  trackPlan,
+  type PlanItemSnapshot,
+} from "../config.js";
+import { markdownToPlan, planToMarkdown, isPlanMessage, statusIcon, type Plan } from "../plan-format.js";
+import { diffPlanItems, formatPlanItemDiff, isEmptyDiff, planBase, snapshotItems } from "../plan-diff.js";
+import { computeReviewState } from "../plan-review.js";
+import { formatConflict, mergeTodos } from "../plan-sync.js";
+import { TodoItemSchema } from "../schemas.js";
+import { captureRemoteRevision } from "./plans-history.js";
+
+export const PlansSyncSchema = z.object({
+  chat_id: z
+    .string()
+    .optional()
+    .describe("Chat ID of the plan. If not provided, uses the most recently shared plan."),
+  todos: z
+    .array(TodoItemSchema)
+    .describe(
+      "Your current todo list, every item with its status. Pass the plan item ID when you " +
+      "know it; items without an ID are matched by content."
+    ),
+});
+
+export type PlansSyncInput = z.infer<typeof PlansSyncSchema>;
+
+/**
+ * The plan items as this agent last wrote them (share, update or revert),
+ * used as the common ancestor for the three-way merge. Revisions captured
+ * from CoChat edits are skipped since those are the remote side.
+ */
+function lastPushedItems(chatId: string): PlanItemSnapshot[] | undefined {
+  const pushed = getPlanRevisions(chatId).filter((r) => r.source !== "remote");
+  const last = pushed[pushed.length - 1];
+  const plan = last ? markdownToPlan(last.markdown) : null;
+  return plan ? snapshotItems(plan.items) : undefined;
+}
+
+export async function plansSync(
+  client: CoChatClient,
+  input: PlansSyncInput,
+): Promise<string> {
+  const tracked = input.chat_id ? getTrackedPlan(input.chat_id) : getMostRecentPlan();
+
+  if (!tracked) {
+    return input.chat_id
+      ? `Plan with chat ID ${input.chat_id} is not tracked locally. Use plans_list to see tracked plans.`
+      : "No shared plans found. Use plans_share to share a plan first.";
+  }
+
+  const chat = await client.getChat(tracked.chatId);
+  const messages = client.extractMessages(chat);
+  const planMessage = messages.find((m) => isPlanMessage(m.content));
+  const current = planMessage ? markdownToPlan(planMessage.content) : null;
+
+  if (!planMessage || !current) {
+    return `Chat ${tracked.chatId} does not contain a readable plan message.`;
+  }
+
+  const result = mergeTodos(current.items, input.todos, lastPushedItems(tracked.chatId));
+  const diff = diffPlanItems(snapshotItems(current.items), snapshotItems(result.items));
+
+  const parts: string[] = [`## Plan Sync: ${tracked.title}`, ""];
+
+  if (isEmptyDiff(diff)) {
+    trackPlan({ ...tracked, base: planBase(planMessage.content, new Date().toISOString(), planMessage) });
+    parts.push("CoChat already matches your todo list; nothing pushed.", "");
+  } else {
+    const now = new Date().toISOString();
+    const plan: Plan = {
+      ...current,
+      items: result.items,
+      metadata: {
+        ...current.metadata,
+        source: "coding-agent",
+        updatedAt: now,
+        status: computeReviewState(current, messages).status,
+      },
+    };
+    const markdown = planToMarkdown(plan);
+
+    // Keep what the plan looked like before we overwrite it
+    captureRemoteRevision(tracked.chatId, planMessage.content);
+
+    await client.updateMessage(tracked.chatId, tracked.planMessageId, markdown);
+
+    addPlanRevision(tracked.chatId, {
+      createdAt: now,
+      source: "update",
+      model: plan.metadata.model,
+      markdown,
+      note: "Synced with agent todo list",
+    });
+    trackPlan({ ...tracked, updatedAt: now, base: planBase(markdown, now) });
+
+    parts.push(`Pushed merged plan to ${tracked.url}`, "", "### Changes Pushed", "");
+    parts.push(...formatPlanItemDiff(diff));
+  }
+
+  if (result.conflicts.length > 0) {
+    parts.push(`### Conflicts (${result.conflicts.length})`, "");
+    parts.push(...result.conflicts.map((c) => formatConflict(c, "your todo list")), "");
+  }
+
+  if (result.remoteOnly.length > 0) {
+    parts.push(`### Only in CoChat (${result.remoteOnly.length})`, "");
+    parts.push("Open tasks in the plan that are not in your todo list:", "");
+    for (const item of result.remoteOnly) {
+      parts.push(`- ${statusIcon(item.status)} (${item.priority}) ${item.content} (id: ${item.id})`);
+    }
+    parts.push("");
+  }
+
+  parts.push("### Merged Todo List", "");
+  parts.push("Update your todo list to match (use these IDs on the next sync):", "");
+  for (const todo of result.todos) {
+    if (todo.id === null) {
+      parts.push(`- ~~${todo.content}~~ (removed in CoChat; drop it)`);
+    } else {
+      parts.push(`- ${statusIcon(todo.status)} (${todo.priority}) ${todo.content} (id: ${todo.id})`);
+    }
+  }
+
+  return parts.join("\n");
+}
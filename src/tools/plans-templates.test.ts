@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CoChatClient } from "../cochat-client.js";
+
+// Mock the local store
+vi.mock("../config.js", () => ({
+  getLocalTemplates: vi.fn(() => []),
+  saveLocalTemplate: vi.fn(),
+}));
+
+vi.mock("./projects-add.js", () => ({
+  resolveCurrentProjectFolder: vi.fn().mockResolvedValue({
+    folderId: "folder-1",
+    projectName: "Demo",
+  }),
+}));
+
+import { plansTemplates } from "./plans-templates.js";
+import { saveLocalTemplate } from "../config.js";
+
+const template = {
+  name: "launch",
+  summary: "Launch checklist",
+  items: [{ id: "l1", content: "Tell support", status: "pending" as const, priority: "medium" as const }],
+};
+
+function makeClient(data: Record<string, unknown> | null): CoChatClient {
+  return {
+    getFolder: vi.fn().mockResolvedValue({ id: "folder-1", name: "Demo", data }),
+    updateFolder: vi.fn().mockResolvedValue({}),
+  } as unknown as CoChatClient;
+}
+
+describe("plansTemplates", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists built-in and project templates", async () => {
+    const client = makeClient({ plan_templates: { launch: template } });
+
+    const result = await plansTemplates(client, {});
+
+    expect(result).toContain("### feature-rollout (builtin)");
+    expect(result).toContain("Sections: Goal, Rollout, Rollback");
+    expect(result).toContain("### launch (project)");
+    expect(result).toContain("Tasks: Tell support");
+  });
+
+  it("saves project templates in the folder data without dropping other keys", async () => {
+    const client = makeClient({ system_prompt: "Be brief", plan_templates: { old: { ...template, name: "old" } } });
+
+    const result = await plansTemplates(client, { action: "create", ...template, name: "Launch" });
+
+    expect(result).toContain('Template "launch" saved to project "Demo"');
+    const data = vi.mocked(client.updateFolder).mock.calls[0][1].data!;
+    expect(data.system_prompt).toBe("Be brief");
+    expect(Object.keys(data.plan_templates as object)).toEqual(["old", "launch"]);
+  });
+
+  it("saves local templates in the store", async () => {
+    const client = makeClient(null);
+
+    await plansTemplates(client, { action: "create", ...template, scope: "local" });
+
+    expect(saveLocalTemplate).toHaveBeenCalledWith(expect.objectContaining({ name: "launch" }));
+    expect(client.updateFolder).not.toHaveBeenCalled();
+  });
+
+  it("asks for the missing fields", async () => {
+    const result = await plansTemplates(makeClient(null), { action: "create", name: "x" });
+    expect(result).toContain("pass a name, a summary and at least one item");
+  });
+});
+
+describe("plansTemplates with a cached folder", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+  let remote: Record<string, unknown>;
+
+  beforeEach(() => {
+    remote = { plan_templates: { old: { ...template, name: "old" } } };
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async (url, init) => {
+      if (init?.method === "POST") {
+        remote = (JSON.parse(String(init.body)) as { data: Record<string, unknown> }).data;
+      }
+      return new Response(JSON.stringify({ id: "folder-1", name: "Demo", data: remote }), {
+        headers: { "content-type": "application/json" },
+      });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps changes a teammate made after the folder was cached", async () => {
+    const client = new CoChatClient({ cochatUrl: "https://cochat.example.com", apiKey: "key" });
+    await plansTemplates(client, {});
+    // A teammate sets the project prompt while our copy is still cached
+    remote = { ...remote, system_prompt: "Be brief" };
+
+    await plansTemplates(client, { action: "create", ...template });
+
+    expect(remote.system_prompt).toBe("Be brief");
+    expect(Object.keys(remote.plan_templates as object)).toEqual(["old", "launch"]);
+  });
+});
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import type { CoChatClient } from "../cochat-client.js";
+import { getLocalTemplates, saveLocalTemplate } from "../config.js";
+import {
+  availableTemplates,
+  folderTemplates,
+  FOLDER_TEMPLATES_KEY,
+  templateKey,
+  type PlanTemplate,
+  type ResolvedTemplate,
+} from "../plan-templates.js";
+import { PlanItemSchema } from "../schemas.js";
+import { resolveCurrentProjectFolder } from "./projects-add.js";
+
+export const PlansTemplatesSchema = z.object({
+  action: z
+    .enum(["list", "create"])
+    .optional()
+    .describe("'list' (default) shows the available templates; 'create' saves a new one or replaces one with the same name"),
+  name: z.string().optional().describe("Template name, e.g. 'feature-rollout' (create)"),
+  summary: z.string().optional().describe("One line on when to use the template (create)"),
+  description: z
+    .string()
+    .optional()
+    .describe(
+      "Markdown with '## Section' headings and guidance under each; plans_share replaces " +
+      "the guidance with the sections the agent writes (create)",
+    ),
+  items: z
+    .array(PlanItemSchema)
+    .optional()
+    .describe("Tasks every plan of this kind needs (create)"),
+  scope: z
+    .enum(["project", "local"])
+    .optional()
+    .describe("Where to save the template: 'project' (default) shares it with everyone in the CoChat project; 'local' keeps it on this machine"),
+});
+
+export type PlansTemplatesInput = z.infer<typeof PlansTemplatesSchema>;
+
+/**
+ * The templates available in a project folder: the folder's own, then the
+ * ones saved locally, then the built-ins.
+ */
+export async function loadPlanTemplates(
+  client: CoChatClient,
+  folderId: string,
+): Promise<ResolvedTemplate[]> {
+  const folder = await client.getFolder(folderId);
+  return availableTemplates(folderTemplates(folder.data), getLocalTemplates());
+}
+
+function formatTemplate(template: ResolvedTemplate): string[] {
+  const lines = [`### ${template.name} (${template.source})`, "", template.summary];
+  const sections = (template.description ?? "")
+    .split("\n")
+    .filter((l) => l.startsWith("## "))
+    .map((l) => l.slice(3).trim());
+  if (sections.length > 0) lines.push(`Sections: ${sections.join(", ")}`);
+  lines.push(`Tasks: ${template.items.map((i) => i.content).join("; ")}`, "");
+  return lines;
+}
+
+async function createTemplate(client: CoChatClient, input: PlansTemplatesInput): Promise<string> {
+  if (!input.name?.trim() || !input.summary || !input.items || input.items.length === 0) {
+    return "To create a template, pass a name, a summary and at least one item.";
+  }
+
+  const template: PlanTemplate = {
+    name: templateKey(input.name),
+    summary: input.summary,
+    description: input.description,
+    items: input.items,
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (input.scope === "local") {
+    saveLocalTemplate(template);
+    return `Template "${template.name}" saved on this machine (${template.items.length} task(s)).`;
+  }
+
+  const project = await resolveCurrentProjectFolder(client);
+  const folder = await client.getFolder(project.folderId, { fresh: true });
+  const existing = folder.data?.[FOLDER_TEMPLATES_KEY];
+  // Folder data also holds the system prompt and files; keep them
+  await client.updateFolder(project.folderId, {
+    data: {
+      ...folder.data,
+      [FOLDER_TEMPLATES_KEY]: {
+        ...(existing && typeof existing === "object" ? existing : {}),
+        [template.name]: template,
+      },
+    },
+  });
+
+  return (
+    `Template "${template.name}" saved to project "${project.projectName}" ` +
+    `(${template.items.length} task(s)). Use it with plans_share template: "${template.name}".`
+  );
+}
+
+export async function plansTemplates(
+  client: CoChatClient,
+  input: PlansTemplatesInput,
+): Promise<string> {
+  if (input.action === "create") return createTemplate(client, input);
+
+  const project = await resolveCurrentProjectFolder(client);
+  const templates = await loadPlanTemplates(client, project.folderId);
+  return [
+    `## Plan Templates (${templates.length})`,
+    "",
+    ...templates.flatMap(formatTemplate),
+    "Pass template: \"<name>\" to plans_share to start a plan from one.",
+  ].join("\n");
+}
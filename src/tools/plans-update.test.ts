@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { CoChatClient, CoChatChatResponse, CoChatMessage } from "../cochat-client.js";
+import type { TrackedPlan } from "../config.js";
+import { planToMarkdown, markdownToPlan, type PlanItem } from "../plan-format.js";
+import { planBase } from "../plan-diff.js";
+
+// Mock the local store
+vi.mock("../config.js", () => ({
+  getTrackedPlan: vi.fn(),
+  trackPlan: vi.fn(),
+  addPlanRevision: vi.fn(),
+  getPlanRevisions: vi.fn(() => []),
+}));
+
+import { plansUpdate } from "./plans-update.js";
+import { getTrackedPlan } from "../config.js";
+
+const mockGetTrackedPlan = vi.mocked(getTrackedPlan);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const tracked: TrackedPlan = {
+  chatId: "chat-1",
+  planMessageId: "plan-msg",
+  title: "Update Plan",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  url: "https://cochat.example.com/c/chat-1",
+};
+
+const items: PlanItem[] = [
+  {
+    id: "a",
+    content: "Parent",
+    status: "in_progress",
+    priority: "high",
+    children: [{ id: "a1", content: "Child", status: "pending", priority: "low" }],
+  },
+  { id: "b", content: "Other", status: "pending", priority: "medium" },
+];
+
+function planMarkdown(planItems: PlanItem[], description = "Keep me"): string {
+  return planToMarkdown({
+    title: "Update Plan",
+    description,
+    items: planItems,
+    metadata: {
+      source: "coding-agent",
+      model: "test-model",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    },
+  });
+}
+
+function makeMockClient(remoteItems: PlanItem[] = items, description?: string): CoChatClient {
+  const planMessage: CoChatMessage = {
+    id: "plan-msg",
+    parentId: null,
+    childrenIds: [],
+    role: "assistant",
+    content: planMarkdown(remoteItems, description),
+    timestamp: 1,
+  };
+  return {
+    getChat: vi.fn().mockResolvedValue({ id: "chat-1" } as CoChatChatResponse),
+    extractMessages: vi.fn().mockReturnValue([planMessage]),
+    updateMessage: vi.fn().mockResolvedValue({}),
+  } as unknown as CoChatClient;
+}
+
+function pushedPlan(client: CoChatClient) {
+  const markdown = vi.mocked(client.updateMessage).mock.calls[0][2];
+  return markdownToPlan(markdown)!;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("plansUpdate", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetTrackedPlan.mockReturnValue(tracked);
+  });
+
+  it("patches individual items by ID, including nested children", async () => {
+    const client = makeMockClient();
+    const result = await plansUpdate(client, {
+      chat_id: "chat-1",
+      item_updates: [
+        { id: "a1", status: "completed" },
+        { id: "b", content: "Renamed", priority: "high" },
+      ],
+    });
+
+    expect(result).toContain("Patched 2 task(s).");
+    const plan = pushedPlan(client);
+    expect(plan.items[0].status).toBe("in_progress");
+    expect(plan.items[0].children![0]).toMatchObject({ id: "a1", status: "completed" });
+    expect(plan.items[1]).toMatchObject({ id: "b", content: "Renamed", priority: "high" });
+  });
+
+  it("keeps the current description and model when not provided", async () => {
+    const client = makeMockClient();
+    await plansUpdate(client, {
+      chat_id: "chat-1",
+      item_updates: [{ id: "b", status: "completed" }],
+    });
+
+    const plan = pushedPlan(client);
+    expect(plan.description).toBe("Keep me");
+    expect(plan.metadata.model).toBe("test-model");
+  });
+
+  it("keeps paragraphs and code blocks in the current description", async () => {
+    const description = "Para one.\n\n```ts\nconst a = 1;\n\nconst b = 2;\n```\n\nPara two.";
+    const client = makeMockClient(items, description);
+    await plansUpdate(client, {
+      chat_id: "chat-1",
+      item_updates: [{ id: "b", status: "completed" }],
+    });
+
+    const markdown = vi.mocked(client.updateMessage).mock.calls[0][2];
+    expect(markdown).toContain(`## Overview\n\n${description}\n\n## Tasks`);
+    expect(pushedPlan(client).description).toBe(description);
+  });
+
+  it("reports unknown item IDs without writing", async () => {
+    const client = makeMockClient();
+    const result = await plansUpdate(client, {
+      chat_id: "chat-1",
+      item_updates: [{ id: "missing", status: "completed" }],
+    });
+
+    expect(result).toContain("No plan item found for ID(s): missing");
+    expect(client.updateMessage).not.toHaveBeenCalled();
+  });
+
+  it("replaces the whole list when items are given", async () => {
+    const client = makeMockClient();
+    await plansUpdate(client, {
+      chat_id: "chat-1",
+      items: [{ id: "z", content: "Only task", status: "pending", priority: "low" }],
+    });
+
+    const plan = pushedPlan(client);
+    expect(plan.items).toHaveLength(1);
+    expect(plan.items[0].id).toBe("z");
+  });
+
+  it("requires either items or item_updates", async () => {
+    const client = makeMockClient();
+    const result = await plansUpdate(client, { chat_id: "chat-1" });
+
+    expect(result).toContain("Provide either");
+    expect(client.getChat).not.toHaveBeenCalled();
+  });
+
+  describe("when the plan was edited in CoChat", () => {
+    // An engineer renamed "b" after the agent last saw the plan
+    const edited: PlanItem[] = [items[0], { ...items[1], content: "Other, renamed" }];
+
+    beforeEach(() => {
+      mockGetTrackedPlan.mockReturnValue({
+        ...tracked,
+        base: planBase(planMarkdown(items), "2026-01-02T00:00:00.000Z"),
+      });
+    });
+
+    it("updates normally when nothing changed remotely", async () => {
+      const client = makeMockClient();
+      const result = await plansUpdate(client, {
+        chat_id: "chat-1",
+        item_updates: [{ id: "b", status: "completed" }],
+        on_conflict: "refuse",
+      });
+
+      expect(result).not.toContain("Merged");
+      expect(pushedPlan(client).items[1].status).toBe("completed");
+    });
+
+    it("refuses without writing when asked to", async () => {
+      const client = makeMockClient(edited);
+      const result = await plansUpdate(client, { chat_id: "chat-1", items, on_conflict: "refuse" });
+
+      expect(result).toContain("was edited in CoChat since you last saw it");
+      expect(result).toContain('content: "Other" -> "Other, renamed"');
+      expect(client.updateMessage).not.toHaveBeenCalled();
+    });
+
+    it("merges the engineer's edits with the agent's by default", async () => {
+      const client = makeMockClient(edited);
+      const result = await plansUpdate(client, {
+        chat_id: "chat-1",
+        items: [{ ...items[0], status: "completed" }, items[1]],
+      });
+
+      expect(result).toContain("Merged with edits made in CoChat");
+      const plan = pushedPlan(client);
+      expect(plan.items[0].status).toBe("completed");
+      expect(plan.items[1].content).toBe("Other, renamed");
+    });
+
+    it("keeps the CoChat value and reports conflicting edits", async () => {
+      const client = makeMockClient(edited);
+      const result = await plansUpdate(client, {
+        chat_id: "chat-1",
+        item_updates: [{ id: "b", content: "Other, by the agent" }],
+      });
+
+      expect(result).toContain("#### Conflicts (1)");
+      expect(pushedPlan(client).items[1].content).toBe("Other, renamed");
+    });
+
+    it("overwrites when asked to", async () => {
+      const client = makeMockClient(edited);
+      await plansUpdate(client, { chat_id: "chat-1", items, on_conflict: "overwrite" });
+
+      expect(pushedPlan(client).items[1].content).toBe("Other");
+    });
+  });
+});
@@ -1,17 +1,89 @@
 import { z } from "zod";
 import type { CoChatClient } from "../cochat-client.js";
-import { getTrackedPlan, trackPlan } from "../config.js";
-import { planToMarkdown, isPlanMessage } from "../plan-format.js";
-import { PlanItemSchema } from "../schemas.js";
+import { addPlanRevision, getTrackedPlan, trackPlan } from "../config.js";
+import { planToMarkdown, markdownToPlan, isPlanMessage, type Plan, type PlanItem } from "../plan-format.js";
+import {
+  diffPlanItems,
+  formatPlanItemDiff,
+  hashPlanContent,
+  planBase,
+  snapshotItems,
+} from "../plan-diff.js";
+import { computeReviewState } from "../plan-review.js";
+import { uninvitedAssignees } from "../plan-schedule.js";
+import { formatConflict, mergePlanItems } from "../plan-sync.js";
+import {
+  PlanItemSchema,
+  PlanItemPatchSchema,
+  PlanRenderSchema,
+  type PlanItemPatchInput,
+} from "../schemas.js";
+import { captureRemoteRevision } from "./plans-history.js";
 
 export const PlansUpdateSchema = z.object({
   chat_id: z.string().describe("Chat ID of the plan to update"),
-  items: z.array(PlanItemSchema).describe("Updated list of plan task items"),
-  description: z.string().optional().describe("Updated description"),
+  items: z
+    .array(PlanItemSchema)
+    .optional()
+    .describe("Updated list of plan task items. Replaces the whole list."),
+  item_updates: z
+    .array(PlanItemPatchSchema)
+    .optional()
+    .describe(
+      "Patch individual items by ID instead of replacing the whole list. " +
+      "Only the fields provided are changed. Ignored when 'items' is given."
+    ),
+  description: z.string().optional().describe("Updated description. Omit to keep the current one."),
+  on_conflict: z
+    .enum(["merge", "refuse", "overwrite"])
+    .optional()
+    .describe(
+      "What to do if the plan was edited in CoChat since you last pulled or pushed it: " +
+      "'merge' (default) three-way merges your changes with the engineers' edits, keeping " +
+      "theirs where both changed the same field; 'refuse' leaves the plan untouched so you " +
+      "can plans_pull first; 'overwrite' replaces their edits."
+    ),
+  render: PlanRenderSchema.optional().describe(
+    "Change the optional render modes (Mermaid diagram, summary table, JSON appendix). Omit to keep the current ones.",
+  ),
 });
 
 export type PlansUpdateInput = z.infer<typeof PlansUpdateSchema>;
 
+/**
+ * Apply patches to a plan item tree (including nested children).
+ * Returns the patched tree and the IDs that matched no item.
+ */
+function applyItemPatches(
+  items: PlanItem[],
+  patches: PlanItemPatchInput[],
+): { items: PlanItem[]; missing: string[] } {
+  const byId = new Map(patches.map((p) => [p.id, p]));
+  const applied = new Set<string>();
+
+  const walk = (list: PlanItem[]): PlanItem[] =>
+    list.map((item) => {
+      const patch = byId.get(item.id);
+      const next: PlanItem = { ...item };
+      if (patch) {
+        applied.add(item.id);
+        if (patch.content !== undefined) next.content = patch.content;
+        if (patch.status !== undefined) next.status = patch.status;
+        if (patch.priority !== undefined) next.priority = patch.priority;
+        if (patch.dependsOn !== undefined) next.dependsOn = patch.dependsOn;
+        if (patch.assignee !== undefined) next.assignee = patch.assignee;
+        if (patch.estimate !== undefined) next.estimate = patch.estimate;
+        if (patch.due !== undefined) next.due = patch.due;
+      }
+      if (item.children) next.children = walk(item.children);
+      return next;
+    });
+
+  const patched = walk(items);
+  const missing = patches.map((p) => p.id).filter((id) => !applied.has(id));
+  return { items: patched, missing };
+}
+
 export async function plansUpdate(
   client: CoChatClient,
   input: PlansUpdateInput,
@@ -22,6 +94,10 @@ export async function plansUpdate(
     return `Plan with chat ID ${input.chat_id} is not tracked locally. Use plans_list to see tracked plans.`;
   }
 
+  if (!input.items && !input.item_updates) {
+    return "Provide either 'items' (full replacement) or 'item_updates' (patch by ID).";
+  }
+
   const chat = await client.getChat(input.chat_id);
   const messages = client.extractMessages(chat);
 
@@ -31,29 +107,118 @@ export async function plansUpdate(
     return `Chat ${input.chat_id} does not contain a plan message.`;
   }
 
+  const current = markdownToPlan(planMessage.content);
+
+  let items: PlanItem[];
+  let patchedCount = 0;
+  if (input.items) {
+    items = input.items;
+  } else {
+    if (!current) {
+      return `Could not parse the current plan in chat ${input.chat_id}; pass the full 'items' list instead.`;
+    }
+    const result = applyItemPatches(current.items, input.item_updates!);
+    if (result.missing.length > 0) {
+      return (
+        `No plan item found for ID(s): ${result.missing.join(", ")}. ` +
+        "Use plans_pull to see the current item IDs."
+      );
+    }
+    items = result.items;
+    patchedCount = input.item_updates!.length;
+  }
+
+  // Optimistic concurrency: did anyone edit the plan since the agent last saw it?
+  const base = tracked.base;
+  const onConflict = input.on_conflict ?? "merge";
+  const remoteChanged =
+    base !== undefined && current !== null && base.hash !== hashPlanContent(planMessage.content);
+  let description = input.description ?? current?.description;
+  const mergeReport: string[] = [];
+
+  if (remoteChanged && onConflict !== "overwrite") {
+    const remoteDiff = formatPlanItemDiff(diffPlanItems(base.items, snapshotItems(current.items)));
+    const descriptionChanged = current.description !== base.description;
+
+    if (onConflict === "refuse") {
+      return [
+        `Plan "${tracked.title}" was edited in CoChat since you last saw it (${base.seenAt}); not updated.`,
+        "",
+        ...remoteDiff,
+        ...(descriptionChanged ? ["The description was also edited.", ""] : []),
+        "Run plans_pull to review the changes, then retry, or pass on_conflict: 'merge'.",
+      ].join("\n");
+    }
+
+    const merged = mergePlanItems(base.items, items, current.items);
+    items = merged.items;
+    const conflicts = merged.conflicts.map((c) => formatConflict(c, "your update"));
+    if (
+      descriptionChanged &&
+      input.description !== undefined &&
+      input.description !== base.description &&
+      input.description !== current.description
+    ) {
+      description = current.description;
+      conflicts.push("- Description: edited in CoChat and in your update. Kept the CoChat version.");
+    }
+
+    mergeReport.push(
+      "",
+      `Merged with edits made in CoChat since ${base.seenAt}:`,
+      "",
+      ...remoteDiff,
+    );
+    if (conflicts.length > 0) {
+      mergeReport.push(`#### Conflicts (${conflicts.length})`, "", ...conflicts);
+    }
+  }
+
   const now = new Date().toISOString();
 
-  const plan = {
+  const plan: Plan = {
     title: tracked.title,
-    description: input.description,
-    items: input.items,
+    description,
+    items,
     metadata: {
+      // Keep the review settings and record the status reviewers have reached
+      ...current?.metadata,
       source: "coding-agent",
+      model: current?.metadata.model,
       createdAt: tracked.createdAt,
       updatedAt: now,
+      status: current ? computeReviewState(current, messages).status : undefined,
+      render: input.render ?? current?.metadata.render,
     },
   };
 
   const markdown = planToMarkdown(plan);
 
+  // Keep what the plan looked like before we overwrite it
+  captureRemoteRevision(input.chat_id, planMessage.content);
+
   await client.updateMessage(input.chat_id, tracked.planMessageId, markdown);
 
-  trackPlan({ ...tracked, updatedAt: now });
+  addPlanRevision(input.chat_id, {
+    createdAt: now,
+    source: "update",
+    model: plan.metadata.model,
+    markdown,
+  });
+  trackPlan({ ...tracked, updatedAt: now, base: planBase(markdown, now) });
+
+  const uninvited = uninvitedAssignees(items, plan.metadata.reviewers);
+  const uninvitedNote =
+    uninvited.length > 0 ? [`Assigned but not invited to the plan: ${uninvited.join(", ")}`] : [];
 
   return [
     `Plan "${tracked.title}" updated successfully.`,
     ``,
     `Chat URL: ${tracked.url}`,
-    `Updated ${input.items.length} task(s).`,
+    input.items
+      ? `Updated ${input.items.length} task(s).`
+      : `Patched ${patchedCount} task(s).`,
+    ...uninvitedNote,
+    ...mergeReport,
   ].join("\n");
 }
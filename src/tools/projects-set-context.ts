@@ -27,8 +27,10 @@ export async function projectsSetContext(
     folderId = project.folderId;
   }
 
+  // Folder data also holds files and plan templates; keep them
+  const folder = await client.getFolder(folderId, { fresh: true });
   await client.updateFolder(folderId, {
-    data: { system_prompt: input.system_prompt },
+    data: { ...folder.data, system_prompt: input.system_prompt },
   });
 
   return [
@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { z } from "zod";
-import { zodToJsonSchema } from "./zod-to-json-schema.js";
+import { nameSchema, zodToJsonSchema } from "./zod-to-json-schema.js";
 
 describe("zodToJsonSchema", () => {
   // -----------------------------------------------------------------------
@@ -203,13 +203,54 @@ describe("zodToJsonSchema", () => {
   });
 
   // -----------------------------------------------------------------------
-  // ZodLazy fallback
+  // ZodLazy / recursion
   // -----------------------------------------------------------------------
 
-  it("converts ZodLazy to a safe generic object fallback", () => {
+  it("inlines a non-recursive ZodLazy", () => {
     const schema = z.lazy(() => z.object({ x: z.string() }));
     const json = zodToJsonSchema(schema);
-    expect(json).toEqual({ type: "object" });
+    expect(json).toEqual({
+      type: "object",
+      properties: { x: { type: "string" } },
+      required: ["x"],
+    });
+  });
+
+  it("emits recursive schemas via $defs and $ref", () => {
+    interface Node {
+      name: string;
+      children?: Node[];
+    }
+    const NodeSchema: z.ZodType<Node> = nameSchema(
+      z.lazy(() =>
+        z.object({
+          name: z.string(),
+          children: z.array(NodeSchema).optional(),
+        }),
+      ),
+      "Node",
+    );
+    const json = zodToJsonSchema(z.object({ root: NodeSchema, others: z.array(NodeSchema) }));
+
+    expect(json.properties).toEqual({
+      root: { $ref: "#/$defs/Node" },
+      others: { type: "array", items: { $ref: "#/$defs/Node" } },
+    });
+    expect(json.$defs).toEqual({
+      Node: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          children: { type: "array", items: { $ref: "#/$defs/Node" } },
+        },
+        required: ["name"],
+      },
+    });
+  });
+
+  it("does not add $defs when nothing is recursive", () => {
+    const json = zodToJsonSchema(z.object({ a: z.string() }));
+    expect(json.$defs).toBeUndefined();
   });
 
   // -----------------------------------------------------------------------
@@ -7,12 +7,63 @@ import type { z } from "zod";
  * Rather than pulling in the full `zod-to-json-schema` package we do
  * a minimal conversion that handles the types we actually use:
  *   - object, string, number, boolean, array, enum, lazy, optional
+ *
+ * Recursive schemas (a `z.lazy()` that refers back to itself) are emitted
+ * once under the root `$defs` and referenced with `$ref`. Non-recursive lazy
+ * schemas are simply inlined.
  */
 export function zodToJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
-  return convert(schema);
+  const ctx: ConvertContext = {
+    defs: {},
+    inProgress: new Set(),
+    recursive: new Set(),
+  };
+  const result = convert(schema, ctx);
+  if (Object.keys(ctx.defs).length > 0) {
+    result.$defs = ctx.defs;
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Recursive schema names
+// ---------------------------------------------------------------------------
+
+const schemaNames = new WeakMap<z.ZodTypeAny, string>();
+let anonymousCount = 0;
+
+/**
+ * Give a recursive (lazy) schema a readable name for its `$defs` entry.
+ * Returns the schema unchanged so it can wrap the declaration.
+ */
+export function nameSchema<T extends z.ZodTypeAny>(schema: T, name: string): T {
+  schemaNames.set(schema, name);
+  return schema;
 }
 
-function convert(schema: z.ZodTypeAny): Record<string, unknown> {
+function defName(schema: z.ZodTypeAny): string {
+  let name = schemaNames.get(schema);
+  if (!name) {
+    name = `Schema${++anonymousCount}`;
+    schemaNames.set(schema, name);
+  }
+  return name;
+}
+
+// ---------------------------------------------------------------------------
+// Conversion
+// ---------------------------------------------------------------------------
+
+interface ConvertContext {
+  /** Collected `$defs` for recursive schemas */
+  defs: Record<string, unknown>;
+  /** Lazy schemas currently being expanded (cycle detection) */
+  inProgress: Set<z.ZodTypeAny>;
+  /** Lazy schemas found to reference themselves */
+  recursive: Set<z.ZodTypeAny>;
+}
+
+function convert(schema: z.ZodTypeAny, ctx: ConvertContext): Record<string, unknown> {
   const def = (schema as unknown as { _def: Record<string, unknown> })._def;
   const typeName = def.typeName as string;
 
@@ -24,7 +75,7 @@ function convert(schema: z.ZodTypeAny): Record<string, unknown> {
 
       for (const [key, value] of Object.entries(shape)) {
         const fieldSchema = value as z.ZodTypeAny;
-        properties[key] = convert(fieldSchema);
+        properties[key] = convert(fieldSchema, ctx);
 
         // Check if the field is optional
         if (!isOptional(fieldSchema)) {
@@ -69,7 +120,7 @@ function convert(schema: z.ZodTypeAny): Record<string, unknown> {
       const innerType = def.type as z.ZodTypeAny;
       const result: Record<string, unknown> = {
         type: "array",
-        items: convert(innerType),
+        items: convert(innerType, ctx),
       };
       const desc = def.description as string | undefined;
       if (desc) result.description = desc;
@@ -83,7 +134,7 @@ function convert(schema: z.ZodTypeAny): Record<string, unknown> {
 
     case "ZodOptional": {
       const inner = def.innerType as z.ZodTypeAny;
-      const result = convert(inner);
+      const result = convert(inner, ctx);
       // Carry over description from the optional wrapper
       const desc = def.description as string | undefined;
       if (desc) result.description = desc;
@@ -91,14 +142,33 @@ function convert(schema: z.ZodTypeAny): Record<string, unknown> {
     }
 
     case "ZodLazy": {
-      // Lazy schemas can cause infinite recursion. Return a generic object
-      // as a safe fallback. Prefer non-recursive schemas instead of z.lazy().
-      return { type: "object" };
+      const ref = () => ({ $ref: `#/$defs/${defName(schema)}` });
+
+      // Back-reference while expanding this schema: emit a $ref and remember
+      // that the schema needs a $defs entry
+      if (ctx.inProgress.has(schema)) {
+        ctx.recursive.add(schema);
+        return ref();
+      }
+      if (ctx.recursive.has(schema)) {
+        return ref();
+      }
+
+      ctx.inProgress.add(schema);
+      const getter = def.getter as () => z.ZodTypeAny;
+      const body = convert(getter(), ctx);
+      ctx.inProgress.delete(schema);
+
+      if (ctx.recursive.has(schema)) {
+        ctx.defs[defName(schema)] = body;
+        return ref();
+      }
+      return body;
     }
 
     case "ZodDefault": {
       const inner = def.innerType as z.ZodTypeAny;
-      return convert(inner);
+      return convert(inner, ctx);
     }
 
     default: {